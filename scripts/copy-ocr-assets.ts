@@ -0,0 +1,87 @@
+import { cp, copyFile, mkdir, access } from 'fs/promises'
+import path from 'path'
+import {
+  LOCAL_OCR_ASSET_FILES,
+  TESSERACT_CORE_FILES,
+  getLocalOcrAssets,
+  listRequiredOcrAssets,
+  verifyOcrAssets
+} from '../src/lib/ocr/assets'
+import { SUPPORTED_OCR_LANGUAGES } from '../src/lib/ocr/languages'
+
+/**
+ * Copy the pdf.js worker, Tesseract worker and core, and traineddata into the app's
+ * static files so menus can be processed without network access.
+ *
+ *   npm run ocr:assets -- --tessdata /path/to/tessdata [--out public/ocr-assets]
+ *
+ * Traineddata isn't an npm dependency: download <lang>.traineddata.gz from
+ * https://cdn.jsdelivr.net/npm/@tesseract.js-data/<lang>/4.0.0_best_int/ once, on a
+ * connected machine, and point --tessdata (or OCR_LANG_PATH) at that directory.
+ * Then set VITE_OCR_ASSETS_URL=/ocr-assets for the browser and OCR_LANG_PATH for the API.
+ */
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+const root = path.resolve(__dirname, '..')
+const modules = path.join(root, 'node_modules')
+
+async function exists(file: string): Promise<boolean> {
+  return access(file).then(() => true, () => false)
+}
+
+async function copyInto(from: string, to: string) {
+  await mkdir(path.dirname(to), { recursive: true })
+  await copyFile(from, to)
+  console.log(`✅ ${path.relative(root, to)}`)
+}
+
+async function copyOcrAssets() {
+  const outDir = path.resolve(root, getArg('out') ?? 'public/ocr-assets')
+  const tessdataDir = getArg('tessdata') ?? process.env.OCR_LANG_PATH
+
+  try {
+    await copyInto(
+      path.join(modules, 'pdfjs-dist/build/pdf.worker.min.mjs'),
+      path.join(outDir, LOCAL_OCR_ASSET_FILES.pdfWorker)
+    )
+    await cp(path.join(modules, 'pdfjs-dist/standard_fonts'), path.join(outDir, LOCAL_OCR_ASSET_FILES.pdfStandardFonts), { recursive: true })
+    console.log(`✅ ${path.relative(root, path.join(outDir, LOCAL_OCR_ASSET_FILES.pdfStandardFonts))}`)
+
+    await copyInto(
+      path.join(modules, 'tesseract.js/dist/worker.min.js'),
+      path.join(outDir, LOCAL_OCR_ASSET_FILES.tesseractWorker)
+    )
+    for (const file of TESSERACT_CORE_FILES) {
+      await copyInto(path.join(modules, 'tesseract.js-core', file), path.join(outDir, LOCAL_OCR_ASSET_FILES.tesseractCore, file))
+    }
+
+    if (tessdataDir) {
+      for (const { code } of SUPPORTED_OCR_LANGUAGES) {
+        const file = path.join(tessdataDir, `${code}.traineddata.gz`)
+        if (await exists(file)) {
+          await copyInto(file, path.join(outDir, LOCAL_OCR_ASSET_FILES.tessdata, `${code}.traineddata.gz`))
+        }
+      }
+    } else {
+      console.warn('⚠️  No --tessdata directory given; traineddata was not copied')
+    }
+
+    const assets = getLocalOcrAssets(outDir)!
+    await verifyOcrAssets(listRequiredOcrAssets(assets.tesseract, assets.pdfWorkerSrc), exists)
+    console.log(`🎉 Offline OCR assets are ready in ${path.relative(root, outDir)}`)
+  } catch (error) {
+    console.error('❌ Copying OCR assets failed:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  copyOcrAssets()
+}
+
+export { copyOcrAssets }
@@ -181,6 +181,18 @@ const CandidatesList: React.FC<CandidatesListProps> = ({
               </div>
             )}
 
+            {candidate.spellingCorrections && (
+              <div style={{ fontSize: '0.75rem', color: '#666', marginTop: '2px' }} title="Corrected against the culinary vocabulary">
+                ✏️ {candidate.spellingCorrections.map(c => `"${c.original}" → "${c.corrected}"`).join(', ')}
+              </div>
+            )}
+
+            {candidate.description && (
+              <div style={{ fontSize: '0.75rem', color: '#666', marginTop: '2px', fontStyle: 'italic' }}>
+                {candidate.description}
+              </div>
+            )}
+
             {candidate.priceContext && candidate.priceContext.length > 0 && (
               <div style={{ fontSize: '0.75rem', color: '#666', marginTop: '2px' }}>
                 💰 {candidate.priceContext.join(', ')}
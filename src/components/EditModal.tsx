@@ -3,12 +3,13 @@ import type { CandidateWithStatus } from '../pages/mlmp/MLMPPage'
 
 interface EditModalProps {
   candidate: CandidateWithStatus
-  onSave: (editedText: string) => void
+  onSave: (editedText: string, editedDescription: string) => void
   onCancel: () => void
 }
 
 const EditModal: React.FC<EditModalProps> = ({ candidate, onSave, onCancel }) => {
-  const [editedText, setEditedText] = useState(candidate.text)
+  const [editedText, setEditedText] = useState(candidate.editedText ?? candidate.text)
+  const [editedDescription, setEditedDescription] = useState(candidate.description ?? '')
   const inputRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => {
@@ -21,15 +22,18 @@ const EditModal: React.FC<EditModalProps> = ({ candidate, onSave, onCancel }) =>
 
   const handleSave = () => {
     const trimmedText = editedText.trim()
-    if (trimmedText && trimmedText !== candidate.text) {
-      onSave(trimmedText)
+    const trimmedDescription = editedDescription.trim()
+    if (trimmedText && (trimmedText !== candidate.text || trimmedDescription !== (candidate.description ?? ''))) {
+      onSave(trimmedText, trimmedDescription)
     } else {
       onCancel()
     }
   }
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
+    // Enter starts a new line in the description; Ctrl+Enter saves from there too
+    if (e.key === 'Enter' && (e.currentTarget.tagName !== 'TEXTAREA' || e.ctrlKey || e.metaKey)) {
+      e.preventDefault()
       handleSave()
     } else if (e.key === 'Escape') {
       onCancel()
@@ -54,6 +58,17 @@ const EditModal: React.FC<EditModalProps> = ({ candidate, onSave, onCancel }) =>
           onKeyDown={handleKeyPress}
           placeholder="Enter the corrected entree name..."
         />
+
+        <label className="edit-label" htmlFor="edit-description">Description</label>
+        <textarea
+          id="edit-description"
+          className="edit-input edit-description"
+          value={editedDescription}
+          onChange={(e) => setEditedDescription(e.target.value)}
+          onKeyDown={handleKeyPress}
+          rows={3}
+          placeholder="Ingredients or description printed under the dish..."
+        />
         
         <div style={{ 
           fontSize: '0.8rem', 
@@ -66,7 +81,8 @@ const EditModal: React.FC<EditModalProps> = ({ candidate, onSave, onCancel }) =>
             <li>Remove any prices or numbers</li>
             <li>Use proper capitalization</li>
             <li>Keep it concise (2-6 words)</li>
-            <li>Press Enter to save, Escape to cancel</li>
+            <li>Leave the description empty if the menu has none</li>
+            <li>Press Enter (Ctrl+Enter in the description) to save, Escape to cancel</li>
           </ul>
         </div>
         
@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { explainLine, type ExtractionTrace, type LineTrace } from '../lib/candidates'
+
+interface ExtractionTraceListProps {
+  trace?: ExtractionTrace // The trace of the page on screen
+  selectedCandidate: string | null
+  onCandidateSelect: (candidateId: string | null) => void
+}
+
+type DecisionFilter = 'all' | 'rejected' | 'accepted'
+
+/**
+ * Every OCR line of a page with the stage that accepted or rejected it and why.
+ * Clicking a line lists each step it went through; accepted lines also select their candidate.
+ */
+const ExtractionTraceList: React.FC<ExtractionTraceListProps> = ({ trace, selectedCandidate, onCandidateSelect }) => {
+  const [filter, setFilter] = useState<DecisionFilter>('all')
+  const [expandedLine, setExpandedLine] = useState<number | null>(null)
+  const selectedRef = useRef<HTMLDivElement>(null)
+
+  // Keep the line of the candidate selected elsewhere (list, canvas) in view
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [selectedCandidate])
+
+  if (!trace) {
+    return <div className="field-hint">No extraction trace for this page.</div>
+  }
+
+  // Blank lines carry no information worth reviewing
+  const lines = trace.lines.filter(line => line.text && (filter === 'all' || line.decision === filter))
+  const rejectedCount = trace.lines.filter(line => line.text && line.decision === 'rejected').length
+
+  const handleLineClick = (line: LineTrace) => {
+    setExpandedLine(expandedLine === line.lineIndex ? null : line.lineIndex)
+    if (line.candidateIds.length > 0) {
+      onCandidateSelect(line.candidateIds[0])
+    }
+  }
+
+  return (
+    <div className="candidates-list">
+      <div className="candidates-header">
+        <div className="candidates-count">
+          Page {trace.page}: {rejectedCount} of {trace.lines.filter(line => line.text).length} lines rejected
+        </div>
+        <div className="candidates-filters">
+          <select
+            className="filter-select"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as DecisionFilter)}
+          >
+            <option value="all">All lines</option>
+            <option value="rejected">Rejected</option>
+            <option value="accepted">Accepted</option>
+          </select>
+        </div>
+      </div>
+
+      <div style={{ overflowY: 'auto', flex: 1 }}>
+        {lines.map(line => {
+          const selected = selectedCandidate !== null && line.candidateIds.includes(selectedCandidate)
+
+          return (
+            <div
+              key={line.lineIndex}
+              ref={selected ? selectedRef : undefined}
+              className={`candidate-item trace-line ${line.decision}${selected ? ' selected' : ''}`}
+              onClick={() => handleLineClick(line)}
+            >
+              <div className="candidate-text">{line.text}</div>
+              <div className="trace-reason">
+                <span className={`trace-decision ${line.decision}`}>
+                  {line.decision === 'accepted' ? '✓ Accepted' : '✗ Rejected'}
+                </span>
+                {explainLine(line)}
+              </div>
+
+              {expandedLine === line.lineIndex && (
+                <ol className="trace-steps">
+                  {line.steps.map((step, i) => (
+                    <li key={i}>
+                      <strong>{step.stage}</strong> ({step.outcome})
+                      {step.text && step.text !== line.text && <> on "{step.text}"</>}: {step.reason}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default ExtractionTraceList
@@ -1,5 +1,7 @@
 import React, { useRef, useEffect, useState } from 'react'
 import type { CandidateWithStatus } from '../pages/mlmp/MLMPPage'
+import { denormalizeBoundingBox, normalizeBoundingBox } from '../lib/ocr/geometry'
+import type { OcrBoundingBox } from '../lib/ocr/OcrProvider'
 
 // Text Input Modal Component
 interface TextInputModalProps {
@@ -75,11 +77,11 @@ const TextInputModal: React.FC<TextInputModalProps> = ({ onConfirm, onCancel })
 }
 
 interface MenuCanvasProps {
-  image: HTMLImageElement
+  image: HTMLImageElement // The page as uploaded or rendered, before rotation and preprocessing
   candidates: CandidateWithStatus[]
   selectedCandidate: string | null
   onCandidateSelect: (candidateId: string | null) => void
-  onAddManualCandidate?: (text: string, bbox: { x: number, y: number, w: number, h: number }) => void
+  onAddManualCandidate?: (text: string, bboxNormalized: OcrBoundingBox) => void
 }
 
 const MenuCanvas: React.FC<MenuCanvasProps> = ({
@@ -102,6 +104,19 @@ const MenuCanvas: React.FC<MenuCanvasProps> = ({
   const [showTextInput, setShowTextInput] = useState(false)
   const [selectedBbox, setSelectedBbox] = useState<{ x: number, y: number, w: number, h: number } | null>(null)
 
+  // A different page starts unpanned, with no half-made selection
+  useEffect(() => {
+    setOffset({ x: 0, y: 0 })
+    setIsSelecting(false)
+    setShowTextInput(false)
+    setSelectedBbox(null)
+  }, [image])
+
+  // Normalized boxes are fractions of the page as uploaded, so they fit the image at whatever size it was rendered
+  const getCandidateBox = (candidate: CandidateWithStatus) => candidate.bboxNormalized
+    ? denormalizeBoundingBox(candidate.bboxNormalized, image.width, image.height)
+    : candidate.bbox
+
   // Draw image and bounding boxes
   useEffect(() => {
     const canvas = canvasRef.current
@@ -119,7 +134,8 @@ const MenuCanvas: React.FC<MenuCanvasProps> = ({
 
     // Draw bounding boxes
     candidates.forEach(candidate => {
-      if (!candidate.bbox) return
+      const bbox = getCandidateBox(candidate)
+      if (!bbox) return
 
       const isSelected = candidate.id === selectedCandidate
       const alpha = isSelected ? 0.3 : 0.1
@@ -127,31 +143,21 @@ const MenuCanvas: React.FC<MenuCanvasProps> = ({
 
       // Draw bounding box
       ctx.fillStyle = `rgba(218, 115, 78, ${alpha})`
-      ctx.fillRect(
-        candidate.bbox.x,
-        candidate.bbox.y,
-        candidate.bbox.w,
-        candidate.bbox.h
-      )
+      ctx.fillRect(bbox.x, bbox.y, bbox.w, bbox.h)
 
       // Draw border
       ctx.strokeStyle = borderColor
       ctx.lineWidth = 2
-      ctx.strokeRect(
-        candidate.bbox.x,
-        candidate.bbox.y,
-        candidate.bbox.w,
-        candidate.bbox.h
-      )
+      ctx.strokeRect(bbox.x, bbox.y, bbox.w, bbox.h)
 
       // Draw confidence score
-      if (candidate.bbox.w > 50 && candidate.bbox.h > 20) {
+      if (bbox.w > 50 && bbox.h > 20) {
         ctx.fillStyle = borderColor
         ctx.font = '12px Arial'
         ctx.fillText(
           `${Math.round(candidate.confidence * 100)}%`,
-          candidate.bbox.x + 2,
-          candidate.bbox.y + 15
+          bbox.x + 2,
+          bbox.y + 15
         )
       }
     })
@@ -193,12 +199,13 @@ const MenuCanvas: React.FC<MenuCanvasProps> = ({
     } else {
       // Find clicked candidate
       const clickedCandidate = candidates.find(candidate => {
-        if (!candidate.bbox) return false
+        const bbox = getCandidateBox(candidate)
+        if (!bbox) return false
         return (
-          x >= candidate.bbox.x &&
-          x <= candidate.bbox.x + candidate.bbox.w &&
-          y >= candidate.bbox.y &&
-          y <= candidate.bbox.y + candidate.bbox.h
+          x >= bbox.x &&
+          x <= bbox.x + bbox.w &&
+          y >= bbox.y &&
+          y <= bbox.y + bbox.h
         )
       })
 
@@ -299,7 +306,7 @@ const MenuCanvas: React.FC<MenuCanvasProps> = ({
   // Handle adding manual candidate
   const handleAddManualCandidate = (text: string) => {
     if (selectedBbox && onAddManualCandidate) {
-      onAddManualCandidate(text, selectedBbox)
+      onAddManualCandidate(text, normalizeBoundingBox(selectedBbox, { width: image.width, height: image.height }))
       setShowTextInput(false)
       setSelectedBbox(null)
       setIsSelectMode(false)
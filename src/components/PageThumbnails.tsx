@@ -0,0 +1,58 @@
+import React from 'react'
+import { isPageRotation } from '../lib/preprocess/orientation'
+
+interface PageThumbnailsProps {
+  pages: HTMLImageElement[]
+  pageNumbers?: number[] // Page number of each image in the document; 1, 2, 3... by default
+  rotations?: Array<number | undefined> // Clockwise rotation applied before OCR, per page; undone like MenuCanvas does
+  candidateCounts?: number[] // Candidates found on each page
+  currentPage: number // Page number, as in pageNumbers
+  onPageSelect: (page: number) => void
+}
+
+const THUMBNAIL_WIDTH = 64
+const THUMBNAIL_HEIGHT = 84
+
+const PageThumbnails: React.FC<PageThumbnailsProps> = ({ pages, pageNumbers, rotations, candidateCounts, currentPage, onPageSelect }) => {
+  if (pages.length < 2) return null
+
+  return (
+    <div className="page-thumbnails">
+      {pages.map((image, i) => {
+        const page = pageNumbers?.[i] ?? i + 1
+        const rotation = rotations?.[i]
+        const displayRotation = isPageRotation(rotation) ? (360 - rotation) % 360 : 0
+        // Sideways pages are sized before they are turned, so their box limits swap
+        const sideways = displayRotation % 180 !== 0
+        const count = candidateCounts?.[i]
+
+        return (
+          <button
+            key={page}
+            type="button"
+            className={`page-thumbnail${page === currentPage ? ' active' : ''}`}
+            onClick={() => onPageSelect(page)}
+            title={`Page ${page}${count !== undefined ? ` (${count} candidates)` : ''}`}
+          >
+            <div className="page-thumbnail-image" style={{ width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT }}>
+              <img
+                src={image.src}
+                alt={`Page ${page}`}
+                style={{
+                  maxWidth: sideways ? THUMBNAIL_HEIGHT : THUMBNAIL_WIDTH,
+                  maxHeight: sideways ? THUMBNAIL_WIDTH : THUMBNAIL_HEIGHT,
+                  transform: displayRotation ? `rotate(${displayRotation}deg)` : undefined
+                }}
+              />
+            </div>
+            <span className="page-thumbnail-label">
+              {page}{count !== undefined && ` · ${count}`}
+            </span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+export default PageThumbnails
@@ -1,13 +1,16 @@
 import React from 'react'
+import { OCR_STAGE_LABELS, type OcrPageProgress } from '../lib/ocr/progress'
 
 interface ProcessingStatusProps {
   status: 'idle' | 'uploading' | 'processing' | 'completed' | 'error'
   progress: number
   message: string
   error?: string
+  pages?: OcrPageProgress[]
+  onCancel?: () => void
 }
 
-const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ progress, message, error }) => {
+const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ progress, message, error, pages, onCancel }) => {
   return (
     <div className="processing-status">
       <div className="processing-spinner"></div>
@@ -33,6 +36,48 @@ const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ progress, message,
           }}
         />
       </div>
+      {pages && pages.length > 0 && (
+        <div style={{ marginTop: '15px', textAlign: 'left' }}>
+          {pages.map(page => (
+            <div
+              key={page.page}
+              style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '0.85rem', color: '#555', marginBottom: '6px' }}
+            >
+              <span style={{ width: '60px' }}>Page {page.page}</span>
+              <span style={{ width: '160px' }}>{OCR_STAGE_LABELS[page.stage]}</span>
+              <div style={{ flex: 1, height: '6px', backgroundColor: '#e9ecef', borderRadius: '3px', overflow: 'hidden' }}>
+                <div
+                  style={{
+                    width: `${page.percent}%`,
+                    height: '100%',
+                    backgroundColor: page.stage === 'extracting' && page.percent === 100 ? '#28a745' : '#DA734E',
+                    transition: 'width 0.3s ease'
+                  }}
+                />
+              </div>
+              <span style={{ width: '40px', textAlign: 'right' }}>{Math.round(page.percent)}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {onCancel && (
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{
+            marginTop: '15px',
+            padding: '8px 20px',
+            backgroundColor: 'white',
+            color: '#c33',
+            border: '1px solid #c33',
+            borderRadius: '6px',
+            cursor: 'pointer',
+            fontSize: '0.9rem'
+          }}
+        >
+          Cancel
+        </button>
+      )}
       {error && (
         <div style={{ 
           marginTop: '10px', 
@@ -1,13 +1,93 @@
-import React, { useCallback, useState } from 'react'
+import React, { useCallback, useMemo, useState } from 'react'
 import CameraCapture from './CameraCapture'
+import { SUPPORTED_OCR_LANGUAGES, DEFAULT_OCR_LANGUAGES, type OcrLanguageSelection } from '../lib/ocr/languages'
+import { PREPROCESS_STEPS, DEFAULT_PREPROCESS_STEPS, type PreprocessStep } from '../lib/preprocess'
+import { isPageRangeSyntax, getMaxPdfPages } from '../lib/pdf/pageRange'
+import { listExtractionProfiles, DEFAULT_EXTRACTION_PROFILE } from '../lib/candidates/pipeline'
+import { MENU_FILE_TYPES, MENU_FILE_EXTENSIONS, MENU_FILE_TYPE_NAMES, isPagedFileType } from '../lib/image/formats'
+
+export interface UploadOptions {
+  languages: OcrLanguageSelection
+  preprocessSteps: PreprocessStep[]
+  autoRotate: boolean // Detect pages photographed sideways or upside down and turn them upright
+  forceReocr: boolean // Ignore cached OCR results for a file that was processed before
+  useTextLayer: boolean // Read the text of digital PDFs directly; pages without text are still OCR'd
+  pageRange: string // PDF or TIFF pages to process, e.g. "1-5, 8"; empty for all
+  extractionProfile: string // Registered extraction profile: which candidate stages run, in which order
+}
 
 interface UploadAreaProps {
-  onFileUpload: (file: File) => void
+  onFileUpload: (file: File, options: UploadOptions) => void
+}
+
+const PREPROCESS_STEP_LABELS: Record<PreprocessStep, string> = {
+  grayscale: 'Grayscale',
+  denoise: 'Denoise',
+  deskew: 'Deskew',
+  crop: 'Crop borders',
+  upscale: 'Upscale small text',
+  threshold: 'Binarize'
 }
 
 const UploadArea: React.FC<UploadAreaProps> = ({ onFileUpload }) => {
   const [isDragOver, setIsDragOver] = useState(false)
   const [showCamera, setShowCamera] = useState(false)
+  const [autoDetectLanguage, setAutoDetectLanguage] = useState(false)
+  const [languages, setLanguages] = useState<string[]>(DEFAULT_OCR_LANGUAGES)
+  const [preprocessSteps, setPreprocessSteps] = useState<PreprocessStep[]>(DEFAULT_PREPROCESS_STEPS)
+  const [autoRotate, setAutoRotate] = useState(true)
+  const [forceReocr, setForceReocr] = useState(false)
+  const [useTextLayer, setUseTextLayer] = useState(true)
+  const [pageRange, setPageRange] = useState('')
+  const [extractionProfile, setExtractionProfile] = useState(DEFAULT_EXTRACTION_PROFILE.name)
+  const pageRangeValid = isPageRangeSyntax(pageRange)
+  const maxPdfPages = getMaxPdfPages(import.meta.env.VITE_MAX_PDF_PAGES)
+
+  const uploadOptions = useMemo<UploadOptions>(() => ({
+    languages: autoDetectLanguage ? 'auto' : languages,
+    preprocessSteps,
+    autoRotate,
+    forceReocr,
+    useTextLayer,
+    pageRange,
+    extractionProfile
+  }), [autoDetectLanguage, languages, preprocessSteps, autoRotate, forceReocr, useTextLayer, pageRange, extractionProfile])
+
+  const toggleLanguage = useCallback((code: string) => {
+    setLanguages(prev => {
+      if (prev.includes(code)) {
+        // Keep at least one language selected
+        return prev.length > 1 ? prev.filter(language => language !== code) : prev
+      }
+      return [...prev, code]
+    })
+  }, [])
+
+  const togglePreprocessStep = useCallback((step: PreprocessStep) => {
+    setPreprocessSteps(prev => prev.includes(step) ? prev.filter(s => s !== step) : [...prev, step])
+  }, [])
+
+  const handleFileSelect = useCallback((file: File) => {
+    // Validate file type
+    if (!MENU_FILE_TYPES.includes(file.type)) {
+      alert(`Please select a ${MENU_FILE_TYPE_NAMES} file`)
+      return
+    }
+
+    // Validate file size (max 10MB)
+    const maxSize = 10 * 1024 * 1024 // 10MB
+    if (file.size > maxSize) {
+      alert('File size must be less than 10MB')
+      return
+    }
+
+    if (isPagedFileType(file.type) && !pageRangeValid) {
+      alert('Please enter a valid page range, e.g. 1-5, 8')
+      return
+    }
+
+    onFileUpload(file, uploadOptions)
+  }, [onFileUpload, uploadOptions, pageRangeValid])
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -29,25 +109,7 @@ const UploadArea: React.FC<UploadAreaProps> = ({ onFileUpload }) => {
     if (file) {
       handleFileSelect(file)
     }
-  }, [])
-
-  const handleFileSelect = useCallback((file: File) => {
-    // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'application/pdf']
-    if (!allowedTypes.includes(file.type)) {
-      alert('Please select a JPG, PNG, or PDF file')
-      return
-    }
-
-    // Validate file size (max 10MB)
-    const maxSize = 10 * 1024 * 1024 // 10MB
-    if (file.size > maxSize) {
-      alert('File size must be less than 10MB')
-      return
-    }
-
-    onFileUpload(file)
-  }, [onFileUpload])
+  }, [handleFileSelect])
 
   const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -57,9 +119,9 @@ const UploadArea: React.FC<UploadAreaProps> = ({ onFileUpload }) => {
   }, [handleFileSelect])
 
   const handleCameraCapture = useCallback((file: File) => {
-    onFileUpload(file)
+    onFileUpload(file, uploadOptions)
     setShowCamera(false)
-  }, [onFileUpload])
+  }, [onFileUpload, uploadOptions])
 
   const handleCameraClose = useCallback(() => {
     setShowCamera(false)
@@ -77,7 +139,7 @@ const UploadArea: React.FC<UploadAreaProps> = ({ onFileUpload }) => {
         <input
           id="file-input"
           type="file"
-          accept=".jpg,.jpeg,.png,.pdf"
+          accept={MENU_FILE_EXTENSIONS}
           onChange={handleFileInputChange}
         />
         
@@ -86,10 +148,96 @@ const UploadArea: React.FC<UploadAreaProps> = ({ onFileUpload }) => {
           {isDragOver ? 'Drop your menu file here' : 'Click to upload or drag and drop'}
         </div>
         <div className="upload-hint">
-          Supports JPG, PNG, and PDF files up to 10MB
+          Supports {MENU_FILE_TYPE_NAMES} files up to 10MB
         </div>
       </div>
       
+      <div className="upload-settings">
+        <label>
+          <input
+            type="checkbox"
+            checked={autoDetectLanguage}
+            onChange={(e) => setAutoDetectLanguage(e.target.checked)}
+          />
+          Auto-detect language
+        </label>
+        {SUPPORTED_OCR_LANGUAGES.map(language => (
+          <label key={language.code}>
+            <input
+              type="checkbox"
+              checked={languages.includes(language.code)}
+              disabled={autoDetectLanguage}
+              onChange={() => toggleLanguage(language.code)}
+            />
+            {language.label}
+          </label>
+        ))}
+      </div>
+
+      <div className="upload-settings">
+        <label>
+          <input
+            type="checkbox"
+            checked={autoRotate}
+            onChange={(e) => setAutoRotate(e.target.checked)}
+          />
+          Auto-rotate
+        </label>
+        {PREPROCESS_STEPS.map(step => (
+          <label key={step}>
+            <input
+              type="checkbox"
+              checked={preprocessSteps.includes(step)}
+              onChange={() => togglePreprocessStep(step)}
+            />
+            {PREPROCESS_STEP_LABELS[step]}
+          </label>
+        ))}
+      </div>
+
+      <div className="upload-settings">
+        <label>
+          <input
+            type="checkbox"
+            checked={forceReocr}
+            onChange={(e) => setForceReocr(e.target.checked)}
+          />
+          Force re-OCR (ignore cached results)
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={useTextLayer}
+            onChange={(e) => setUseTextLayer(e.target.checked)}
+          />
+          Use PDF text layer (skip OCR for digital menus)
+        </label>
+        <label>
+          Pages (PDF, TIFF)
+          <input
+            type="text"
+            value={pageRange}
+            onChange={(e) => setPageRange(e.target.value)}
+            placeholder="all"
+            aria-invalid={!pageRangeValid}
+            className="page-range-input"
+          />
+          <span className={pageRangeValid ? 'field-hint' : 'field-hint field-error'}>
+            {pageRangeValid ? `e.g. 1-5, 8 (up to ${maxPdfPages} pages)` : 'Use page numbers and ranges, e.g. 1-5, 8'}
+          </span>
+        </label>
+        <label>
+          Extraction profile
+          <select value={extractionProfile} onChange={(e) => setExtractionProfile(e.target.value)}>
+            {listExtractionProfiles().map(profile => (
+              <option key={profile.name} value={profile.name} title={profile.description}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
       <div className="upload-options">
         <button
           type="button"
@@ -0,0 +1,51 @@
+import { findBlacklistedTerm, isSectionHeader } from './regex'
+import { removeAllPrices } from './priceRemoval'
+import { getDescriptionReason } from './heuristics'
+
+// Longest description kept, in lines
+const MAX_DESCRIPTION_LINES = 4
+
+/**
+ * Whether a line reads like a dish description rather than a dish name: it starts in
+ * lowercase, lists ingredients with commas, or the description heuristic flags it.
+ * Prices on the line are ignored.
+ */
+export function isDescriptionLine(text: string, lineIndex: number, allLines: string[]): boolean {
+  const rest = removeAllPrices(text)
+  return /^[a-zà-ÿ]/.test(rest) || rest.includes(',') || getDescriptionReason(rest, lineIndex, allLines) !== null
+}
+
+/**
+ * The description printed under the dish on line `lineIndex`, joined into one paragraph
+ * when it wraps over several lines. Price-only lines in between are skipped; the next
+ * dish, section header or menu note ends it.
+ */
+export function findCandidateDescription(lineIndex: number, allLines: string[]): string | undefined {
+  const parts: string[] = []
+
+  for (let i = lineIndex + 1; i < allLines.length && parts.length < MAX_DESCRIPTION_LINES; i++) {
+    const text = allLines[i].trim()
+    const rest = removeAllPrices(text)
+    if (!text || (!rest && parts.length === 0)) continue
+    if (!rest || isSectionHeader(text) || findBlacklistedTerm(text)) break
+
+    const previous = parts[parts.length - 1]
+    if (!isDescriptionLine(text, i, allLines) && !(previous && continuesOnNextLine(previous))) break
+    parts.push(rest)
+  }
+
+  if (parts.length === 0) return undefined
+  return parts.reduce((description, part) =>
+    // Join a word hyphenated across the line break back together
+    /[a-zà-ÿ]-$/i.test(description) && /^[a-zà-ÿ]/.test(part)
+      ? description.slice(0, -1) + part
+      : `${description} ${part}`
+  )
+}
+
+/**
+ * A line that stops mid-sentence ("..., lemon and") continues on the next one
+ */
+function continuesOnNextLine(text: string): boolean {
+  return /[,\-&]$/.test(text) || /\b(and|with|or|in|on|of|et|avec|de|du|au|aux|con|e)$/i.test(text)
+}
@@ -0,0 +1,571 @@
+import type { OcrLine, OcrWord, OcrBoundingBox } from '../ocr/OcrProvider'
+import { isSectionHeader, FRENCH_DESCRIPTIVE_WORDS } from './regex'
+import { containsAnyPrice, extractAllPrices, validateNoPrices, removeTrailingNumber } from './priceRemoval'
+import type { SectionHeader } from './headers'
+import { findWordSpans } from './wordSpans'
+
+/**
+ * Text and layout heuristics candidate extraction stages are built from. Checks that
+ * can reject a line return the reason instead of a boolean, for the extraction trace.
+ */
+
+/**
+ * Calculate font size ratio for a line compared to average height.
+ * Lines from a PDF text layer compare their real font sizes instead.
+ */
+export function calculateFontSizeRatio(line: OcrLine, allLines: OcrLine[]): number {
+  if (line.font && allLines.every(l => l.font)) {
+    const avgSize = allLines.reduce((sum, l) => sum + l.font!.size, 0) / allLines.length
+    return avgSize > 0 ? line.font.size / avgSize : 1.0
+  }
+
+  if (!line.bbox || !line.bbox.h) return 1.0
+  
+  // Calculate average height of all lines
+  const heights = allLines
+    .filter(l => l.bbox && l.bbox.h && l.bbox.h > 0)
+    .map(l => l.bbox!.h)
+  
+  if (heights.length === 0) return 1.0
+  
+  const avgHeight = heights.reduce((sum, h) => sum + h, 0) / heights.length
+  return line.bbox.h / avgHeight
+}
+
+/**
+ * Check if a line has bold text based on OCR confidence and font characteristics
+ * Lower confidence often indicates bold text (harder for OCR to read).
+ * Lines from a PDF text layer know their font, so no guessing is needed.
+ */
+function isBoldText(line: OcrLine, allLines: OcrLine[]): boolean {
+  if (line.font) {
+    return line.font.bold || calculateFontSizeRatio(line, allLines) > 1.1
+  }
+
+  if (!line.confidence) return false
+  
+  // Calculate average confidence of all lines
+  const confidences = allLines
+    .filter(l => l.confidence !== undefined)
+    .map(l => l.confidence!)
+  
+  if (confidences.length === 0) return false
+  
+  const avgConfidence = confidences.reduce((sum, c) => sum + c, 0) / confidences.length
+  
+  // Bold text typically has lower OCR confidence (harder to read)
+  // Also check if font size is larger than average
+  const fontSizeRatio = calculateFontSizeRatio(line, allLines)
+  const isLowConfidence = line.confidence < avgConfidence * 0.8
+  const isLargerFont = fontSizeRatio > 1.1
+  
+  return isLowConfidence || isLargerFont
+}
+
+/**
+ * Check if text is ALL CAPS with proper Unicode support
+ */
+export function isAllCapsText(text: string): boolean {
+  // Remove spaces, hyphens, apostrophes, and ampersands for checking
+  const cleanText = text.replace(/[\s\-'&]/g, '')
+  
+  // Check if all remaining characters are uppercase (including accented characters)
+  return cleanText.length > 0 && cleanText === cleanText.toUpperCase() && /[A-ZÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏÐÑÒÓÔÕÖØÙÚÛÜÝÞ]/.test(cleanText)
+}
+
+/**
+ * Calculate visual hierarchy score based on multiple factors
+ */
+export function calculateVisualHierarchyScore(line: OcrLine, allLines: OcrLine[]): number {
+  let score = 0
+  
+  // ALL CAPS text gets highest priority
+  if (isAllCapsText(line.text)) {
+    score += 0.5 // Increased from 0.4
+  }
+  
+  // Font size ratio (enhanced weights)
+  const fontSizeRatio = calculateFontSizeRatio(line, allLines)
+  if (fontSizeRatio > 1.5) {
+    score += 0.4 // Very large font - strongest indicator
+  } else if (fontSizeRatio > 1.3) {
+    score += 0.35 // Significantly larger font
+  } else if (fontSizeRatio > 1.1) {
+    score += 0.25 // Moderately larger font
+  } else if (fontSizeRatio > 1.0) {
+    score += 0.15 // Slightly larger font
+  }
+  
+  // Bold text detection (enhanced weight)
+  if (isBoldText(line, allLines)) {
+    score += 0.3 // Increased from 0.2
+  }
+  
+  // Price proximity (check if there's a price on the same line or nearby)
+  const hasPriceOnLine = containsAnyPrice(line.text)
+  if (hasPriceOnLine) {
+    score += 0.3 // Price on same line is very strong indicator
+  }
+  
+  // Check for prices in nearby lines (within 2 lines)
+  const nearbyLines = allLines.slice(
+    Math.max(0, allLines.indexOf(line) - 2),
+    Math.min(allLines.length, allLines.indexOf(line) + 3)
+  )
+  const hasNearbyPrice = nearbyLines.some(l => l !== line && containsAnyPrice(l.text))
+  if (hasNearbyPrice) {
+    score += 0.15
+  }
+  
+  // Spacing detection - larger spacing above often indicates menu items
+  const spacingScore = calculateSpacingScore(line, allLines)
+  score += spacingScore
+  
+  return Math.min(1.0, score)
+}
+
+/**
+ * Calculate spacing score based on vertical spacing above and below the line
+ */
+function calculateSpacingScore(line: OcrLine, allLines: OcrLine[]): number {
+  if (!line.bbox || !line.bbox.y) return 0
+  
+  const lineIndex = allLines.indexOf(line)
+  if (lineIndex <= 0) return 0
+  
+  const prevLine = allLines[lineIndex - 1]
+  if (!prevLine.bbox || !prevLine.bbox.y || !prevLine.bbox.h) return 0
+  
+  // Calculate spacing above this line
+  const spacingAbove = line.bbox.y - (prevLine.bbox.y + prevLine.bbox.h)
+  
+  // Calculate average spacing in the document
+  let totalSpacing = 0
+  let spacingCount = 0
+  
+  for (let i = 1; i < allLines.length; i++) {
+    const current = allLines[i]
+    const previous = allLines[i - 1]
+    
+    if (current.bbox && current.bbox.y && previous.bbox && previous.bbox.y && previous.bbox.h) {
+      const spacing = current.bbox.y - (previous.bbox.y + previous.bbox.h)
+      if (spacing > 0) {
+        totalSpacing += spacing
+        spacingCount++
+      }
+    }
+  }
+  
+  if (spacingCount === 0) return 0
+  
+  const avgSpacing = totalSpacing / spacingCount
+  const spacingRatio = spacingAbove / avgSpacing
+  
+  // Reward larger spacing (common for menu items)
+  if (spacingRatio > 2.0) {
+    return 0.2 // Very large spacing
+  } else if (spacingRatio > 1.5) {
+    return 0.15 // Large spacing
+  } else if (spacingRatio > 1.2) {
+    return 0.1 // Above average spacing
+  }
+  
+  return 0
+}
+
+/**
+ * Explain why text is not a valid entree name (a fragment or invalid pattern), or return null if it is one
+ */
+export function getEntreeNameProblem(text: string): string | null {
+  const normalizedText = text.toLowerCase().trim()
+  
+  // Filter out candidates that start with invalid words
+  const invalidStartWords = ['and', 'or', 'with', 'including', 'served', 'topped', 'garnished']
+  const invalidStartWord = invalidStartWords.find(word => normalizedText.startsWith(word + ' '))
+  if (invalidStartWord) {
+    return `Starts with "${invalidStartWord}", like the middle of a description`
+  }
+  
+  // Filter out candidates with commas or periods in the middle (rare in entree names)
+  const hasMiddlePunctuation = /[.,]\s/.test(text)
+  if (hasMiddlePunctuation) {
+    return 'Has a comma or period in the middle, like a description'
+  }
+  
+  // Filter out very short fragments (likely incomplete)
+  if (normalizedText.length < 4) {
+    return 'Shorter than 4 characters'
+  }
+  
+  // Filter out single words (entrees are usually 2+ words)
+  const wordCount = normalizedText.split(/\s+/).filter(w => w.length > 0).length
+  if (wordCount < 2) {
+    return 'Only one word (entree names usually have two or more)'
+  }
+  
+  // CRITICAL: Ensure no prices remain in the text (a number ending the name was kept on purpose)
+  if (!validateNoPrices(removeTrailingNumber(text))) {
+    return 'Still contains a price'
+  }
+  
+  return null
+}
+
+/**
+ * Check if text is a valid entree name (not a fragment or invalid pattern)
+ */
+export function isValidEntreeName(text: string): boolean {
+  return getEntreeNameProblem(text) === null
+}
+
+/**
+ * Explain why text is likely a description that should be excluded, or return null if it is not one
+ */
+export function getDescriptionReason(text: string, lineIndex: number, allLines: string[]): string | null {
+  const normalizedText = text.toLowerCase().trim()
+  const words = normalizedText.split(/\s+/).filter(w => w.length > 0)
+  
+  // Descriptions are usually:
+  // 1. Longer than 6 words
+  // 2. Don't have prices
+  // 3. Contain descriptive words
+  // 4. Often follow menu items
+  // 5. Have high comma density (comma-separated ingredients)
+  
+  const isLong = words.length > 6
+  const hasNoPrice = !containsAnyPrice(text)
+  
+  // Check for high comma density (common in descriptions)
+  const commaCount = (text.match(/,/g) || []).length
+  const hasHighCommaDensity = commaCount >= 2 || (commaCount > 0 && words.length > 4)
+  
+  // Descriptive words that indicate it's a description, not a menu item
+  const descriptiveWords = [
+    'with', 'served', 'topped', 'garnished', 'fresh', 'local', 'organic',
+    'garlic', 'lemon', 'butter', 'sourdough', 'crumbs', 'grilled', 'baguette',
+    'seasoned', 'marinated', 'roasted', 'grilled', 'fried', 'steamed',
+    'accompanied', 'drizzled', 'sprinkled', 'finished', 'garnished'
+  ]
+  
+  // Combine English and French descriptive words
+  const allDescriptiveWords = [...descriptiveWords, ...FRENCH_DESCRIPTIVE_WORDS]
+  const descriptiveWord = allDescriptiveWords.find(word => normalizedText.includes(word))
+  const containsDescriptiveWords = descriptiveWord !== undefined
+  
+  // Check if previous line looks like a menu item (has price, is shorter, or is ALL CAPS)
+  const prevLine = lineIndex > 0 ? allLines[lineIndex - 1].trim() : ''
+  const prevLineIsShorter = prevLine.length < text.length * 0.8
+  const prevLineIsAllCaps = /^[A-ZÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏÐÑÒÓÔÕÖØÙÚÛÜÝÞ\s\-'&]+$/.test(prevLine) && prevLine.length > 3
+  
+  // Check if next line looks like another menu item
+  const nextLine = lineIndex < allLines.length - 1 ? allLines[lineIndex + 1].trim() : ''
+  const nextLineHasPrice = containsAnyPrice(nextLine)
+  
+  // It's likely a description if it has no price and:
+  // - It's long AND contains descriptive words
+  // - Has high comma density (comma-separated ingredients)
+  // - Is between menu items (previous line shorter, next line has price)
+  // - OR follows an ALL CAPS line and is long (common pattern: ALL CAPS menu item, then description)
+  // BUT NOT if it's a short, simple entree name (like "Potato Skins", "Ribs", etc.)
+  // OR if it's a clear entree name (like "Crab and Scallop Cake")
+  const isShortSimpleEntree = words.length <= 3 && !containsDescriptiveWords && !hasHighCommaDensity
+  const isClearEntreeName = words.length <= 5 && !containsDescriptiveWords && !hasHighCommaDensity && 
+                           (words.some(w => ['crab', 'scallop', 'cake', 'steak', 'ribs', 'skins', 'platter', 'newburg'].includes(w.toLowerCase())))
+  
+  if (!hasNoPrice || isShortSimpleEntree || isClearEntreeName) {
+    return null
+  }
+  if (isLong && containsDescriptiveWords) {
+    return `Long, unpriced line with descriptive words like "${descriptiveWord}"`
+  }
+  if (hasHighCommaDensity) {
+    return `Comma-separated like an ingredient list (${commaCount} comma${commaCount === 1 ? '' : 's'})`
+  }
+  if (prevLineIsShorter && nextLineHasPrice) {
+    return 'Unpriced line between a shorter line and a priced one, like a description'
+  }
+  if (prevLineIsAllCaps && isLong) {
+    return 'Long, unpriced line under an ALL CAPS dish name'
+  }
+  return null
+}
+
+/**
+ * Explain why text is likely the restaurant's name, or return null if it is not
+ */
+export function getRestaurantNameReason(
+  text: string, 
+  lineIndex: number, 
+  sectionHeaders: SectionHeader[], 
+  allLines: string[]
+): string | null {
+  const normalizedText = text.toLowerCase().trim()
+  
+  // Restaurant names are usually:
+  // 1. Short (1-4 words)
+  // 2. Appear early in the menu (first 20% of lines)
+  // 3. Often in title case or all caps
+  // 4. Don't have prices
+  // 5. Are followed by section headers
+  
+  const words = normalizedText.split(/\s+/).filter(w => w.length > 0)
+  const isShort = words.length <= 4
+  const isEarly = lineIndex < allLines.length * 0.2
+  const isTitleCase = /^[A-Z][a-z]+(\s+[A-Z][a-z]+)*$/.test(text)
+  const isAllCaps = /^[A-Z\s]+$/.test(text)
+  const hasNoPrice = !containsAnyPrice(text)
+  
+  // Check if next few lines contain section headers
+  const hasSectionHeaderAfter = sectionHeaders.some(header => 
+    header.lineIndex > lineIndex && header.lineIndex <= lineIndex + 5
+  )
+  
+  // Restaurant name indicators
+  if (isShort && isEarly && (isTitleCase || isAllCaps) && hasNoPrice && hasSectionHeaderAfter) {
+    return 'Short, unpriced line near the top, followed by a section header'
+  }
+  
+  // Additional patterns that suggest restaurant names (more specific to avoid false positives)
+  const restaurantPatterns = [
+    /^[A-Z][a-z]*'?s\s+(Restaurant|Cafe|Bistro|Grill|Kitchen|Dining|Eatery|Bar|Lounge)$/i, // "Joe's Restaurant", "Mary's Cafe"
+    /^[A-Z][a-z]+\s+&\s+[A-Z][a-z]+'?s$/i, // "Joe & Jane's"
+    /^[A-Z][a-z]+\s+(Italian|French|Chinese|Mexican|Thai|Indian|Japanese|American)\s+(Restaurant|Cafe|Bistro|Grill|Kitchen|Dining|Eatery)$/i, // "Joe's Italian Restaurant"
+    /^[A-Z][a-z]+\s+[A-Z][a-z]+\s+(Restaurant|Cafe|Bistro|Grill|Kitchen|Dining|Eatery|Bar|Lounge)$/i, // "Joe's Fine Restaurant"
+    /^(The\s+)?[A-Z][a-z]+\s+(Restaurant|Cafe|Bistro|Grill|Kitchen|Dining|Eatery|Bar|Lounge)$/i // "The Restaurant", "Joe's Restaurant"
+  ]
+  
+  if (restaurantPatterns.some(pattern => pattern.test(text))) {
+    return 'Looks like a restaurant name'
+  }
+  
+  return null
+}
+
+export interface LineRejection {
+  stage: 'section-header' | 'restaurant-name' | 'description'
+  reason: string
+}
+
+/**
+ * Explain why text is likely a section header, restaurant name or description that
+ * should be excluded, or return null if it is none of them
+ */
+export function getRestaurantNameOrHeaderRejection(
+  text: string, 
+  lineIndex: number, 
+  sectionHeaders: SectionHeader[], 
+  allLines: string[]
+): LineRejection | null {
+  if (isSectionHeader(text)) {
+    return { stage: 'section-header', reason: 'Section header' }
+  }
+  
+  const restaurantNameReason = getRestaurantNameReason(text, lineIndex, sectionHeaders, allLines)
+  if (restaurantNameReason) {
+    return { stage: 'restaurant-name', reason: restaurantNameReason }
+  }
+  
+  // Check if it's a description (longer text, no price, contains descriptive words)
+  const descriptionReason = getDescriptionReason(text, lineIndex, allLines)
+  if (descriptionReason) {
+    return { stage: 'description', reason: descriptionReason }
+  }
+  
+  return null
+}
+
+/**
+ * Detect compound menu items that should be split into separate entrees
+ * Examples: "Combination Platter Lobster Newburg $40.00" -> ["Combination Platter $40.00", "Lobster Newburg $40.00"]
+ *           "Tomato Pasta Salmon Rolls $25.00" -> ["Tomato Pasta $25.00", "Salmon Rolls $25.00"]
+ */
+export function detectCompoundMenuItems(text: string): string[] {
+  // Extract price from the end of the text
+  const priceMatch = text.match(/(.*?)\s*([$€£¥]\s?\d{1,4}(?:[.,]\d{2})?)\s*$/i)
+  const baseText = priceMatch ? priceMatch[1].trim() : text
+  const price = priceMatch ? priceMatch[2].trim() : ''
+  
+  // Known compound patterns that should be split
+  const compoundPatterns = [
+    // Pattern: "Combination Platter [Item Name]" - more specific
+    {
+      pattern: /^(combination\s+platter)\s+(.+)$/i,
+      split: (match: RegExpMatchArray) => [match[1], match[2]]
+    },
+    // Pattern: "[Item1] [Item2] Rolls" - split before "Rolls"
+    {
+      pattern: /^(.+?)\s+(.+?\s+rolls?)$/i,
+      split: (match: RegExpMatchArray) => [match[1], match[2]]
+    },
+    // Pattern: "[Item1] [Item2] Pasta" - split before "Pasta"
+    {
+      pattern: /^(.+?)\s+(.+?\s+pasta)$/i,
+      split: (match: RegExpMatchArray) => [match[1], match[2]]
+    },
+    // Pattern: "[Item1] [Item2] Steak" - split before "Steak"
+    {
+      pattern: /^(.+?)\s+(.+?\s+steak)$/i,
+      split: (match: RegExpMatchArray) => [match[1], match[2]]
+    },
+    // Pattern: "[Item1] [Item2] Salad" - split before "Salad"
+    {
+      pattern: /^(.+?)\s+(.+?\s+salad)$/i,
+      split: (match: RegExpMatchArray) => [match[1], match[2]]
+    },
+    // Pattern: "[Item1] [Item2] Newburg" - split before "Newburg"
+    {
+      pattern: /^(.+?)\s+(.+?\s+newburg)$/i,
+      split: (match: RegExpMatchArray) => [match[1], match[2]]
+    },
+    // NEW: Pattern for "Chicken Fajita Greek Steak" - split at Greek
+    {
+      pattern: /^(.+?)\s+(greek\s+.+)$/i,
+      split: (match: RegExpMatchArray) => [match[1], match[2]]
+    },
+    // NEW: Pattern for "Thai Chicken Kale Crunch" - split at Kale
+    {
+      pattern: /^(.+?)\s+(kale\s+.+)$/i,
+      split: (match: RegExpMatchArray) => [match[1], match[2]]
+    },
+    // NEW: General pattern for items with multiple words that could be separate entrees
+    // This catches cases like "Chicken Fajita Greek Steak" where we have two distinct food items
+    {
+      pattern: /^([a-z]+\s+[a-z]+)\s+([a-z]+\s+[a-z]+(?:\s+[a-z]+)?)$/i,
+      split: (match: RegExpMatchArray) => [match[1], match[2]]
+    }
+  ]
+  
+  for (const { pattern, split } of compoundPatterns) {
+    const match = baseText.match(pattern)
+    if (match) {
+      const items = split(match)
+      // Validate that both parts are substantial menu items
+      if (items.length === 2 && 
+          items[0].trim().length >= 3 && 
+          items[1].trim().length >= 3 &&
+          /[a-zA-Z]/.test(items[0]) && 
+          /[a-zA-Z]/.test(items[1])) {
+        // Add price to each item if it exists
+        return items.map(item => {
+          const cleanItem = item.trim()
+          return price ? `${cleanItem} ${price}` : cleanItem
+        })
+      }
+    }
+  }
+  
+  return [text] // Return original if no compound pattern matches
+}
+
+export interface LineSplit {
+  parts: Array<{ text: string, bbox?: OcrBoundingBox, wordIndices?: number[] }>
+  reason: string // How the line was split, for the extraction trace
+}
+
+/**
+ * Split a line that contains multiple menu items separated by prices
+ * Returns the {text, bbox} of each menu item and how they were found. Given the line's
+ * words, each item gets the box of its own words and their indices; otherwise the line's bbox.
+ */
+export function splitLineByPrices(lineText: string, bbox?: OcrBoundingBox, words?: OcrWord[]): LineSplit {
+  const { texts, reason } = splitTextByPrices(lineText.trim())
+  const spans = words ? findWordSpans(words, texts) : []
+
+  return {
+    parts: texts.map((text, index) => spans[index] ? { text, ...spans[index] } : { text, bbox }),
+    reason
+  }
+}
+
+function splitTextByPrices(text: string): { texts: string[], reason: string } {
+  const prices = extractAllPrices(text)
+  
+  // If no prices found, return the original line
+  if (prices.length === 0) {
+    return { texts: [text], reason: 'No price on the line' }
+  }
+  
+  // NEW APPROACH: Split by price patterns to get individual menu items
+  // Enhanced pattern to handle multiple menu items on same line
+  // Pattern to match: "Menu Item Name $Price" or "Menu Item Name Price"
+  // FIXED: Made pattern more inclusive to capture full menu item names
+  const menuItemWithPricePattern = /([A-Za-z][A-Za-z\s\-'&]+?)\s*([$€£¥]\s?\d{1,4}(?:[.,]\d{2})?)/g
+  
+  const results: string[] = []
+  let match
+  
+  while ((match = menuItemWithPricePattern.exec(text)) !== null) {
+    const menuItemName = match[1].trim()
+    
+    // Only include if the menu item name is substantial
+    if (menuItemName.length >= 3 && /[a-zA-Z]/.test(menuItemName)) {
+      results.push(menuItemName)
+    }
+  }
+  
+  // If we found menu items, return them
+  if (results.length > 0) {
+    return {
+      texts: results,
+      reason: results.length > 1 ? `Split into ${results.length} items, each followed by its price` : 'One item followed by its price'
+    }
+  }
+
+  // ENHANCED APPROACH: Handle compound menu items without prices
+  // Check for patterns like "Combination Platter Lobster Newburg" or "Tomato Pasta Salmon Rolls"
+  const compoundMenuItems = detectCompoundMenuItems(text)
+  if (compoundMenuItems.length > 1) {
+    return {
+      texts: compoundMenuItems,
+      reason: `Split into ${compoundMenuItems.length} compound menu items`
+    }
+  }
+  
+  // Fallback: try to split by price patterns
+  const pricePattern = /(?<!\w)(?:[$€£¥])\s?\d{1,4}(?:[.,]\d{2})?(?!\w)|(?<!\w)\d{1,3}(?:[.,]\d{2})(?!\w)|(?<!\w)\d{1,4}(?:[.,]\d{2})?\s*$/g
+  const parts = text.split(pricePattern).map(part => part.trim()).filter(part => part.length > 0)
+  
+  // If we only have one part after splitting, return original
+  if (parts.length <= 1) {
+    return { texts: [text], reason: 'Prices did not separate several items' }
+  }
+  
+  // Create separate candidates for each part
+  const fallbackResults: string[] = []
+  
+  for (const part of parts) {
+    // Skip parts that are too short or contain only prices/digits/punctuation
+    if (part.length < 2 || /^[\d\s\$€£¥\.\,\-\/]+$/.test(part)) {
+      continue
+    }
+    
+    // Skip parts that are just single characters or very short
+    if (part.trim().length < 3) {
+      continue
+    }
+    
+    // Clean up the text more carefully - preserve important characters
+    let cleanText = part
+      // Remove only leading/trailing punctuation (not hyphens, apostrophes, ampersands)
+      .replace(/^[^\w\s\-'&]+|[^\w\s\-'&]+$/g, '')
+      // Remove multiple spaces
+      .replace(/\s+/g, ' ')
+      // Remove standalone punctuation (but preserve hyphens in words)
+      .replace(/\s+[^\w\s\-'&]+\s+/g, ' ')
+      .trim()
+    
+    // Additional validation - must contain at least one letter
+    if (cleanText.length >= 2 && /[a-zA-Z]/.test(cleanText)) {
+      // Filter out invalid entree patterns
+      if (isValidEntreeName(cleanText)) {
+        fallbackResults.push(cleanText)
+      }
+    }
+  }
+  
+  if (fallbackResults.length === 0) {
+    return { texts: [text], reason: 'No text between the prices was a valid name, so the line was kept whole' }
+  }
+  return { texts: fallbackResults, reason: `Split around prices into ${fallbackResults.length} part${fallbackResults.length === 1 ? '' : 's'}` }
+}
+
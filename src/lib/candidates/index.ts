@@ -1,5 +1,32 @@
-export { extractCandidates, normalizeCandidateText, validateEntreeName } from './extractCandidates'
+export { extractCandidates, extractCandidatesWithTrace, normalizeCandidateText, validateEntreeName } from './extractCandidates'
 export { detectSectionHeaders, findNearestHeaderAbove, isUnderEntreeHeader } from './headers'
+export { explainLine, findCandidateLine } from './trace'
+export { findWordSpan, findWordSpans, findTextSpan } from './wordSpans'
+export { parsePrices, findCandidatePrices } from './prices'
+export { findCandidateDescription, isDescriptionLine } from './descriptions'
+export {
+  DEFAULT_EXTRACTION_STAGES,
+  DEFAULT_EXTRACTION_PROFILE,
+  registerExtractionStage,
+  getExtractionStage,
+  listExtractionStages,
+  registerExtractionProfile,
+  getExtractionProfile,
+  listExtractionProfiles,
+  resolveExtractionStages,
+  resolveExtractionProfile
+} from './pipeline'
 export * from './regex'
-export type { Candidate, CandidateFeatures } from './extractCandidates'
+export type { Candidate, CandidateFeatures, CandidateExtraction } from './extractCandidates'
 export type { SectionHeader } from './headers'
+export type {
+  ExtractionStage,
+  ExtractionStageKind,
+  ExtractionStageResult,
+  ExtractionItem,
+  ExtractionContext,
+  ExtractionProfile
+} from './pipeline'
+export type { ExtractionOutcome, ExtractionTraceStep, LineTrace, ExtractionTrace } from './trace'
+export type { WordSpan } from './wordSpans'
+export type { CandidatePrice, ParsedPrice } from './prices'
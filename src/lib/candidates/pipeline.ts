@@ -0,0 +1,221 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { OcrLine, OcrWord, OcrBoundingBox } from '../ocr/OcrProvider'
+import { getLineCorrections } from '../ocr/spelling'
+import type { EntreeMatch } from './entreeLookup'
+import type { SectionHeader } from './headers'
+import type { Candidate, CandidateFeatures } from './extractCandidates'
+import type { LineTrace } from './trace'
+import type { CandidatePrice } from './prices'
+import { extractFeatures, getHeaderContext } from './scoring'
+import { BUILT_IN_STAGES } from './stages'
+
+/**
+ * filter: drops items. split: turns an item into several. normalize: rewrites its text.
+ * feature: annotates it for later stages. score: accepts or rejects it as a candidate.
+ */
+export type ExtractionStageKind = 'filter' | 'split' | 'normalize' | 'feature' | 'score'
+
+/**
+ * A line, or part of one, on its way through the stages. Each region line starts as
+ * one item; split stages turn it into several and normalize stages rewrite its text.
+ */
+export interface ExtractionItem {
+  text: string
+  bbox?: OcrBoundingBox
+  wordIndices?: number[] // Indices into the line's words, once a split stage has found the item's own words
+  lineIndex: number // Index into ExtractionContext.lines
+  emphasis?: 'all-caps' | 'visual-hierarchy' // Lines styled like dish names skip the checks meant for regular lines
+  fallback?: ExtractionItem // Runs through the stages after the one that set it if this item is rejected
+  visualHierarchyScore?: number
+  confidenceBoost: number // Added to the confidence when the item is scored
+  split: boolean // Already cut into separate items
+  prices?: CandidatePrice[]
+  description?: string
+  features?: CandidateFeatures
+  databaseMatch?: EntreeMatch
+  confidence?: number
+}
+
+/**
+ * What stages know about the layout region being extracted
+ */
+export interface ExtractionContext {
+  pageNumber: number
+  lines: OcrLine[] // The region's lines in reading order, after any headers scoping it
+  texts: string[] // Their text
+  sectionHeaders: SectionHeader[]
+  pageWordIndices?: Map<OcrWord, number> // Each word's index in its page line; a line straddling columns is cut into region lines holding some of its words
+}
+
+/**
+ * A stage returns nothing to let an item through silently, or says what it did and why
+ */
+export type ExtractionStageResult =
+  | { outcome: 'passed', reason: string }
+  | { outcome: 'rejected', reason: string }
+  | { outcome: 'split', reason: string, items: ExtractionItem[] }
+  | { outcome: 'accepted', reason: string }
+
+export interface ExtractionStage {
+  name: string // Also the stage recorded in the extraction trace
+  kind: ExtractionStageKind
+  description: string
+  run(item: ExtractionItem, context: ExtractionContext): ExtractionStageResult | void | Promise<ExtractionStageResult | void>
+}
+
+/**
+ * Which stages run, in which order, for a kind of menu
+ */
+export interface ExtractionProfile {
+  name: string
+  description?: string
+  stages: string[]
+}
+
+// Stages run in this order unless a profile says otherwise
+export const DEFAULT_EXTRACTION_STAGES: string[] = BUILT_IN_STAGES.map(stage => stage.name)
+
+export const DEFAULT_EXTRACTION_PROFILE: ExtractionProfile = {
+  name: 'default',
+  description: 'Every built-in stage',
+  stages: DEFAULT_EXTRACTION_STAGES
+}
+
+const stageRegistry = new Map<string, ExtractionStage>(BUILT_IN_STAGES.map(stage => [stage.name, stage]))
+const profileRegistry = new Map<string, ExtractionProfile>([[DEFAULT_EXTRACTION_PROFILE.name, DEFAULT_EXTRACTION_PROFILE]])
+
+/**
+ * Make a stage available to profiles. Registering a built-in stage's name replaces it.
+ */
+export function registerExtractionStage(stage: ExtractionStage): void {
+  stageRegistry.set(stage.name, stage)
+}
+
+export function getExtractionStage(name: string): ExtractionStage | undefined {
+  return stageRegistry.get(name)
+}
+
+export function listExtractionStages(): ExtractionStage[] {
+  return [...stageRegistry.values()]
+}
+
+export function registerExtractionProfile(profile: ExtractionProfile): void {
+  resolveExtractionStages(profile.stages)
+  profileRegistry.set(profile.name, profile)
+}
+
+export function getExtractionProfile(name: string): ExtractionProfile | undefined {
+  return profileRegistry.get(name)
+}
+
+export function listExtractionProfiles(): ExtractionProfile[] {
+  return [...profileRegistry.values()]
+}
+
+/**
+ * Look up stages by name, in the order given
+ */
+export function resolveExtractionStages(names: string[] = DEFAULT_EXTRACTION_STAGES): ExtractionStage[] {
+  return names.map(name => {
+    const stage = stageRegistry.get(name)
+    if (!stage) {
+      throw new Error(`Unknown extraction stage "${name}"`)
+    }
+    return stage
+  })
+}
+
+/**
+ * The stages of a profile, given as a profile or a registered profile's name
+ */
+export function resolveExtractionProfile(profile: ExtractionProfile | string = DEFAULT_EXTRACTION_PROFILE): ExtractionStage[] {
+  if (typeof profile !== 'string') {
+    return resolveExtractionStages(profile.stages)
+  }
+
+  const registered = profileRegistry.get(profile)
+  if (!registered) {
+    throw new Error(`Unknown extraction profile "${profile}"`)
+  }
+  return resolveExtractionStages(registered.stages)
+}
+
+/**
+ * Run every line of a region through the stages. Accepted items become candidates.
+ * Each stage's decision is recorded on the line's trace, for lines that have one.
+ */
+export async function runExtractionStages(
+  stages: ExtractionStage[],
+  context: ExtractionContext,
+  lineTraces: Array<LineTrace | undefined>
+): Promise<Candidate[]> {
+  const candidates: Candidate[] = []
+
+  for (let i = 0; i < context.lines.length; i++) {
+    const line = context.lines[i]
+    const lineTrace = lineTraces[i]
+
+    // Each item runs through the rest of the stages before the next one starts
+    const runFrom = async (item: ExtractionItem, first: number): Promise<void> => {
+      let fallback = item.fallback && { item: item.fallback, next: first }
+
+      for (let s = first; s < stages.length; s++) {
+        const stage = stages[s]
+        const result = await stage.run(item, context)
+        // A fallback picks up right after the stage that set it
+        if (item.fallback && item.fallback !== fallback?.item) {
+          fallback = { item: item.fallback, next: s + 1 }
+        }
+        if (!result) continue
+
+        const reason = result.outcome === 'rejected' && fallback ? `${result.reason}; trying its fallback` : result.reason
+        lineTrace?.steps.push({ stage: stage.name, outcome: result.outcome, reason, text: item.text, score: item.confidence })
+
+        if (result.outcome === 'split') {
+          // The parts are dishes of their own; none falls back to the whole line
+          for (const part of result.items) {
+            await runFrom({ ...part, fallback: undefined }, s + 1)
+          }
+          return
+        }
+        if (result.outcome === 'accepted') {
+          const candidate = createCandidate(item, context)
+          candidates.push(candidate)
+          lineTrace?.candidateIds.push(candidate.id)
+          return
+        }
+        if (result.outcome === 'rejected') {
+          if (fallback) await runFrom(fallback.item, fallback.next)
+          return
+        }
+      }
+
+      // Only happens when a profile leaves out the scoring stage
+      lineTrace?.steps.push({ stage: 'pipeline', outcome: 'rejected', reason: 'No stage accepted it', text: item.text })
+    }
+
+    await runFrom({ text: line.text.trim(), bbox: line.bbox, lineIndex: i, confidenceBoost: 0, split: false }, 0)
+  }
+
+  return candidates
+}
+
+function createCandidate(item: ExtractionItem, context: ExtractionContext): Candidate {
+  const line = context.lines[item.lineIndex]
+
+  return {
+    id: uuidv4(),
+    page: context.pageNumber,
+    text: item.text,
+    bbox: item.bbox,
+    wordIndices: item.wordIndices?.map(index => context.pageWordIndices?.get(line.words[index]) ?? index),
+    headerContext: getHeaderContext(item.lineIndex, context.sectionHeaders),
+    priceContext: item.prices?.map(price => price.raw) ?? [],
+    prices: item.prices ?? [],
+    description: item.description,
+    features: item.features ?? extractFeatures(item.text, context.texts, item.lineIndex, context.sectionHeaders, context.lines),
+    confidence: item.confidence ?? 0,
+    databaseMatch: item.databaseMatch,
+    spellingCorrections: getLineCorrections(line, item.text)
+  }
+}
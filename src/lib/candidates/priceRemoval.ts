@@ -24,6 +24,10 @@ export const COMPREHENSIVE_PRICE_PATTERNS = [
   /\bmarket\s+price\b/gi
 ]
 
+// A bare whole number ending a text: a price printed without a currency, or part of a name
+// such as "Chicken 65"; only the layout tells which
+export const TRAILING_NUMBER_PATTERN = /(?<![\w.,$€£¥])(\d{1,3})\s*$/
+
 /**
  * Remove all price patterns from text
  */
@@ -70,6 +74,14 @@ export function removeAllPrices(text: string): string {
   return cleanedText
 }
 
+/**
+ * The text without a bare number ending it. Extraction only leaves one in a name when it isn't
+ * printed as a price, so checks for leftover prices look at the rest of the name.
+ */
+export function removeTrailingNumber(text: string): string {
+  return text.replace(TRAILING_NUMBER_PATTERN, '').trim()
+}
+
 /**
  * Check if text contains any price patterns
  */
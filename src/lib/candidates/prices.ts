@@ -0,0 +1,199 @@
+import type { OcrLine, OcrWord, OcrBoundingBox } from '../ocr/OcrProvider'
+import { removeAllPrices, TRAILING_NUMBER_PATTERN } from './priceRemoval'
+import { isDescriptionLine } from './descriptions'
+import { findTextSpan } from './wordSpans'
+
+/**
+ * A price printed for a dish, parsed into an amount and currency
+ */
+export interface CandidatePrice {
+  amount: number | null // null for "market price"
+  currency: string | null // ISO 4217 code from the symbol or word printed with it; null for a bare number
+  raw: string // As printed, e.g. "€12,50"
+  source: 'same-line' | 'next-line' // Printed after the dish name, or on a line below it
+  line: string // Text of the line the price was read from
+  bbox?: OcrBoundingBox // Box of the price's words on that line
+}
+
+export interface ParsedPrice {
+  amount: number | null
+  currency: string | null
+  raw: string
+  index: number // Where the price starts in the text
+}
+
+const CURRENCY_CODES: Record<string, string> = {
+  '$': 'USD', 'dollar': 'USD', 'dollars': 'USD', 'usd': 'USD',
+  '€': 'EUR', 'euro': 'EUR', 'euros': 'EUR', 'eur': 'EUR',
+  '£': 'GBP', 'pound': 'GBP', 'pounds': 'GBP', 'gbp': 'GBP',
+  '¥': 'JPY', 'yen': 'JPY'
+}
+
+// "$12.00", "12,50 €", "18 euros", a bare "12.50" or "market price"
+const PRICE_PATTERN = /([$€£¥])\s?(\d{1,4}(?:[.,]\d{1,2})?)(?!\w)|(?<![\w.,])(\d{1,4}(?:[.,]\d{1,2})?)\s?([€$£¥]|euros?|eur|dollars?|usd|pounds?|gbp|yen)(?!\w)|(?<![\w.,$€£¥])(\d{1,3}[.,]\d{2})(?![\w.,])|\b(market\s+price)\b/gi
+
+// How far (in line heights) a bare number must be from the word before it to read as a price column
+const PRICE_COLUMN_GAP = 2
+
+// How far below a dish its price may be printed
+const MAX_PRICE_LINES_BELOW = 3
+
+/**
+ * Every price in a text, in the order printed. A bare whole number ending the text only counts
+ * with `trailingNumber`, for a line whose layout shows it is a price (see `isPriceColumnWord`).
+ */
+export function parsePrices(text: string, trailingNumber: boolean = false): ParsedPrice[] {
+  const prices: ParsedPrice[] = []
+
+  for (const match of text.matchAll(PRICE_PATTERN)) {
+    const [raw, symbol, symbolAmount, suffixAmount, suffix, decimalAmount, marketPrice] = match
+    const amount = symbolAmount ?? suffixAmount ?? decimalAmount
+    const currency = symbol ?? suffix
+
+    prices.push({
+      amount: marketPrice ? null : parseFloat(amount.replace(',', '.')),
+      currency: currency ? CURRENCY_CODES[currency.toLowerCase()] : null,
+      raw: raw.trim(),
+      index: match.index ?? 0
+    })
+  }
+
+  const trailing = trailingNumber ? TRAILING_NUMBER_PATTERN.exec(text) : null
+  if (trailing && !prices.some(price => price.index + price.raw.length > trailing.index)) {
+    prices.push({ amount: parseInt(trailing[1], 10), currency: null, raw: trailing[1], index: trailing.index })
+  }
+
+  return prices
+}
+
+/**
+ * Whether word `wordIndex` of line `lineIndex` is a bare number printed like a price: alone on
+ * its line, set well apart from the word before it, or right-aligned with prices on other lines.
+ */
+export function isPriceColumnWord(lines: OcrLine[], lineIndex: number, wordIndex: number): boolean {
+  const words = lines[lineIndex].words
+  const word = words[wordIndex]
+  if (!word || !/^\d{1,3}$/.test(word.text)) return false
+  if (isSetApart(lines[lineIndex], wordIndex)) return true
+
+  const tolerance = lines[lineIndex].bbox.h / 2
+  const right = word.bbox.x + word.bbox.w
+  return lines.some((other, i) => {
+    const last = other.words[other.words.length - 1]
+    if (i === lineIndex || !last || Math.abs(last.bbox.x + last.bbox.w - right) > tolerance) return false
+    return parsePrices(last.text).length > 0 || (/^\d{1,3}$/.test(last.text) && isSetApart(other, other.words.length - 1))
+  })
+}
+
+/**
+ * Whether word `wordIndex` starts its line or a wide gap separates it from the word before it
+ */
+function isSetApart(line: OcrLine, wordIndex: number): boolean {
+  const previous = line.words[wordIndex - 1]
+  const word = line.words[wordIndex]
+  if (!previous) return true
+  return word.bbox.x - (previous.bbox.x + previous.bbox.w) >= PRICE_COLUMN_GAP * line.bbox.h
+}
+
+/**
+ * The text of an item on line `lineIndex` without its prices. A bare number ending it is kept
+ * unless its word is printed in a price column (see `isPriceColumnWord`), so "Chicken 65" keeps
+ * its name. `fromWord` is the first of the line's words the item may start at.
+ */
+export function removeItemPrices(text: string, lines: OcrLine[], lineIndex: number, fromWord: number = 0): string {
+  const trailing = TRAILING_NUMBER_PATTERN.exec(text)
+  if (!trailing) return removeAllPrices(text)
+
+  const wordIndices = findTextSpan(lines[lineIndex].words, text, fromWord)?.wordIndices
+  if (wordIndices && isPriceColumnWord(lines, lineIndex, wordIndices[wordIndices.length - 1])) {
+    return removeAllPrices(text)
+  }
+  return `${removeAllPrices(text.slice(0, trailing.index))} ${trailing[1]}`.trim()
+}
+
+function endsInPriceColumn(lines: OcrLine[], lineIndex: number): boolean {
+  return isPriceColumnWord(lines, lineIndex, lines[lineIndex].words.length - 1)
+}
+
+/**
+ * Prices of a dish named on line `lineIndex`: those following its name on the same line,
+ * or else the first ones on the price or description lines right below it.
+ * `fromWord` is the first of the line's words after the name. It tells where the name ends,
+ * which searching the line for a cleaned-up name can't; without it the name is searched for.
+ */
+export function findCandidatePrices(
+  name: string,
+  lineIndex: number,
+  lines: OcrLine[],
+  texts: string[],
+  fromWord?: number
+): CandidatePrice[] {
+  const text = texts[lineIndex]
+  const nameEnd = (fromWord !== undefined ? wordOffset(text, lines[lineIndex].words, fromWord) : null) ?? findNameEnd(text, name)
+  const sameLine = pricesFrom(text, nameEnd, endsInPriceColumn(lines, lineIndex))
+  if (sameLine.length > 0) {
+    return sameLine.map(price => toCandidatePrice(price, 'same-line', lines[lineIndex], fromWord))
+  }
+
+  for (let i = lineIndex + 1; i <= lineIndex + MAX_PRICE_LINES_BELOW && i < texts.length; i++) {
+    const text = texts[i].trim()
+    if (!text) continue
+    // Another dish starts here; its prices are its own
+    if (removeAllPrices(text) && !isDescriptionLine(text, i, texts)) break
+
+    const below = pricesFrom(text, 0, endsInPriceColumn(lines, i))
+    if (below.length > 0) {
+      return below.map(price => toCandidatePrice(price, 'next-line', lines[i]))
+    }
+  }
+
+  return []
+}
+
+/**
+ * Where word `wordIndex` starts in the line's text; the end of the last word when the index
+ * is past it. Null when the words can't be found in the text.
+ */
+function wordOffset(text: string, words: OcrWord[], wordIndex: number): number | null {
+  let offset = 0
+  for (const [i, word] of words.entries()) {
+    const position = text.indexOf(word.text, offset)
+    if (position === -1) return null
+    if (i === wordIndex) return position
+    offset = position + word.text.length
+  }
+  return offset
+}
+
+function findNameEnd(text: string, name: string): number {
+  const position = text.indexOf(name)
+  return position === -1 ? 0 : position + name.length
+}
+
+/**
+ * The first price at or after `start`, with any printed right next to it ("$12 / $18")
+ */
+function pricesFrom(text: string, start: number, trailingNumber: boolean): ParsedPrice[] {
+  const prices = parsePrices(text, trailingNumber).filter(price => price.index >= start)
+  if (prices.length === 0) return []
+
+  const group = [prices[0]]
+  for (const price of prices.slice(1)) {
+    const previous = group[group.length - 1]
+    const gap = text.slice(previous.index + previous.raw.length, price.index)
+    if (!/^[\s\/|,\-–]*$/.test(gap)) break
+    group.push(price)
+  }
+  return group
+}
+
+function toCandidatePrice(price: ParsedPrice, source: CandidatePrice['source'], line: OcrLine, fromWord: number = 0): CandidatePrice {
+  return {
+    amount: price.amount,
+    currency: price.currency,
+    raw: price.raw,
+    source,
+    line: line.text.trim(),
+    bbox: findTextSpan(line.words, price.raw, fromWord)?.bbox
+  }
+}
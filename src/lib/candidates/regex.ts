@@ -33,7 +33,13 @@ export const SECTION_HEADERS = [
   'secondi', 'piatti principali', 'specialità', 'specialita', 'alla griglia',
   
   // Spanish
-  'platos principales', 'platos', 'especialidades', 'a la carta'
+  'platos principales', 'platos', 'especialidades', 'a la carta',
+  
+  // German
+  'hauptgerichte', 'hauptspeisen', 'spezialitäten', 'vom grill',
+  
+  // Portuguese
+  'pratos principais', 'pratos', 'especialidades da casa', 'na brasa'
 ]
 
 // Blacklisted terms that should not be considered entree names
@@ -104,29 +110,24 @@ export function isSectionHeader(text: string): boolean {
 }
 
 /**
- * Check if text contains blacklisted terms
+ * Find the blacklisted term a text contains, if any
  */
-export function containsBlacklistedTerms(text: string): boolean {
+export function findBlacklistedTerm(text: string): string | undefined {
   const normalizedText = text.toLowerCase().trim()
   
   // Use word boundary matching to avoid false positives like "tea" in "Won Tons"
-  const matchingTerm = BLACKLISTED_TERMS.find(term => {
+  return BLACKLISTED_TERMS.find(term => {
     // Create word boundary regex for the term
     const wordBoundaryRegex = new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i')
     return wordBoundaryRegex.test(normalizedText)
   })
-  
-  // Debug logging for blacklist matching
-  if (matchingTerm && (normalizedText.includes('goat cheese') || normalizedText.includes('new york steak') || 
-      normalizedText.includes('cheese and beef crepes') || normalizedText.includes('cheese crepe'))) {
-    console.log('=== BLACKLIST MATCH DEBUG ===')
-    console.log('Text:', text)
-    console.log('Normalized text:', normalizedText)
-    console.log('Matching blacklisted term:', matchingTerm)
-    console.log('=== END BLACKLIST MATCH DEBUG ===')
-  }
-  
-  return !!matchingTerm
+}
+
+/**
+ * Check if text contains blacklisted terms
+ */
+export function containsBlacklistedTerms(text: string): boolean {
+  return findBlacklistedTerm(text) !== undefined
 }
 
 /**
@@ -0,0 +1,272 @@
+import type { OcrLine } from '../ocr/OcrProvider'
+import {
+  countMeaningfulWords,
+  calculatePunctuationDensity,
+  isAllCaps,
+  isTitleCase,
+  calculateLetterRatio,
+  calculateUppercaseRatio,
+  startsWithArticle,
+  endsWithStopWord,
+  calculateAverageTokenLength
+} from './regex'
+import { isUnderEntreeHeader } from './headers'
+import { containsAnyPrice } from './priceRemoval'
+import { calculateFontSizeRatio } from './heuristics'
+import type { EntreeMatch } from './entreeLookup'
+import type { CandidateFeatures } from './extractCandidates'
+import { loadLatestTrainedModel } from '../ml/training'
+
+/**
+ * Extract features for a candidate line
+ */
+export function extractFeatures(
+  text: string, 
+  allLines: string[], 
+  lineIndex: number, 
+  sectionHeaders: any[],
+  ocrLines?: OcrLine[] // Add OCR lines for font size calculation
+): CandidateFeatures {
+  const tokenCount = countMeaningfulWords(text)
+  const hasDigits = /\d/.test(text)
+  const hasCurrency = containsAnyPrice(text)
+  const isAllCapsText = isAllCaps(text)
+  const isTitleCaseText = isTitleCase(text)
+  const priceSameLine = hasCurrency
+  const priceNextLines1to3 = checkPriceInNextLines(allLines, lineIndex, 3)
+  const underEntreeHeader = isUnderEntreeHeader(lineIndex, sectionHeaders)
+  const punctDensity = calculatePunctuationDensity(text)
+  const nextLineDescription = checkNextLineDescription(allLines, lineIndex)
+  const prevLineHeader = checkPrevLineHeader(allLines, lineIndex, sectionHeaders)
+  const uppercaseRatio = calculateUppercaseRatio(text)
+  const lettersRatio = calculateLetterRatio(text)
+  const avgTokenLen = calculateAverageTokenLength(text)
+  const startsWithArticleText = startsWithArticle(text)
+  const endsWithStop = endsWithStopWord(text)
+  
+  // Calculate font size ratio if OCR lines are available
+  const fontSizeRatio = ocrLines && ocrLines[lineIndex] ? 
+    calculateFontSizeRatio(ocrLines[lineIndex], ocrLines) : 1.0
+
+  return {
+    tokenCount,
+    hasDigits: hasDigits ? 1 : 0,
+    hasCurrency: hasCurrency ? 1 : 0,
+    isAllCaps: isAllCapsText ? 1 : 0,
+    isTitleCase: isTitleCaseText ? 1 : 0,
+    priceSameLine: priceSameLine ? 1 : 0,
+    priceNextLines1to3: priceNextLines1to3 ? 1 : 0,
+    underEntreeHeader: underEntreeHeader ? 1 : 0,
+    punctDensity,
+    nextLineDescription: nextLineDescription ? 1 : 0,
+    prevLineHeader: prevLineHeader ? 1 : 0,
+    uppercaseRatio,
+    lettersRatio,
+    avgTokenLen,
+    startsWithArticle: startsWithArticleText ? 1 : 0,
+    endsWithStop: endsWithStop ? 1 : 0,
+    fontSizeRatio,
+    confidence: 0 // Will be calculated separately
+  }
+}
+
+/**
+ * Calculate confidence score based on features and database match
+ */
+export function calculateConfidenceScore(features: CandidateFeatures, databaseMatch?: EntreeMatch): number {
+  let score = 0.1 // Base score for any potential entree name
+
+  // DATABASE MATCH - Most important factor
+  if (databaseMatch) {
+    score += databaseMatch.confidence_boost
+  }
+
+  // Try to use trained model weights if available
+  const trainedWeights = getTrainedModelWeights()
+  if (trainedWeights) {
+    console.log('✅ Using trained model weights for confidence calculation')
+    return calculateTrainedConfidenceScore(features, trainedWeights, databaseMatch)
+  } else {
+    console.log('⚠️ No trained model weights available, using heuristic scoring')
+  }
+
+  // Token count (2-6 tokens strongly positive)
+  if (features.tokenCount >= 2 && features.tokenCount <= 6) {
+    score += 0.3
+  } else if (features.tokenCount === 1 || features.tokenCount > 8) {
+    score -= 0.2
+  }
+
+  // Price proximity (reduced weight to be less restrictive)
+  if (features.priceSameLine) {
+    score += 0.2 // Reduced from 0.3 to 0.2
+  }
+  if (features.priceNextLines1to3) {
+    score += 0.15 // Reduced from 0.2 to 0.15
+  }
+
+  // Section header context (strong positive)
+  if (features.underEntreeHeader) {
+    score += 0.25
+  }
+
+  // Typography hints (significantly enhanced weights)
+  if (features.isTitleCase) {
+    score += 0.2 // Increased from 0.15
+  }
+  if (features.isAllCaps) {
+    score += 0.35 // Significantly increased from 0.25 for ALL CAPS
+  }
+  
+  // Font size hints (significantly enhanced weights for visual hierarchy)
+  if (features.fontSizeRatio > 1.5) {
+    score += 0.35 // Very large font - strongest indicator
+  } else if (features.fontSizeRatio > 1.3) {
+    score += 0.3 // Significantly larger font - very strong indicator
+  } else if (features.fontSizeRatio > 1.1) {
+    score += 0.2 // Moderately larger font - strong indicator
+  } else if (features.fontSizeRatio > 1.0) {
+    score += 0.15 // Slightly larger font
+  } else if (features.fontSizeRatio < 0.8) {
+    score -= 0.15 // Smaller font (likely description)
+  }
+
+  // Negative signals (enhanced penalties)
+  if (features.hasDigits) {
+    score -= 0.3
+  }
+  if (features.hasCurrency) {
+    score -= 0.2
+  }
+  if (features.punctDensity > 0.1) {
+    score -= 0.15
+  }
+
+  // Description proximity (positive)
+  if (features.nextLineDescription) {
+    score += 0.1
+  }
+
+  // Character quality
+  if (features.lettersRatio < 0.7) {
+    score -= 0.2
+  }
+
+  // Normalize to 0-1 range
+  return Math.max(0, Math.min(1, score))
+}
+
+/**
+ * Check if there are prices in the next N lines
+ */
+function checkPriceInNextLines(allLines: string[], lineIndex: number, maxLines: number): boolean {
+  for (let i = 1; i <= maxLines && lineIndex + i < allLines.length; i++) {
+    const nextLine = allLines[lineIndex + i].trim()
+    if (nextLine && containsAnyPrice(nextLine)) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Check if the next line looks like a description
+ */
+function checkNextLineDescription(allLines: string[], lineIndex: number): boolean {
+  if (lineIndex + 1 >= allLines.length) return false
+  
+  const nextLine = allLines[lineIndex + 1].trim()
+  if (!nextLine) return false
+
+  // Description indicators: shorter line with punctuation and ingredients
+  const hasPunctuation = /[,;:]/.test(nextLine)
+  const isShorter = nextLine.length < allLines[lineIndex].length * 0.8
+  const hasIngredients = /\b(and|with|served|topped|garnished|fresh|local|organic)\b/i.test(nextLine)
+
+  return hasPunctuation && isShorter && hasIngredients
+}
+
+/**
+ * Check if the previous line is a header
+ */
+function checkPrevLineHeader(_allLines: string[], lineIndex: number, sectionHeaders: any[]): boolean {
+  if (lineIndex === 0) return false
+  
+  return sectionHeaders.some(header => header.lineIndex === lineIndex - 1)
+}
+
+/**
+ * Get header context for a line
+ */
+export function getHeaderContext(lineIndex: number, sectionHeaders: any[]): string | undefined {
+  for (const header of sectionHeaders) {
+    if (header.lineIndex < lineIndex && lineIndex - header.lineIndex <= 10) {
+      return header.text
+    }
+  }
+  return undefined
+}
+
+// Cache for trained model weights
+let trainedWeightsCache: Record<string, number> | null = null
+let weightsCacheTimestamp: number = 0
+const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
+
+/**
+ * Get trained model weights (with caching)
+ */
+function getTrainedModelWeights(): Record<string, number> | null {
+  const now = Date.now()
+  
+  // Return cached weights if still valid
+  if (trainedWeightsCache && (now - weightsCacheTimestamp) < CACHE_DURATION) {
+    console.log('📦 Using cached trained model weights')
+    return trainedWeightsCache
+  }
+  
+  console.log('🔍 Attempting to load trained model weights...')
+  
+  // Load weights asynchronously (don't block the main thread)
+  loadLatestTrainedModel().then(weights => {
+    if (weights) {
+      trainedWeightsCache = weights
+      weightsCacheTimestamp = now
+      console.log('✅ Loaded trained model weights into cache')
+    } else {
+      console.log('❌ No trained model weights found in database')
+    }
+  }).catch(error => {
+    console.warn('❌ Failed to load trained model weights:', error)
+  })
+  
+  // Return cached weights if available, otherwise null
+  return trainedWeightsCache
+}
+
+/**
+ * Calculate confidence score using trained model weights
+ */
+function calculateTrainedConfidenceScore(
+  features: CandidateFeatures, 
+  weights: Record<string, number>, 
+  databaseMatch?: EntreeMatch
+): number {
+  let score = 0.1 // Base score
+  
+  // Apply database match boost
+  if (databaseMatch) {
+    score += databaseMatch.confidence_boost
+  }
+  
+  // Apply trained feature weights
+  Object.entries(weights).forEach(([key, weight]) => {
+    const featureValue = features[key as keyof CandidateFeatures] || 0
+    score += featureValue * weight
+  })
+  
+  // Normalize to 0-1 range using sigmoid
+  const normalizedScore = 1 / (1 + Math.exp(-score))
+  
+  // Ensure score is within reasonable bounds
+  return Math.max(0, Math.min(1, normalizedScore))
+}
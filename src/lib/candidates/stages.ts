@@ -0,0 +1,223 @@
+import { findBlacklistedTerm, isSectionHeader } from './regex'
+import { findEntreeMatch } from './entreeLookup'
+import {
+  calculateVisualHierarchyScore,
+  isAllCapsText,
+  getEntreeNameProblem,
+  getDescriptionReason,
+  getRestaurantNameReason,
+  getRestaurantNameOrHeaderRejection,
+  splitLineByPrices
+} from './heuristics'
+import { extractFeatures, calculateConfidenceScore } from './scoring'
+import { splitAtWordGaps } from './wordSpans'
+import { findCandidatePrices, removeItemPrices } from './prices'
+import { findCandidateDescription } from './descriptions'
+import type { ExtractionStage, ExtractionItem } from './pipeline'
+
+// Blank space between two words, in line heights, wide enough to separate two dishes printed side by side
+const COMPOUND_GAP = 2
+
+// Emphasized lines need a higher score; their boost already counts for a lot
+const ACCEPT_THRESHOLD = 0.03
+const EMPHASIZED_ACCEPT_THRESHOLD = 0.1
+
+/**
+ * The stages of the default profile, in the order they run
+ */
+export const BUILT_IN_STAGES: ExtractionStage[] = [
+  {
+    name: 'min-length',
+    kind: 'filter',
+    description: 'Drops lines shorter than 2 characters',
+    run: item => {
+      if (item.text.length < 2) return { outcome: 'rejected', reason: 'Shorter than 2 characters' }
+    }
+  },
+  {
+    name: 'blacklist',
+    kind: 'filter',
+    description: 'Drops allergen notes, "daily special" and other terms that are never dishes',
+    run: item => {
+      const term = findBlacklistedTerm(item.text)
+      if (term) return { outcome: 'rejected', reason: `Contains the non-dish term "${term}"` }
+    }
+  },
+  {
+    name: 'section-header',
+    kind: 'filter',
+    description: 'Drops section headers such as "Entrees" or "MAIN COURSES"',
+    run: item => {
+      if (isSectionHeader(item.text)) return { outcome: 'rejected', reason: 'Section header' }
+    }
+  },
+  {
+    name: 'restaurant-name',
+    kind: 'filter',
+    description: "Drops the restaurant's name",
+    run: (item, context) => {
+      const reason = getRestaurantNameReason(item.text, item.lineIndex, context.sectionHeaders, context.texts)
+      if (reason) return { outcome: 'rejected', reason }
+    }
+  },
+  {
+    name: 'description',
+    kind: 'filter',
+    description: 'Drops ingredient lists and other description text under a dish',
+    run: (item, context) => {
+      const reason = getDescriptionReason(item.text, item.lineIndex, context.texts)
+      if (reason) return { outcome: 'rejected', reason }
+    }
+  },
+  {
+    name: 'emphasis',
+    kind: 'feature',
+    description: 'Marks ALL CAPS and large or bold lines, which are usually dish names, and boosts their confidence; a marked line that is rejected gets the regular checks',
+    run: (item, context) => {
+      const score = calculateVisualHierarchyScore(context.lines[item.lineIndex], context.lines)
+      item.visualHierarchyScore = score
+
+      const regular = { ...item }
+      const prominent: ExtractionItem = { ...item, emphasis: 'visual-hierarchy', confidenceBoost: score * 0.4, fallback: regular }
+
+      if (isAllCapsText(item.text)) {
+        item.emphasis = 'all-caps'
+        item.confidenceBoost = 0.4 + score * 0.3
+        item.fallback = score > 0.5 ? prominent : regular
+        return { outcome: 'passed', reason: `ALL CAPS line, confidence boosted by ${item.confidenceBoost.toFixed(2)}` }
+      }
+      if (score > 0.5) {
+        Object.assign(item, prominent)
+        return { outcome: 'passed', reason: `Prominent line (visual hierarchy ${score.toFixed(2)}), confidence boosted by ${item.confidenceBoost.toFixed(2)}` }
+      }
+    }
+  },
+  {
+    name: 'compound-split',
+    kind: 'split',
+    description: 'Splits two dishes printed side by side on one line, at a wide gap between their words',
+    run: (item, context) => {
+      if (item.split) return
+
+      const line = context.lines[item.lineIndex]
+      const parts = splitAtWordGaps(line.words, item.wordIndices ?? line.words.map((_, index) => index), COMPOUND_GAP * line.bbox.h)
+      if (parts.length > 1) {
+        return {
+          outcome: 'split',
+          reason: `Split into ${parts.length} dishes at wide gaps between words`,
+          items: parts.map(part => ({ ...item, ...part, split: true }))
+        }
+      }
+    }
+  },
+  {
+    name: 'price-split',
+    kind: 'split',
+    description: 'Splits a regular line holding several "Dish $12" items',
+    run: (item, context) => {
+      if (item.split || item.emphasis) return
+
+      const { parts, reason } = splitLineByPrices(item.text, item.bbox, context.lines[item.lineIndex].words)
+      if (parts.length > 1) {
+        return { outcome: 'split', reason, items: parts.map(part => ({ ...item, ...part, split: true })) }
+      }
+
+      Object.assign(item, parts[0])
+      return { outcome: 'passed', reason }
+    }
+  },
+  {
+    name: 'price-removal',
+    kind: 'normalize',
+    description: 'Strips prices, dropping items with nothing else left',
+    run: (item, context) => {
+      const text = removeItemPrices(item.text, context.lines, item.lineIndex, item.wordIndices?.[0])
+      const minLength = item.emphasis ? 3 : 2
+
+      if (text.length < minLength) {
+        return { outcome: 'rejected', reason: `Shorter than ${minLength} characters once prices are removed` }
+      }
+      if (/^[\d\s\$€£¥\.\,\-\/]+$/.test(text)) {
+        return { outcome: 'rejected', reason: 'Only prices and digits' }
+      }
+      item.text = text
+    }
+  },
+  {
+    name: 'part-context',
+    kind: 'filter',
+    description: 'Checks the price-free parts of regular lines again for headers, restaurant names and descriptions',
+    run: (item, context) => {
+      if (item.emphasis) return
+
+      const rejection = getRestaurantNameOrHeaderRejection(item.text, item.lineIndex, context.sectionHeaders, context.texts)
+      if (rejection) return { outcome: 'rejected', reason: rejection.reason }
+    }
+  },
+  {
+    name: 'name-validation',
+    kind: 'filter',
+    description: 'Drops fragments, single words and text punctuated like a description',
+    run: item => {
+      const problem = getEntreeNameProblem(item.text)
+      if (problem) return { outcome: 'rejected', reason: problem }
+    }
+  },
+  {
+    name: 'prices',
+    kind: 'feature',
+    description: 'Keeps the prices printed after the name, or on the lines below it',
+    run: (item, context) => {
+      const fromWord = item.wordIndices ? item.wordIndices[item.wordIndices.length - 1] + 1 : undefined
+      item.prices = findCandidatePrices(item.text, item.lineIndex, context.lines, context.texts, fromWord)
+      if (item.prices.length === 0) return
+
+      const where = item.prices[0].source === 'same-line' ? 'on the same line' : 'below the name'
+      return { outcome: 'passed', reason: `Priced ${item.prices.map(price => price.raw).join(' / ')} ${where}` }
+    }
+  },
+  {
+    name: 'dish-description',
+    kind: 'feature',
+    description: 'Keeps the description printed under the dish, across wrapped lines',
+    run: (item, context) => {
+      // Several dishes on one line can't tell whose description is below
+      if (item.split) return
+
+      item.description = findCandidateDescription(item.lineIndex, context.texts)
+      if (item.description) {
+        return { outcome: 'passed', reason: `Described by the text below: "${item.description}"` }
+      }
+    }
+  },
+  {
+    name: 'features',
+    kind: 'feature',
+    description: 'Computes the candidate features and looks the text up in the menu database',
+    run: async (item, context) => {
+      item.features = extractFeatures(item.text, context.texts, item.lineIndex, context.sectionHeaders, context.lines)
+      item.databaseMatch = await findEntreeMatch(item.text) ?? undefined
+
+      if (item.databaseMatch) {
+        return { outcome: 'passed', reason: `Matches "${item.databaseMatch.name}" in the menu database` }
+      }
+    }
+  },
+  {
+    name: 'scoring',
+    kind: 'score',
+    description: 'Scores the item from its features and accepts it above the confidence threshold',
+    run: (item, context) => {
+      const features = item.features ?? extractFeatures(item.text, context.texts, item.lineIndex, context.sectionHeaders, context.lines)
+      const confidence = Math.min(1.0, calculateConfidenceScore(features, item.databaseMatch) + item.confidenceBoost)
+      const threshold = item.emphasis ? EMPHASIZED_ACCEPT_THRESHOLD : ACCEPT_THRESHOLD
+      item.features = features
+      item.confidence = confidence
+
+      if (confidence > threshold) {
+        return { outcome: 'accepted', reason: `Confidence ${confidence.toFixed(2)}` }
+      }
+      return { outcome: 'rejected', reason: `Confidence ${confidence.toFixed(2)} is not above ${threshold}` }
+    }
+  }
+]
@@ -0,0 +1,55 @@
+import type { OcrBoundingBox } from '../ocr/OcrProvider'
+
+/**
+ * passed: the stage let the line through to the next one.
+ * split: the line was cut into parts; later steps carry the part's text.
+ */
+export type ExtractionOutcome = 'passed' | 'rejected' | 'split' | 'accepted'
+
+export interface ExtractionTraceStep {
+  stage: string // A pipeline stage's name, or "input", "pipeline" or "top-n" for decisions made around the stages
+  outcome: ExtractionOutcome
+  reason: string
+  text?: string // The part of the line this step was about, when the line was split or cleaned
+  score?: number
+}
+
+export interface LineTrace {
+  lineIndex: number // Index into the page's OCR lines
+  text: string
+  bbox?: OcrBoundingBox
+  decision: 'accepted' | 'rejected'
+  candidateIds: string[] // Candidates this line produced
+  steps: ExtractionTraceStep[]
+}
+
+/**
+ * What candidate extraction did with every OCR line of a page, and why
+ */
+export interface ExtractionTrace {
+  page: number
+  lines: LineTrace[]
+}
+
+/**
+ * One sentence answering "why was this line accepted or rejected?"
+ */
+export function explainLine(line: LineTrace): string {
+  const outcome = line.decision === 'accepted' ? 'accepted' : 'rejected'
+  const decisive = line.steps.filter(step => step.outcome === outcome)
+
+  if (decisive.length === 0) {
+    return line.decision === 'accepted' ? 'Accepted' : 'Not examined'
+  }
+
+  return decisive
+    .map(step => step.text && step.text !== line.text ? `"${step.text}": ${step.reason}` : step.reason)
+    .join('; ')
+}
+
+/**
+ * The trace of the line a candidate came from
+ */
+export function findCandidateLine(trace: ExtractionTrace, candidateId: string): LineTrace | undefined {
+  return trace.lines.find(line => line.candidateIds.includes(candidateId))
+}
@@ -0,0 +1,91 @@
+import type { OcrWord, OcrBoundingBox } from '../ocr/OcrProvider'
+import { unionBoundingBoxes } from '../ocr/geometry'
+import { removeAllPrices } from './priceRemoval'
+
+/**
+ * The OCR words a piece of a line was read from
+ */
+export interface WordSpan {
+  wordIndices: number[] // Indices into the line's words
+  bbox: OcrBoundingBox // Tight box around those words
+}
+
+// Letters and digits only, so OCR punctuation and spacing don't break the match
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+
+/**
+ * Find the words a part of a line came from, starting at word `fromWord`.
+ * Prices in the part are ignored, so "Combination Platter $40.00" maps to its two name words.
+ */
+export function findWordSpan(words: OcrWord[], text: string, fromWord: number = 0): WordSpan | undefined {
+  return findTextSpan(words, removeAllPrices(text), fromWord)
+}
+
+/**
+ * Find the words holding a text, prices included, starting at word `fromWord`.
+ * The text must start and end on word boundaries, so "ham" is never found inside "graham".
+ */
+export function findTextSpan(words: OcrWord[], text: string, fromWord: number = 0): WordSpan | undefined {
+  const target = normalize(text)
+  if (!target) return undefined
+
+  const ranges: Array<{ start: number, end: number }> = []
+  let joined = ''
+  for (const word of words) {
+    const start = joined.length
+    joined += normalize(word.text)
+    ranges.push({ start, end: joined.length })
+  }
+
+  const starts = new Set(ranges.map(range => range.start))
+  const ends = new Set(ranges.map(range => range.end))
+
+  let start = joined.indexOf(target, fromWord < ranges.length ? ranges[fromWord].start : joined.length)
+  while (start !== -1 && !(starts.has(start) && ends.has(start + target.length))) {
+    start = joined.indexOf(target, start + 1)
+  }
+  if (start === -1) return undefined
+  const end = start + target.length
+
+  const wordIndices = ranges
+    .map((range, index) => ({ ...range, index }))
+    .filter(range => range.end > range.start && range.start < end && range.end > start)
+    .map(range => range.index)
+
+  return { wordIndices, bbox: unionBoundingBoxes(wordIndices.map(index => words[index].bbox)) }
+}
+
+/**
+ * Cut words `wordIndices` of a line wherever the blank space before a word that starts with a
+ * letter is at least `minGap` wide, as between two dishes printed side by side. A gap before a
+ * price doesn't cut. The text of each part is its words joined by spaces.
+ */
+export function splitAtWordGaps(words: OcrWord[], wordIndices: number[], minGap: number): Array<WordSpan & { text: string }> {
+  const runs: number[][] = []
+  for (const [i, index] of wordIndices.entries()) {
+    const previous = words[wordIndices[i - 1]]
+    const word = words[index]
+    const wide = previous && word.bbox.x - (previous.bbox.x + previous.bbox.w) >= minGap && /^\p{L}/u.test(word.text)
+    if (runs.length === 0 || wide) runs.push([])
+    runs[runs.length - 1].push(index)
+  }
+
+  return runs.map(run => ({
+    text: run.map(index => words[index].text).join(' '),
+    wordIndices: run,
+    bbox: unionBoundingBoxes(run.map(index => words[index].bbox))
+  }))
+}
+
+/**
+ * Find the words of each part a line was split into. Parts are looked for in order,
+ * each after the last one found, so a dish named twice on a line maps to both places.
+ */
+export function findWordSpans(words: OcrWord[], texts: string[]): Array<WordSpan | undefined> {
+  let fromWord = 0
+  return texts.map(text => {
+    const span = findWordSpan(words, text, fromWord)
+    if (span) fromWord = span.wordIndices[span.wordIndices.length - 1] + 1
+    return span
+  })
+}
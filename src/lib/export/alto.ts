@@ -0,0 +1,72 @@
+import type { OcrBoundingBox } from '../ocr/OcrProvider'
+import { getExportBlocks, getExportWords, boxCorners, escapeXml, type OcrExportPage, type OcrExportOptions } from './layout'
+
+/**
+ * Serialize recognized pages as ALTO v4 XML. ALTO has no paragraph level between
+ * blocks and lines, so every OCR paragraph becomes a TextBlock, grouped per OCR block
+ * in a ComposedBlock (the same mapping Tesseract's ALTO renderer uses).
+ */
+export function toAlto(pages: OcrExportPage[], options: OcrExportOptions = {}): string {
+  const out: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">',
+    ' <Description>',
+    '  <MeasurementUnit>pixel</MeasurementUnit>',
+    '  <sourceImageInformation>',
+    `   <fileName>${escapeXml(options.title ?? 'menu')}</fileName>`,
+    '  </sourceImageInformation>',
+    '  <OCRProcessing ID="OCR_0">',
+    '   <ocrProcessingStep>',
+    '    <processingSoftware>',
+    '     <softwareName>mlmp</softwareName>',
+    '    </processingSoftware>',
+    '   </ocrProcessingStep>',
+    '  </OCRProcessing>',
+    ' </Description>',
+    ' <Layout>'
+  ]
+
+  const language = options.languages?.[0]
+  const langAttribute = language ? ` LANG="${escapeXml(language)}"` : ''
+
+  for (const page of pages) {
+    const p = page.pageNumber
+    out.push(`  <Page ID="page_${p}" PHYSICAL_IMG_NR="${p}" WIDTH="${page.width}" HEIGHT="${page.height}">`)
+    out.push(`   <PrintSpace HPOS="0" VPOS="0" WIDTH="${page.width}" HEIGHT="${page.height}">`)
+
+    getExportBlocks(page.result).forEach((block, b) => {
+      out.push(`    <ComposedBlock ID="cblock_${p}_${b + 1}" ${position(block.bbox)}>`)
+
+      block.paragraphs.forEach((paragraph, pa) => {
+        const blockId = `${p}_${b + 1}_${pa + 1}`
+        out.push(`     <TextBlock ID="block_${blockId}" ${position(paragraph.bbox)}${langAttribute}>`)
+
+        paragraph.lines.forEach((line, l) => {
+          const lineId = `${blockId}_${l + 1}`
+          out.push(`      <TextLine ID="line_${lineId}" ${position(line.bbox)}>`)
+
+          getExportWords(line).forEach((word, w) => {
+            if (w > 0) out.push('       <SP/>')
+            out.push(`       <String ID="string_${lineId}_${w + 1}" ${position(word.bbox)} WC="${word.confidence.toFixed(2)}" CONTENT="${escapeXml(word.text)}"/>`)
+          })
+
+          out.push('      </TextLine>')
+        })
+
+        out.push('     </TextBlock>')
+      })
+
+      out.push('    </ComposedBlock>')
+    })
+
+    out.push('   </PrintSpace>', '  </Page>')
+  }
+
+  out.push(' </Layout>', '</alto>', '')
+  return out.join('\n')
+}
+
+function position(bbox: OcrBoundingBox): string {
+  const [x0, y0, x1, y1] = boxCorners(bbox)
+  return `HPOS="${x0}" VPOS="${y0}" WIDTH="${x1 - x0}" HEIGHT="${y1 - y0}"`
+}
@@ -0,0 +1,74 @@
+import type { OcrLine, OcrBoundingBox } from '../ocr/OcrProvider'
+import { getExportBlocks, getExportWords, boxCorners, escapeXml, type OcrExportPage, type OcrExportOptions } from './layout'
+
+/**
+ * Serialize recognized pages as hOCR 1.2 (XHTML with ocr_page / ocr_carea / ocr_par /
+ * ocr_line / ocrx_word elements), the format Tesseract itself writes.
+ */
+export function toHocr(pages: OcrExportPage[], options: OcrExportOptions = {}): string {
+  const title = options.title ?? 'menu'
+  const language = options.languages?.[0]
+  const out: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+    language
+      ? `<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">`
+      : '<html xmlns="http://www.w3.org/1999/xhtml">',
+    ' <head>',
+    `  <title>${escapeXml(title)}</title>`,
+    '  <meta http-equiv="Content-Type" content="text/html;charset=utf-8"/>',
+    '  <meta name="ocr-system" content="mlmp"/>',
+    '  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word ocrp_wconf"/>',
+    ' </head>',
+    ' <body>'
+  ]
+
+  for (const page of pages) {
+    const p = page.pageNumber
+    out.push(`  <div class="ocr_page" id="page_${p}" title="${escapeXml(`image "${title}"`)}; bbox 0 0 ${page.width} ${page.height}; ppageno ${p - 1}">`)
+
+    getExportBlocks(page.result).forEach((block, b) => {
+      out.push(`   <div class="ocr_carea" id="block_${p}_${b + 1}" title="${bboxTitle(block.bbox)}">`)
+
+      block.paragraphs.forEach((paragraph, pa) => {
+        out.push(`    <p class="ocr_par" id="par_${p}_${b + 1}_${pa + 1}" title="${bboxTitle(paragraph.bbox)}">`)
+
+        paragraph.lines.forEach((line, l) => {
+          const lineId = `${p}_${b + 1}_${pa + 1}_${l + 1}`
+          out.push(`     <span class="ocr_line" id="line_${lineId}" title="${lineTitle(line)}">`)
+          getExportWords(line).forEach((word, w) => {
+            out.push(`      <span class="ocrx_word" id="word_${lineId}_${w + 1}" title="${bboxTitle(word.bbox)}; x_wconf ${Math.round(word.confidence * 100)}">${escapeXml(word.text)}</span>`)
+          })
+          out.push('     </span>')
+        })
+
+        out.push('    </p>')
+      })
+
+      out.push('   </div>')
+    })
+
+    out.push('  </div>')
+  }
+
+  out.push(' </body>', '</html>', '')
+  return out.join('\n')
+}
+
+function bboxTitle(bbox: OcrBoundingBox): string {
+  return `bbox ${boxCorners(bbox).join(' ')}`
+}
+
+/**
+ * hOCR baselines are "slope offset", with the offset measured from the bottom-left corner of the line box
+ */
+function lineTitle(line: OcrLine): string {
+  const title = bboxTitle(line.bbox)
+  const baseline = line.baseline
+  if (!baseline || baseline.x1 === baseline.x0) return title
+
+  const slope = (baseline.y1 - baseline.y0) / (baseline.x1 - baseline.x0)
+  const yAtLineStart = baseline.y0 + slope * (line.bbox.x - baseline.x0)
+  const offset = Math.round(yAtLineStart - (line.bbox.y + line.bbox.h))
+  return `${title}; baseline ${Number(slope.toFixed(3))} ${offset}`
+}
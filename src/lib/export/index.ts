@@ -0,0 +1,30 @@
+import { toHocr } from './hocr'
+import { toAlto } from './alto'
+import type { OcrExportPage, OcrExportOptions } from './layout'
+
+export { toHocr, toAlto }
+export { getExportBlocks, getExportWords, ocrResultFromLines, pagesFromExtractedLines } from './layout'
+export type { OcrExportPage, OcrExportOptions }
+
+export type OcrExportFormat = 'hocr' | 'alto'
+
+export const OCR_EXPORT_FORMATS: Record<OcrExportFormat, { label: string, mimeType: string, extension: string }> = {
+  hocr: { label: 'hOCR', mimeType: 'application/xhtml+xml', extension: 'hocr' },
+  alto: { label: 'ALTO XML', mimeType: 'application/xml', extension: 'alto.xml' }
+}
+
+export function isOcrExportFormat(format: string | null): format is OcrExportFormat {
+  return format === 'hocr' || format === 'alto'
+}
+
+export function exportOcrPages(format: OcrExportFormat, pages: OcrExportPage[], options: OcrExportOptions = {}): string {
+  return format === 'hocr' ? toHocr(pages, options) : toAlto(pages, options)
+}
+
+/**
+ * Download file name for an export, e.g. "lunch-menu.hocr" for "lunch-menu.pdf"
+ */
+export function getExportFileName(sourceFileName: string, format: OcrExportFormat): string {
+  const baseName = sourceFileName.replace(/\.[^.]+$/, '') || 'menu'
+  return `${baseName}.${OCR_EXPORT_FORMATS[format].extension}`
+}
@@ -0,0 +1,164 @@
+import type { OcrResult, OcrLine, OcrWord, OcrBlock, OcrParagraph, OcrBoundingBox } from '../ocr/OcrProvider'
+import { unionBoundingBoxes } from '../ocr/geometry'
+import type { ExtractedLine } from '../supabase'
+
+/**
+ * One recognized page and the size of the image it was recognized on
+ */
+export interface OcrExportPage {
+  pageNumber: number // 1-based
+  width: number
+  height: number
+  result: OcrResult
+}
+
+export interface OcrExportOptions {
+  title?: string // Source file name, written into the document metadata
+  languages?: string[] // Tesseract language codes used for recognition
+}
+
+/**
+ * Block -> paragraph -> line hierarchy of a result. Providers that report no layout
+ * get a single block with one paragraph holding every line.
+ */
+export function getExportBlocks(result: OcrResult): OcrBlock[] {
+  if (result.blocks && result.blocks.length > 0) {
+    return result.blocks
+  }
+  if (result.lines.length === 0) {
+    return []
+  }
+
+  const bbox = unionBoundingBoxes(result.lines.map(line => line.bbox))
+  const paragraph: OcrParagraph = {
+    text: result.lines.map(line => line.text).join('\n'),
+    bbox,
+    lines: result.lines,
+    confidence: result.confidence,
+    blockIndex: 0
+  }
+  return [{ text: paragraph.text, bbox, paragraphs: [paragraph], confidence: result.confidence }]
+}
+
+/**
+ * Words of a line. Lines from providers without word boxes are exported as one word spanning the line.
+ */
+export function getExportWords(line: OcrLine): OcrWord[] {
+  if (line.words.length > 0) return line.words
+  return [{ text: line.text, bbox: line.bbox, confidence: line.confidence }]
+}
+
+/**
+ * Rebuild an OcrResult from stored lines, regrouping them into blocks and paragraphs
+ * by their blockIndex/paragraphIndex. Lines without indices form their own paragraph.
+ */
+export function ocrResultFromLines(lines: OcrLine[]): OcrResult {
+  const blocks: OcrBlock[] = []
+  const paragraphs: OcrParagraph[] = []
+  const blockByIndex = new Map<number, OcrBlock>()
+  const paragraphByIndex = new Map<number, OcrParagraph>()
+
+  for (const line of lines) {
+    let block = line.blockIndex !== undefined ? blockByIndex.get(line.blockIndex) : undefined
+    if (!block) {
+      block = { text: '', bbox: line.bbox, paragraphs: [], confidence: 0 }
+      blocks.push(block)
+      if (line.blockIndex !== undefined) blockByIndex.set(line.blockIndex, block)
+    }
+
+    let paragraph = line.paragraphIndex !== undefined ? paragraphByIndex.get(line.paragraphIndex) : undefined
+    if (!paragraph) {
+      paragraph = { text: '', bbox: line.bbox, lines: [], confidence: 0, blockIndex: blocks.indexOf(block) }
+      block.paragraphs.push(paragraph)
+      paragraphs.push(paragraph)
+      if (line.paragraphIndex !== undefined) paragraphByIndex.set(line.paragraphIndex, paragraph)
+    }
+
+    paragraph.lines.push(line)
+  }
+
+  for (const paragraph of paragraphs) {
+    paragraph.text = paragraph.lines.map(line => line.text).join('\n')
+    paragraph.bbox = unionBoundingBoxes(paragraph.lines.map(line => line.bbox))
+    paragraph.confidence = averageConfidence(paragraph.lines)
+  }
+  for (const block of blocks) {
+    block.text = block.paragraphs.map(paragraph => paragraph.text).join('\n\n')
+    block.bbox = unionBoundingBoxes(block.paragraphs.map(paragraph => paragraph.bbox))
+    block.confidence = averageConfidence(block.paragraphs.flatMap(paragraph => paragraph.lines))
+  }
+
+  return {
+    lines,
+    words: lines.flatMap(line => line.words),
+    blocks,
+    paragraphs,
+    confidence: averageConfidence(lines),
+    processingTime: 0
+  }
+}
+
+/**
+ * Rebuild export pages from rows of mlmp_extracted_lines. The page image size is not
+ * stored, so each page is taken to extend to the furthest line box on it.
+ */
+export function pagesFromExtractedLines(rows: ExtractedLine[]): OcrExportPage[] {
+  const linesByPage = new Map<number, OcrLine[]>()
+
+  for (const row of rows) {
+    if (!row.bbox) continue
+
+    const line: OcrLine = {
+      text: row.text,
+      bbox: row.bbox,
+      words: row.raw?.words ?? [],
+      confidence: row.raw?.confidence ?? 0,
+      baseline: row.raw?.baseline ?? undefined,
+      blockIndex: row.raw?.block_index ?? undefined,
+      paragraphIndex: row.raw?.paragraph_index ?? undefined
+    }
+
+    const pageLines = linesByPage.get(row.page) ?? []
+    pageLines.push(line)
+    linesByPage.set(row.page, pageLines)
+  }
+
+  return [...linesByPage.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([pageNumber, lines]) => {
+      // Lines stored before page sizes were recorded fall back to the extent of the text
+      const row = rows.find(r => r.page === pageNumber && r.page_width && r.page_height)
+      return {
+        pageNumber,
+        width: row?.page_width ?? Math.ceil(Math.max(...lines.map(line => line.bbox.x + line.bbox.w))),
+        height: row?.page_height ?? Math.ceil(Math.max(...lines.map(line => line.bbox.y + line.bbox.h))),
+        result: ocrResultFromLines(lines)
+      }
+    })
+}
+
+function averageConfidence(lines: OcrLine[]): number {
+  if (lines.length === 0) return 0
+  return lines.reduce((sum, line) => sum + line.confidence, 0) / lines.length
+}
+
+/**
+ * Corner coordinates (x0 y0 x1 y1) of a box, rounded to whole pixels
+ */
+export function boxCorners(bbox: OcrBoundingBox): [number, number, number, number] {
+  return [
+    Math.round(bbox.x),
+    Math.round(bbox.y),
+    Math.round(bbox.x + bbox.w),
+    Math.round(bbox.y + bbox.h)
+  ]
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
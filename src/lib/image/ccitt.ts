@@ -0,0 +1,252 @@
+/**
+ * CCITT fax decoding (ITU-T T.4 and T.6) for TIFF compressions 2, 3 and 4.
+ * Rows are returned packed 8 pixels per byte, most significant bit first, with 1 bits
+ * for black runs.
+ */
+
+export interface CcittOptions {
+  width: number
+  height: number
+  encoding: 'mh' | 't4' | 't6' // TIFF compression 2, 3 and 4
+  twoDimensional?: boolean // T.4 with 2D coding (T4Options bit 0)
+}
+
+// [run length, code] pairs. Makeup codes (64 and up) are followed by a terminating code.
+const WHITE_CODES: Array<[number, string]> = [
+  [0, '00110101'], [1, '000111'], [2, '0111'], [3, '1000'], [4, '1011'], [5, '1100'], [6, '1110'], [7, '1111'],
+  [8, '10011'], [9, '10100'], [10, '00111'], [11, '01000'], [12, '001000'], [13, '000011'], [14, '110100'],
+  [15, '110101'], [16, '101010'], [17, '101011'], [18, '0100111'], [19, '0001100'], [20, '0001000'],
+  [21, '0010111'], [22, '0000011'], [23, '0000100'], [24, '0101000'], [25, '0101011'], [26, '0010011'],
+  [27, '0100100'], [28, '0011000'], [29, '00000010'], [30, '00000011'], [31, '00011010'], [32, '00011011'],
+  [33, '00010010'], [34, '00010011'], [35, '00010100'], [36, '00010101'], [37, '00010110'], [38, '00010111'],
+  [39, '00101000'], [40, '00101001'], [41, '00101010'], [42, '00101011'], [43, '00101100'], [44, '00101101'],
+  [45, '00000100'], [46, '00000101'], [47, '00001010'], [48, '00001011'], [49, '01010010'], [50, '01010011'],
+  [51, '01010100'], [52, '01010101'], [53, '00100100'], [54, '00100101'], [55, '01011000'], [56, '01011001'],
+  [57, '01011010'], [58, '01011011'], [59, '01001010'], [60, '01001011'], [61, '00110010'], [62, '00110011'],
+  [63, '00110100'],
+  [64, '11011'], [128, '10010'], [192, '010111'], [256, '0110111'], [320, '00110110'], [384, '00110111'],
+  [448, '01100100'], [512, '01100101'], [576, '01101000'], [640, '01100111'], [704, '011001100'],
+  [768, '011001101'], [832, '011010010'], [896, '011010011'], [960, '011010100'], [1024, '011010101'],
+  [1088, '011010110'], [1152, '011010111'], [1216, '011011000'], [1280, '011011001'], [1344, '011011010'],
+  [1408, '011011011'], [1472, '010011000'], [1536, '010011001'], [1600, '010011010'], [1664, '011000'],
+  [1728, '010011011']
+]
+
+const BLACK_CODES: Array<[number, string]> = [
+  [0, '0000110111'], [1, '010'], [2, '11'], [3, '10'], [4, '011'], [5, '0011'], [6, '0010'], [7, '00011'],
+  [8, '000101'], [9, '000100'], [10, '0000100'], [11, '0000101'], [12, '0000111'], [13, '00000100'],
+  [14, '00000111'], [15, '000011000'], [16, '0000010111'], [17, '0000011000'], [18, '0000001000'],
+  [19, '00001100111'], [20, '00001101000'], [21, '00001101100'], [22, '00000110111'], [23, '00000101000'],
+  [24, '00000010111'], [25, '00000011000'], [26, '000011001010'], [27, '000011001011'], [28, '000011001100'],
+  [29, '000011001101'], [30, '000001101000'], [31, '000001101001'], [32, '000001101010'], [33, '000001101011'],
+  [34, '000011010010'], [35, '000011010011'], [36, '000011010100'], [37, '000011010101'], [38, '000011010110'],
+  [39, '000011010111'], [40, '000001101100'], [41, '000001101101'], [42, '000011011010'], [43, '000011011011'],
+  [44, '000001010100'], [45, '000001010101'], [46, '000001010110'], [47, '000001010111'], [48, '000001100100'],
+  [49, '000001100101'], [50, '000001010010'], [51, '000001010011'], [52, '000000100100'], [53, '000000110111'],
+  [54, '000000111000'], [55, '000000100111'], [56, '000000101000'], [57, '000001011000'], [58, '000001011001'],
+  [59, '000000101011'], [60, '000000101100'], [61, '000001011010'], [62, '000001100110'], [63, '000001100111'],
+  [64, '0000001111'], [128, '000011001000'], [192, '000011001001'], [256, '000001011011'], [320, '000000110011'],
+  [384, '000000110100'], [448, '000000110101'], [512, '0000001101100'], [576, '0000001101101'],
+  [640, '0000001001010'], [704, '0000001001011'], [768, '0000001001100'], [832, '0000001001101'],
+  [896, '0000001110010'], [960, '0000001110011'], [1024, '0000001110100'], [1088, '0000001110101'],
+  [1152, '0000001110110'], [1216, '0000001110111'], [1280, '0000001010010'], [1344, '0000001010011'],
+  [1408, '0000001010100'], [1472, '0000001010101'], [1536, '0000001011010'], [1600, '0000001011011'],
+  [1664, '0000001100100'], [1728, '0000001100101']
+]
+
+// Makeup codes for runs longer than 1728, shared by both colors
+const EXTENDED_MAKEUP_CODES: Array<[number, string]> = [
+  [1792, '00000001000'], [1856, '00000001100'], [1920, '00000001101'], [1984, '000000010010'],
+  [2048, '000000010011'], [2112, '000000010100'], [2176, '000000010101'], [2240, '000000010110'],
+  [2304, '000000010111'], [2368, '000000011100'], [2432, '000000011101'], [2496, '000000011110'],
+  [2560, '000000011111']
+]
+
+type Mode = 'pass' | 'horizontal' | 'eol' | number // A number is a vertical mode offset, -3 to 3
+
+const MODE_CODES: Array<[Mode, string]> = [
+  [0, '1'], [1, '011'], [-1, '010'], ['horizontal', '001'], ['pass', '0001'],
+  [2, '000011'], [-2, '000010'], [3, '0000011'], [-3, '0000010'], ['eol', '000000000001']
+]
+
+const EOL_ZERO_BITS = 11
+
+// Codes are keyed by length and value, so they can be matched bit by bit
+const codeKey = (length: number, value: number) => (length << 16) | value
+
+function buildTable<T>(codes: Array<[T, string]>): Map<number, T> {
+  return new Map(codes.map(([value, code]) => [codeKey(code.length, parseInt(code, 2)), value]))
+}
+
+const WHITE_TABLE = buildTable([...WHITE_CODES, ...EXTENDED_MAKEUP_CODES])
+const BLACK_TABLE = buildTable([...BLACK_CODES, ...EXTENDED_MAKEUP_CODES])
+const MODE_TABLE = buildTable(MODE_CODES)
+
+class BitReader {
+  private position = 0
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.position >= this.bytes.length * 8
+  }
+
+  readBit(): number {
+    if (this.done) throw new Error('CCITT data ended early')
+    const bit = (this.bytes[this.position >> 3] >> (7 - (this.position & 7))) & 1
+    this.position++
+    return bit
+  }
+
+  // The bit `offset` bits ahead, or -1 past the end
+  peekBit(offset: number): number {
+    const position = this.position + offset
+    if (position >= this.bytes.length * 8) return -1
+    return (this.bytes[position >> 3] >> (7 - (position & 7))) & 1
+  }
+
+  skip(count: number) {
+    this.position += count
+  }
+
+  alignToByte() {
+    this.position = Math.ceil(this.position / 8) * 8
+  }
+
+  readCode<T>(table: Map<number, T>, maxLength: number, what: string): T {
+    let value = 0
+    for (let length = 1; length <= maxLength; length++) {
+      value = (value << 1) | this.readBit()
+      const match = table.get(codeKey(length, value))
+      if (match !== undefined) return match
+    }
+    throw new Error(`Invalid CCITT ${what} code`)
+  }
+
+  // Skip fill bits and an end-of-line code, if one comes next
+  skipEol(): boolean {
+    let zeros = 0
+    while (this.peekBit(zeros) === 0) zeros++
+    if (zeros >= EOL_ZERO_BITS && this.peekBit(zeros) === 1) {
+      this.skip(zeros + 1)
+      return true
+    }
+    return false
+  }
+}
+
+function readRun(reader: BitReader, black: boolean): number {
+  let run = 0
+  for (;;) {
+    const length = reader.readCode(black ? BLACK_TABLE : WHITE_TABLE, 13, black ? 'black run' : 'white run')
+    run += length
+    if (length < 64) return run
+  }
+}
+
+/**
+ * One row coded as alternating white and black runs. Returns the changing elements:
+ * the columns where the color flips, starting with white to black.
+ */
+function decodeRow1d(reader: BitReader, width: number): number[] {
+  const changes: number[] = []
+  let position = 0
+  let black = false
+  while (position < width) {
+    position += readRun(reader, black)
+    if (position < width) changes.push(position)
+    black = !black
+  }
+  return changes
+}
+
+/**
+ * One row coded against the row above (the reference line). Returns null at an
+ * end-of-line code, which T.6 uses to mark the end of the data.
+ */
+function decodeRow2d(reader: BitReader, width: number, reference: number[]): number[] | null {
+  const changes: number[] = []
+  // Reference changes, padded so b1 and b2 always exist
+  const refs = [...reference, width, width]
+  let a0 = -1
+  let black = false
+
+  const pushChange = (position: number) => {
+    if (position < width) changes.push(position)
+  }
+
+  while (a0 < width) {
+    // b1: first change on the reference line right of a0 that turns to the opposite of a0's color
+    let b = 0
+    while (b < refs.length - 2 && (refs[b] <= a0 || (b % 2 === 1) !== black)) b++
+    const b1 = refs[b]
+    const b2 = refs[b + 1]
+
+    const mode = reader.readCode(MODE_TABLE, 12, 'mode')
+    if (mode === 'eol') return null
+
+    if (mode === 'pass') {
+      a0 = b2
+    } else if (mode === 'horizontal') {
+      const a1 = Math.max(a0, 0) + readRun(reader, black)
+      const a2 = a1 + readRun(reader, !black)
+      pushChange(a1)
+      pushChange(a2)
+      a0 = Math.min(a2, width)
+    } else {
+      const a1 = Math.min(Math.max(b1 + mode, a0, 0), width)
+      pushChange(a1)
+      a0 = a1
+      black = !black
+    }
+  }
+  return changes
+}
+
+function fillRow(output: Uint8Array, offset: number, changes: number[], width: number) {
+  for (let i = 0; i < changes.length; i += 2) {
+    const end = i + 1 < changes.length ? changes[i + 1] : width
+    for (let x = changes[i]; x < end; x++) {
+      output[offset + (x >> 3)] |= 0x80 >> (x & 7)
+    }
+  }
+}
+
+/**
+ * Decode CCITT-compressed rows. Data that ends early or turns corrupt after the first
+ * row leaves the remaining rows white, as fax viewers do.
+ */
+export function decodeCcitt(data: Uint8Array, options: CcittOptions): Uint8Array {
+  const { width, height, encoding } = options
+  const rowBytes = Math.ceil(width / 8)
+  const output = new Uint8Array(rowBytes * height)
+  const reader = new BitReader(data)
+  let reference: number[] = []
+  let y = 0
+
+  try {
+    for (; y < height && !reader.done; y++) {
+      let changes: number[] | null
+      if (encoding === 'mh') {
+        reader.alignToByte()
+        changes = decodeRow1d(reader, width)
+      } else if (encoding === 't4') {
+        reader.skipEol()
+        const oneDimensional = !options.twoDimensional || reader.readBit() === 1
+        changes = oneDimensional ? decodeRow1d(reader, width) : decodeRow2d(reader, width, reference)
+      } else {
+        changes = decodeRow2d(reader, width, reference)
+      }
+
+      if (!changes) break
+      fillRow(output, y * rowBytes, changes, width)
+      reference = changes
+    }
+  } catch (error) {
+    // Truncated and damaged strips are common in fax archives; keep the rows read so far
+    if (y === 0) throw error
+    console.warn(`CCITT decoding stopped at row ${y}:`, error)
+  }
+
+  return output
+}
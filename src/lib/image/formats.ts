@@ -0,0 +1,24 @@
+/**
+ * Menu file types accepted by the upload area and /api/mlmp/process
+ */
+export const MENU_FILE_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/tiff',
+  'application/pdf'
+]
+
+// For the file picker's accept attribute
+export const MENU_FILE_EXTENSIONS = '.jpg,.jpeg,.png,.webp,.gif,.tif,.tiff,.pdf'
+
+export const MENU_FILE_TYPE_NAMES = 'JPG, PNG, WEBP, GIF, TIFF, or PDF'
+
+/**
+ * Whether a file type holds several pages, which are rendered one at a time like PDF pages
+ */
+export function isPagedFileType(type: string): boolean {
+  return type === 'application/pdf' || type === 'image/tiff'
+}
@@ -0,0 +1,483 @@
+import { decodeCcitt } from './ccitt'
+import type { RasterImage } from '../preprocess/steps'
+
+/**
+ * Baseline TIFF reader for the multi-page scans fax and scanner software produces.
+ * Neither browsers nor @napi-rs/canvas decode TIFF, so pages are decoded here.
+ *
+ * Reads strips and tiles of bilevel, grayscale, palette, RGB and CMYK pixels at 1 to 16
+ * bits per sample, compressed with CCITT (Modified Huffman, Group 3, Group 4), LZW,
+ * Deflate or PackBits, or not at all. JPEG-compressed TIFFs are rejected.
+ */
+
+export interface TiffPage {
+  index: number // 0-based position in the file
+  width: number
+  height: number
+  dpi?: number // Absent when the file has no resolution
+  littleEndian: boolean
+  tags: Map<number, number[]>
+}
+
+export interface TiffRaster extends RasterImage {
+  dpi?: number
+}
+
+const TAG = {
+  newSubfileType: 254,
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  fillOrder: 266,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  xResolution: 282,
+  yResolution: 283,
+  planarConfiguration: 284,
+  t4Options: 292,
+  resolutionUnit: 296,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325
+} as const
+
+const COMPRESSION = {
+  none: 1,
+  ccittRle: 2,
+  ccittT4: 3,
+  ccittT6: 4,
+  lzw: 5,
+  deflate: 8,
+  packBits: 32773,
+  adobeDeflate: 32946
+} as const
+
+const PHOTOMETRIC = {
+  whiteIsZero: 0,
+  blackIsZero: 1,
+  rgb: 2,
+  palette: 3,
+  cmyk: 5
+} as const
+
+const SUPPORTED_PHOTOMETRICS: number[] = Object.values(PHOTOMETRIC)
+
+// Byte size of each TIFF field type, by type number
+const FIELD_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8]
+
+const CENTIMETERS_PER_INCH = 2.54
+
+/**
+ * Whether bytes start with a TIFF header, in either byte order
+ */
+export function isTiff(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && (
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42)
+  )
+}
+
+/**
+ * List the pages of a TIFF without decoding any pixels. Reduced-resolution
+ * images (thumbnails) are skipped.
+ */
+export function readTiffPages(bytes: Uint8Array): TiffPage[] {
+  if (!isTiff(bytes)) {
+    throw new Error(bytes[2] === 43 || bytes[3] === 43 ? 'BigTIFF files are not supported' : 'Not a TIFF file')
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const littleEndian = bytes[0] === 0x49
+  const pages: TiffPage[] = []
+  const visited = new Set<number>()
+  let offset = view.getUint32(4, littleEndian)
+
+  while (offset !== 0 && !visited.has(offset)) {
+    if (offset + 2 > bytes.length) throw new Error('TIFF directory is out of bounds')
+    visited.add(offset)
+
+    const entryCount = view.getUint16(offset, littleEndian)
+    const tags = new Map<number, number[]>()
+    for (let i = 0; i < entryCount; i++) {
+      const entry = offset + 2 + i * 12
+      const tag = view.getUint16(entry, littleEndian)
+      const values = readFieldValues(view, entry, littleEndian)
+      if (values) tags.set(tag, values)
+    }
+
+    const isThumbnail = ((tags.get(TAG.newSubfileType)?.[0] ?? 0) & 1) === 1
+    if (!isThumbnail) {
+      pages.push({
+        index: pages.length,
+        width: requireTag(tags, TAG.imageWidth, 'ImageWidth'),
+        height: requireTag(tags, TAG.imageLength, 'ImageLength'),
+        dpi: readDpi(tags, TAG.xResolution),
+        littleEndian,
+        tags
+      })
+    }
+
+    const next = offset + 2 + entryCount * 12
+    offset = next + 4 <= bytes.length ? view.getUint32(next, littleEndian) : 0
+  }
+
+  return pages
+}
+
+/**
+ * Decode one page to RGBA pixels. Pages with a lower vertical than horizontal
+ * resolution (standard-resolution fax) are stretched to square pixels.
+ */
+export async function decodeTiffPage(bytes: Uint8Array, page: TiffPage): Promise<TiffRaster> {
+  const { tags, width, height } = page
+  const compression = tags.get(TAG.compression)?.[0] ?? COMPRESSION.none
+  const photometric = tags.get(TAG.photometric)?.[0] ?? PHOTOMETRIC.whiteIsZero
+  const samplesPerPixel = tags.get(TAG.samplesPerPixel)?.[0] ?? 1
+  const bitsPerSample = tags.get(TAG.bitsPerSample)?.[0] ?? 1
+  const planar = (tags.get(TAG.planarConfiguration)?.[0] ?? 1) === 2
+  const predictor = tags.get(TAG.predictor)?.[0] ?? 1
+  const reverseBits = tags.get(TAG.fillOrder)?.[0] === 2
+
+  if (![1, 2, 4, 8, 16].includes(bitsPerSample)) {
+    throw new Error(`TIFF with ${bitsPerSample} bits per sample is not supported`)
+  }
+  if (predictor !== 1 && predictor !== 2) {
+    throw new Error('TIFF floating-point predictor is not supported')
+  }
+  if (!SUPPORTED_PHOTOMETRICS.includes(photometric) || (photometric === PHOTOMETRIC.palette && bitsPerSample > 8)) {
+    throw new Error(`TIFF photometric interpretation ${photometric} is not supported`)
+  }
+
+  // Strips are tiles as wide as the page
+  const tiled = tags.has(TAG.tileOffsets)
+  const tileWidth = tiled ? requireTag(tags, TAG.tileWidth, 'TileWidth') : width
+  const tileHeight = tiled ? requireTag(tags, TAG.tileLength, 'TileLength') : Math.min(tags.get(TAG.rowsPerStrip)?.[0] ?? height, height)
+  const offsets = tags.get(tiled ? TAG.tileOffsets : TAG.stripOffsets) ?? []
+  const byteCounts = tags.get(tiled ? TAG.tileByteCounts : TAG.stripByteCounts) ?? []
+  const tilesAcross = Math.ceil(width / tileWidth)
+  const tilesDown = Math.ceil(height / tileHeight)
+  const tilesPerPlane = tilesAcross * tilesDown
+  const planes = planar ? samplesPerPixel : 1
+  const samplesPerTilePixel = planar ? 1 : samplesPerPixel
+  const rowBytes = Math.ceil(tileWidth * samplesPerTilePixel * bitsPerSample / 8)
+
+  if (offsets.length < tilesPerPlane * planes) {
+    throw new Error('TIFF page is missing strip or tile offsets')
+  }
+
+  const samples = new Uint16Array(width * height * samplesPerPixel)
+  const maxSample = 2 ** bitsPerSample - 1
+
+  for (let plane = 0; plane < planes; plane++) {
+    for (let tile = 0; tile < tilesPerPlane; tile++) {
+      const tileX = (tile % tilesAcross) * tileWidth
+      const tileY = Math.floor(tile / tilesAcross) * tileHeight
+      // The last strip may be short; tiles are always full size
+      const rows = tiled ? tileHeight : Math.min(tileHeight, height - tileY)
+
+      const start = offsets[plane * tilesPerPlane + tile]
+      const length = byteCounts[plane * tilesPerPlane + tile] ?? bytes.length - start
+      let data = bytes.subarray(start, Math.min(start + length, bytes.length))
+      if (reverseBits) data = data.map(reverseByte)
+
+      const decoded = await decompress(data, compression, {
+        width: tileWidth,
+        rows,
+        rowBytes,
+        t4Options: tags.get(TAG.t4Options)?.[0] ?? 0,
+        whiteIsOne: photometric !== PHOTOMETRIC.whiteIsZero
+      })
+      if (predictor === 2) undoHorizontalPredictor(decoded, rows, rowBytes, tileWidth, samplesPerTilePixel, bitsPerSample)
+
+      for (let y = 0; y < rows && tileY + y < height; y++) {
+        for (let x = 0; x < tileWidth && tileX + x < width; x++) {
+          for (let s = 0; s < samplesPerTilePixel; s++) {
+            const sample = readSample(decoded, y * rowBytes, x * samplesPerTilePixel + s, bitsPerSample, page.littleEndian)
+            samples[((tileY + y) * width + tileX + x) * samplesPerPixel + (planar ? plane : s)] = sample
+          }
+        }
+      }
+    }
+  }
+
+  const raster = toRgba(samples, width, height, samplesPerPixel, photometric, maxSample, tags.get(TAG.colorMap))
+  const xDpi = page.dpi
+  const yDpi = readDpi(tags, TAG.yResolution)
+  return xDpi && yDpi && yDpi < xDpi * 0.95
+    ? { ...stretchRows(raster, Math.round(height * xDpi / yDpi)), dpi: xDpi }
+    : { ...raster, dpi: xDpi }
+}
+
+function readFieldValues(view: DataView, entry: number, littleEndian: boolean): number[] | null {
+  const type = view.getUint16(entry + 2, littleEndian)
+  const count = view.getUint32(entry + 4, littleEndian)
+  const size = FIELD_SIZES[type]
+  if (!size) return null
+
+  const start = count * size <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian)
+  if (start + count * size > view.byteLength) return null
+
+  const values: number[] = []
+  for (let i = 0; i < count; i++) {
+    const at = start + i * size
+    switch (type) {
+      case 3: values.push(view.getUint16(at, littleEndian)); break
+      case 4: values.push(view.getUint32(at, littleEndian)); break
+      case 5: values.push(view.getUint32(at, littleEndian) / (view.getUint32(at + 4, littleEndian) || 1)); break
+      case 8: values.push(view.getInt16(at, littleEndian)); break
+      case 9: values.push(view.getInt32(at, littleEndian)); break
+      case 10: values.push(view.getInt32(at, littleEndian) / (view.getInt32(at + 4, littleEndian) || 1)); break
+      case 11: values.push(view.getFloat32(at, littleEndian)); break
+      case 12: values.push(view.getFloat64(at, littleEndian)); break
+      case 6: values.push(view.getInt8(at)); break
+      default: values.push(view.getUint8(at))
+    }
+  }
+  return values
+}
+
+function requireTag(tags: Map<number, number[]>, tag: number, name: string): number {
+  const value = tags.get(tag)?.[0]
+  if (value === undefined) throw new Error(`TIFF page has no ${name}`)
+  return value
+}
+
+function readDpi(tags: Map<number, number[]>, tag: number): number | undefined {
+  const resolution = tags.get(tag)?.[0]
+  const unit = tags.get(TAG.resolutionUnit)?.[0] ?? 2
+  if (!resolution || unit === 1) return undefined
+  return Math.round(unit === 3 ? resolution * CENTIMETERS_PER_INCH : resolution)
+}
+
+function reverseByte(byte: number): number {
+  let reversed = 0
+  for (let i = 0; i < 8; i++) reversed = (reversed << 1) | ((byte >> i) & 1)
+  return reversed
+}
+
+interface SegmentLayout {
+  width: number
+  rows: number
+  rowBytes: number
+  t4Options: number
+  whiteIsOne: boolean // CCITT runs are white and black; BlackIsZero pages store white as 1
+}
+
+async function decompress(data: Uint8Array, compression: number, layout: SegmentLayout): Promise<Uint8Array> {
+  const expected = layout.rows * layout.rowBytes
+  switch (compression) {
+    case COMPRESSION.none:
+      return data
+    case COMPRESSION.ccittRle:
+    case COMPRESSION.ccittT4:
+    case COMPRESSION.ccittT6: {
+      const bits = decodeCcitt(data, {
+        width: layout.width,
+        height: layout.rows,
+        encoding: compression === COMPRESSION.ccittRle ? 'mh' : compression === COMPRESSION.ccittT4 ? 't4' : 't6',
+        twoDimensional: (layout.t4Options & 1) === 1
+      })
+      // decodeCcitt sets black pixels; rows are padded to whole bytes either way
+      return layout.whiteIsOne ? bits.map(byte => ~byte & 0xff) : bits
+    }
+    case COMPRESSION.lzw:
+      return decodeLzw(data, expected)
+    case COMPRESSION.deflate:
+    case COMPRESSION.adobeDeflate:
+      return inflate(data)
+    case COMPRESSION.packBits:
+      return decodePackBits(data, expected)
+    default:
+      throw new Error(`TIFF compression ${compression} is not supported`)
+  }
+}
+
+/**
+ * TIFF LZW: codes are 9 to 12 bits, most significant bit first, and widen one code early
+ */
+export function decodeLzw(data: Uint8Array, expectedLength: number): Uint8Array {
+  const CLEAR = 256
+  const END = 257
+  const prefix = new Int32Array(4096)
+  const suffix = new Uint8Array(4096)
+  const lengths = new Uint16Array(4096)
+  for (let i = 0; i < 256; i++) {
+    suffix[i] = i
+    lengths[i] = 1
+  }
+
+  const output = new Uint8Array(expectedLength)
+  let written = 0
+  let bitPosition = 0
+  let codeLength = 9
+  let next = 258
+  let previous = -1
+
+  const writeEntry = (code: number): number => {
+    const length = lengths[code]
+    const end = written + length
+    let first = 0
+    for (let c = code, i = end - 1; i >= written; i--, c = prefix[c]) {
+      if (i < output.length) output[i] = suffix[c]
+      first = suffix[c]
+    }
+    written = end
+    return first
+  }
+
+  while (bitPosition + codeLength <= data.length * 8 && written < expectedLength) {
+    let code = 0
+    for (let i = 0; i < codeLength; i++, bitPosition++) {
+      code = (code << 1) | ((data[bitPosition >> 3] >> (7 - (bitPosition & 7))) & 1)
+    }
+
+    if (code === END) break
+    if (code === CLEAR) {
+      codeLength = 9
+      next = 258
+      previous = -1
+      continue
+    }
+
+    if (previous === -1) {
+      writeEntry(code)
+    } else if (code < next) {
+      const first = writeEntry(code)
+      addEntry(previous, first)
+    } else {
+      // The code being defined: the previous entry plus its own first byte
+      addEntry(previous, 0)
+      const first = writeEntry(next - 1)
+      suffix[next - 1] = first
+      output[written - 1] = first
+    }
+    previous = code
+    if (next >= (1 << codeLength) - 1 && codeLength < 12) codeLength++
+  }
+
+  function addEntry(code: number, byte: number) {
+    if (next >= 4096) return
+    prefix[next] = code
+    suffix[next] = byte
+    lengths[next] = lengths[code] + 1
+    next++
+  }
+
+  return output
+}
+
+export function decodePackBits(data: Uint8Array, expectedLength: number): Uint8Array {
+  const output = new Uint8Array(expectedLength)
+  let written = 0
+  let i = 0
+  while (i < data.length && written < expectedLength) {
+    const header = data[i] > 127 ? data[i] - 256 : data[i]
+    i++
+    if (header >= 0) {
+      output.set(data.subarray(i, i + header + 1).subarray(0, expectedLength - written), written)
+      written += header + 1
+      i += header + 1
+    } else if (header !== -128) {
+      output.fill(data[i], written, Math.min(written + 1 - header, expectedLength))
+      written += 1 - header
+      i++
+    }
+  }
+  return output
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new DecompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function undoHorizontalPredictor(
+  data: Uint8Array,
+  rows: number,
+  rowBytes: number,
+  width: number,
+  samplesPerPixel: number,
+  bitsPerSample: number
+) {
+  if (bitsPerSample !== 8) return // Scanners only write the predictor for 8-bit samples
+  for (let y = 0; y < rows; y++) {
+    const row = y * rowBytes
+    for (let i = samplesPerPixel; i < width * samplesPerPixel; i++) {
+      data[row + i] = (data[row + i] + data[row + i - samplesPerPixel]) & 0xff
+    }
+  }
+}
+
+function readSample(data: Uint8Array, rowStart: number, index: number, bitsPerSample: number, littleEndian: boolean): number {
+  if (bitsPerSample === 8) return data[rowStart + index] ?? 0
+  if (bitsPerSample === 16) {
+    // Only the high byte survives conversion to 8-bit RGBA
+    return data[rowStart + index * 2 + (littleEndian ? 1 : 0)] ?? 0
+  }
+  const bit = index * bitsPerSample
+  const byte = data[rowStart + (bit >> 3)] ?? 0
+  return (byte >> (8 - bitsPerSample - (bit & 7))) & ((1 << bitsPerSample) - 1)
+}
+
+function toRgba(
+  samples: Uint16Array,
+  width: number,
+  height: number,
+  samplesPerPixel: number,
+  photometric: number,
+  maxSample: number,
+  colorMap: number[] | undefined
+): RasterImage {
+  const data = new Uint8ClampedArray(width * height * 4)
+  // 16-bit samples were read as their high byte
+  const scale = 255 / Math.min(maxSample, 255)
+  const paletteSize = 2 ** Math.round(Math.log2(maxSample + 1))
+
+  for (let p = 0; p < width * height; p++) {
+    const s = p * samplesPerPixel
+    const out = p * 4
+    let r: number, g: number, b: number
+
+    if (photometric === PHOTOMETRIC.rgb) {
+      r = samples[s] * scale
+      g = samples[s + 1] * scale
+      b = samples[s + 2] * scale
+    } else if (photometric === PHOTOMETRIC.palette && colorMap) {
+      r = colorMap[samples[s]] >> 8
+      g = colorMap[paletteSize + samples[s]] >> 8
+      b = colorMap[2 * paletteSize + samples[s]] >> 8
+    } else if (photometric === PHOTOMETRIC.cmyk) {
+      const k = 255 - samples[s + 3] * scale
+      r = (255 - samples[s] * scale) * k / 255
+      g = (255 - samples[s + 1] * scale) * k / 255
+      b = (255 - samples[s + 2] * scale) * k / 255
+    } else {
+      const gray = samples[s] * scale
+      r = g = b = photometric === PHOTOMETRIC.whiteIsZero ? 255 - gray : gray
+    }
+
+    data[out] = r
+    data[out + 1] = g
+    data[out + 2] = b
+    data[out + 3] = 255
+  }
+
+  return { data, width, height }
+}
+
+function stretchRows(image: RasterImage, height: number): RasterImage {
+  const rowLength = image.width * 4
+  const data = new Uint8ClampedArray(rowLength * height)
+  for (let y = 0; y < height; y++) {
+    const source = Math.min(image.height - 1, Math.floor(y * image.height / height))
+    data.set(image.data.subarray(source * rowLength, (source + 1) * rowLength), y * rowLength)
+  }
+  return { data, width: image.width, height }
+}
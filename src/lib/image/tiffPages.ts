@@ -0,0 +1,29 @@
+import { readTiffPages, decodeTiffPage } from './tiff'
+import { imageDataToCanvas } from '../ocr/imageData'
+import type { PdfPageSource } from '../pdf/pdfToImages'
+
+/**
+ * Open a TIFF as a page source, each frame a page, decoded to a canvas when asked for.
+ * TIFF pages never have a text layer.
+ */
+export async function openTiff(file: File): Promise<PdfPageSource> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const pages = readTiffPages(bytes)
+
+  return {
+    totalPages: pages.length,
+    renderPage: async (pageNumber: number) => {
+      const raster = await decodeTiffPage(bytes, pages[pageNumber - 1])
+      const canvas = imageDataToCanvas(raster)
+      return {
+        pageNumber,
+        canvas,
+        width: canvas.width,
+        height: canvas.height,
+        dpi: raster.dpi,
+        textLayer: null
+      }
+    },
+    destroy: async () => {}
+  }
+}
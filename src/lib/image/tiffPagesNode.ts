@@ -0,0 +1,27 @@
+import { readTiffPages, decodeTiffPage } from './tiff'
+import { encodeImageDataAsPng } from '../ocr/NodeTesseractOcrProvider'
+import type { NodePdfPageSource } from '../pdf/pdfToImagesNode'
+
+/**
+ * Open TIFF bytes on the server as a page source, each frame a PNG page.
+ * Mirrors openTiff; TIFF pages never have a text layer.
+ */
+export async function openTiffBuffer(bytes: Uint8Array): Promise<NodePdfPageSource> {
+  const pages = readTiffPages(bytes)
+
+  return {
+    totalPages: pages.length,
+    renderPage: async (pageNumber: number) => {
+      const raster = await decodeTiffPage(bytes, pages[pageNumber - 1])
+      return {
+        pageNumber,
+        png: await encodeImageDataAsPng(raster),
+        width: raster.width,
+        height: raster.height,
+        dpi: raster.dpi,
+        textLayer: null
+      }
+    },
+    destroy: async () => {}
+  }
+}
@@ -0,0 +1,2 @@
+export { segmentPageRegions } from './xyCut'
+export type { LayoutRegion, XYCutOptions } from './xyCut'
@@ -0,0 +1,171 @@
+import type { OcrLine, OcrWord, OcrBoundingBox } from '../ocr/OcrProvider'
+import { unionBoundingBoxes } from '../ocr/geometry'
+
+export interface LayoutRegion {
+  index: number // Position in reading order
+  bbox: OcrBoundingBox
+  lines: OcrLine[]
+}
+
+export interface XYCutOptions {
+  minColumnGap?: number // Minimum blank width (px) that separates two columns
+  minRowGap?: number // Minimum blank height (px) that separates two rows of regions
+}
+
+/**
+ * A word (or a whole line when the provider reported no words) placed on the page
+ */
+interface LayoutUnit {
+  box: OcrBoundingBox
+  lineIndex: number
+  word?: OcrWord
+}
+
+type Axis = 'x' | 'y'
+
+/**
+ * Segment a page into regions (columns, full-width strips) with a recursive XY-cut
+ * over word bounding boxes. Regions come back in reading order: top to bottom,
+ * then left to right inside a multi-column band.
+ *
+ * Lines that straddle a column gap (e.g. when the engine glued two columns together)
+ * are split so each region only holds the words that fall inside it.
+ */
+export function segmentPageRegions(lines: OcrLine[], options: XYCutOptions = {}): LayoutRegion[] {
+  const units = toLayoutUnits(lines)
+  if (units.length === 0) return []
+
+  const typicalHeight = median(units.map(u => u.box.h)) || 10
+  const minColumnGap = options.minColumnGap ?? typicalHeight * 2
+  const minRowGap = options.minRowGap ?? typicalHeight * 1.5
+
+  const groups = cutRecursively(units, minColumnGap, minRowGap)
+
+  return groups.map((group, index) => ({
+    index,
+    bbox: unionBoundingBoxes(group.map(u => u.box)),
+    lines: rebuildLines(group, lines)
+  }))
+}
+
+function cutRecursively(units: LayoutUnit[], minColumnGap: number, minRowGap: number): LayoutUnit[][] {
+  const strips = splitAtGaps(units, 'y', minRowGap)
+
+  // Re-join consecutive strips that share the same column structure, so a two-column
+  // band is read column by column instead of row by row
+  const bands: LayoutUnit[][] = []
+  let current = strips[0]
+  for (const strip of strips.slice(1)) {
+    const merged = [...current, ...strip]
+    const columnCount = countColumns(merged, minColumnGap)
+    if (columnCount > 1 && columnCount === countColumns(current, minColumnGap) && columnCount === countColumns(strip, minColumnGap)) {
+      current = merged
+    } else {
+      bands.push(current)
+      current = strip
+    }
+  }
+  bands.push(current)
+
+  if (bands.length > 1) {
+    return bands.flatMap(band => cutRecursively(band, minColumnGap, minRowGap))
+  }
+
+  // A single band: cut it into columns and read them left to right
+  const columns = splitAtGaps(units, 'x', minColumnGap)
+  if (columns.length <= 1) {
+    return [units]
+  }
+
+  return columns.flatMap(column => cutRecursively(column, minColumnGap, minRowGap))
+}
+
+function countColumns(units: LayoutUnit[], minColumnGap: number): number {
+  return splitAtGaps(units, 'x', minColumnGap).length
+}
+
+/**
+ * Split units wherever the projection on the given axis leaves a gap of at least minGap
+ */
+function splitAtGaps(units: LayoutUnit[], axis: Axis, minGap: number): LayoutUnit[][] {
+  const start = (u: LayoutUnit) => axis === 'x' ? u.box.x : u.box.y
+  const end = (u: LayoutUnit) => axis === 'x' ? u.box.x + u.box.w : u.box.y + u.box.h
+
+  const sorted = [...units].sort((a, b) => start(a) - start(b))
+  const groups: LayoutUnit[][] = [[sorted[0]]]
+  let reach = end(sorted[0])
+
+  for (const unit of sorted.slice(1)) {
+    if (start(unit) - reach >= minGap) {
+      groups.push([unit])
+    } else {
+      groups[groups.length - 1].push(unit)
+    }
+    reach = Math.max(reach, end(unit))
+  }
+
+  return groups
+}
+
+function toLayoutUnits(lines: OcrLine[]): LayoutUnit[] {
+  const units: LayoutUnit[] = []
+
+  lines.forEach((line, lineIndex) => {
+    if (!line.text.trim()) return
+
+    if (line.words.length > 0) {
+      for (const word of line.words) {
+        units.push({ box: word.bbox, lineIndex, word })
+      }
+    } else if (line.bbox) {
+      units.push({ box: line.bbox, lineIndex })
+    }
+  })
+
+  return units
+}
+
+/**
+ * Turn the units of one region back into lines. Lines that are entirely inside
+ * the region are reused as-is; partial lines become new lines with just their words.
+ */
+function rebuildLines(units: LayoutUnit[], sourceLines: OcrLine[]): OcrLine[] {
+  const byLine = new Map<number, LayoutUnit[]>()
+  for (const unit of units) {
+    if (!byLine.has(unit.lineIndex)) {
+      byLine.set(unit.lineIndex, [])
+    }
+    byLine.get(unit.lineIndex)!.push(unit)
+  }
+
+  const lines: OcrLine[] = []
+
+  for (const [lineIndex, lineUnits] of byLine) {
+    const source = sourceLines[lineIndex]
+    const words = lineUnits.filter(u => u.word).map(u => u.word!)
+
+    if (words.length === 0 || words.length === source.words.length) {
+      lines.push(source)
+      continue
+    }
+
+    const sortedWords = source.words.filter(w => words.includes(w))
+    lines.push({
+      ...source,
+      text: sortedWords.map(w => w.text).join(' '),
+      bbox: unionBoundingBoxes(sortedWords.map(w => w.bbox)),
+      words: sortedWords,
+      confidence: sortedWords.reduce((sum, w) => sum + w.confidence, 0) / sortedWords.length
+    })
+  }
+
+  // Top to bottom within the region
+  return lines.sort((a, b) => a.bbox.y - b.bbox.y || a.bbox.x - b.bbox.x)
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
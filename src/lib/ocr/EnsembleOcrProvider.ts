@@ -0,0 +1,136 @@
+import type { OcrProvider, OcrResult, OcrImageInput, OcrProcessOptions, OrientationResult } from './OcrProvider'
+import { TesseractOcrProvider } from './TesseractOcrProvider'
+import { DEFAULT_OCR_LANGUAGES, type OcrLanguageSelection } from './languages'
+import { mergeOcrResults, type OcrMergeOptions } from './ensemble'
+import { throwIfAborted } from './abort'
+import type { RasterImage } from '../preprocess/steps'
+
+export interface EnsembleMember {
+  provider: OcrProvider
+  /**
+   * Preprocessing variant this member reads instead of the original image.
+   * Must keep the image size so the passes can be aligned by their boxes.
+   */
+  prepare?: (image: OcrImageInput) => Promise<OcrImageInput>
+}
+
+export interface EnsembleOcrProviderOptions extends OcrMergeOptions {
+  members: Array<OcrProvider | EnsembleMember>
+}
+
+/**
+ * Runs every member on the same page and merges their readings word by word
+ * (see mergeOcrResults). Members are typically Tesseract providers with different
+ * page segmentation modes, or the same provider fed different preprocessing variants.
+ *
+ * Language, orientation and lifecycle calls are forwarded to the Tesseract members,
+ * so the ensemble drops in wherever a TesseractOcrProvider is used.
+ */
+export class EnsembleOcrProvider implements OcrProvider {
+  private members: EnsembleMember[]
+  private mergeOptions: OcrMergeOptions
+
+  constructor(options: EnsembleOcrProviderOptions) {
+    const { members, ...mergeOptions } = options
+    if (members.length < 2) {
+      throw new Error('An OCR ensemble needs at least two members')
+    }
+    this.members = members.map(member => 'provider' in member ? member : { provider: member })
+    this.mergeOptions = mergeOptions
+  }
+
+  getName(): string {
+    return `Ensemble (${this.members.map(member => member.provider.getName()).join(' + ')})`
+  }
+
+  isAvailable(): boolean {
+    return this.members.every(member => member.provider.isAvailable())
+  }
+
+  private get tesseractMembers(): TesseractOcrProvider[] {
+    return this.members
+      .map(member => member.provider)
+      .filter((provider): provider is TesseractOcrProvider => provider instanceof TesseractOcrProvider)
+  }
+
+  async ready(): Promise<void> {
+    await Promise.all(this.tesseractMembers.map(provider => provider.ready()))
+  }
+
+  getLanguages(): string[] {
+    return this.tesseractMembers[0]?.getLanguages() ?? [...DEFAULT_OCR_LANGUAGES]
+  }
+
+  async setLanguages(languages: string[]): Promise<void> {
+    await Promise.all(this.tesseractMembers.map(provider => provider.setLanguages(languages)))
+  }
+
+  /**
+   * Language detection runs once, on the first Tesseract member; the others follow its choice
+   */
+  async applyLanguageSelection(
+    selection: OcrLanguageSelection,
+    sampleImage: OcrImageInput,
+    options: OcrProcessOptions = {}
+  ): Promise<string | null> {
+    const [primary, ...rest] = this.tesseractMembers
+    if (!primary) return null
+
+    const detectedLanguage = await primary.applyLanguageSelection(selection, sampleImage, options)
+    await Promise.all(rest.map(provider => provider.setLanguages(primary.getLanguages())))
+    return detectedLanguage
+  }
+
+  async detectOrientation(image: RasterImage, options: OcrProcessOptions = {}): Promise<OrientationResult> {
+    const [primary] = this.tesseractMembers
+    if (!primary) {
+      throw new Error('Orientation detection needs a Tesseract member in the OCR ensemble')
+    }
+    return primary.detectOrientation(image, options)
+  }
+
+  /**
+   * Recognize the image with every member in parallel and merge the readings.
+   * Progress is reported as the average over the members.
+   */
+  async processImage(imageData: OcrImageInput, options: OcrProcessOptions = {}): Promise<OcrResult> {
+    const { signal, page, onProgress } = options
+    throwIfAborted(signal)
+
+    const percents = this.members.map(() => 0)
+    const results = await Promise.all(this.members.map(async (member, i) => {
+      const image = member.prepare ? await member.prepare(imageData) : imageData
+      return member.provider.processImage(image, {
+        signal,
+        page,
+        onProgress: onProgress && (event => {
+          if (event.stage !== 'recognizing') {
+            onProgress(event)
+            return
+          }
+          percents[i] = event.percent
+          onProgress({
+            stage: 'recognizing',
+            page,
+            percent: Math.round(percents.reduce((sum, percent) => sum + percent, 0) / percents.length)
+          })
+        })
+      })
+    }))
+
+    const { result, report } = mergeOcrResults(results, this.mergeOptions)
+    console.log(
+      `OCR ensemble merged ${results.length} passes: ${report.wordsReplaced} word(s) replaced, ` +
+      `${report.wordsAdded} word(s) and ${report.linesAdded} line(s) added`
+    )
+    return result
+  }
+
+  cancel() {
+    this.tesseractMembers.forEach(provider => provider.cancel())
+  }
+
+  async destroy() {
+    await Promise.all(this.tesseractMembers.map(provider => provider.destroy()))
+  }
+}
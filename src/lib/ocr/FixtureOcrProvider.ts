@@ -0,0 +1,99 @@
+import type { OcrProvider, OcrResult, OcrImageInput, OcrProcessOptions } from './OcrProvider'
+import { hashImageContent } from './hash'
+import { throwIfAborted } from './abort'
+
+/**
+ * Saved OCR results keyed by the SHA-256 hash of the recognized image content.
+ * This is the shape of a fixture JSON file.
+ */
+export type OcrFixtureSet = Record<string, OcrResult>
+
+export interface FixtureOcrProviderOptions {
+  /**
+   * 'replay' only serves saved results and fails on unknown images.
+   * 'record' serves saved results and delegates misses to the recorder, saving its output.
+   */
+  mode?: 'replay' | 'record'
+  fixtures?: OcrFixtureSet
+  recorder?: OcrProvider
+}
+
+/**
+ * OCR provider that replays saved OcrResult fixtures for deterministic offline runs
+ */
+export class FixtureOcrProvider implements OcrProvider {
+  private fixtures: Map<string, OcrResult>
+  private mode: 'replay' | 'record'
+  private recorder: OcrProvider | null
+
+  constructor(options: FixtureOcrProviderOptions = {}) {
+    this.mode = options.mode || 'replay'
+    this.recorder = options.recorder || null
+    this.fixtures = new Map(Object.entries(options.fixtures || {}))
+
+    if (this.mode === 'record' && !this.recorder) {
+      throw new Error('Fixture recording requires a recorder OCR provider')
+    }
+  }
+
+  getName(): string {
+    return this.recorder
+      ? `Fixture (${this.mode} via ${this.recorder.getName()})`
+      : `Fixture (${this.mode})`
+  }
+
+  isAvailable(): boolean {
+    if (this.mode === 'record') {
+      return this.recorder !== null && this.recorder.isAvailable()
+    }
+    return true
+  }
+
+  /**
+   * Replaying needs no start-up; recording waits for the recorder
+   */
+  async ready(): Promise<void> {
+    await this.recorder?.ready?.()
+  }
+
+  async processImage(imageData: OcrImageInput, options: OcrProcessOptions = {}): Promise<OcrResult> {
+    throwIfAborted(options.signal)
+    const key = await hashImageContent(imageData)
+    const saved = this.fixtures.get(key)
+
+    if (saved) {
+      console.log(`Replaying OCR fixture ${key.slice(0, 12)}`)
+      options.onProgress?.({ stage: 'recognizing', page: options.page, percent: 100 })
+      return structuredClone(saved)
+    }
+
+    if (this.mode === 'replay' || !this.recorder) {
+      throw new Error(`No OCR fixture recorded for image ${key}`)
+    }
+
+    console.log(`Recording OCR fixture ${key.slice(0, 12)} with ${this.recorder.getName()}`)
+    const result = await this.recorder.processImage(imageData, options)
+    this.fixtures.set(key, structuredClone(result))
+    return result
+  }
+
+  /**
+   * Add or replace saved results, e.g. from an imported fixture JSON file
+   */
+  loadFixtures(fixtures: OcrFixtureSet) {
+    for (const [key, result] of Object.entries(fixtures)) {
+      this.fixtures.set(key, result)
+    }
+  }
+
+  /**
+   * Export every known result so it can be written to a fixture JSON file
+   */
+  exportFixtures(): OcrFixtureSet {
+    return Object.fromEntries(this.fixtures)
+  }
+
+  hasFixture(key: string): boolean {
+    return this.fixtures.has(key)
+  }
+}
@@ -0,0 +1,97 @@
+import { TesseractOcrProvider } from './TesseractOcrProvider'
+import type { OcrResult, OcrImageInput, OcrProcessOptions } from './OcrProvider'
+import type { RasterImage } from '../preprocess/steps'
+import { listRequiredOcrAssets, verifyOcrAssets, type TesseractAssetPaths } from './assets'
+
+// Exported so server code can key cached results before starting any workers
+export const NODE_TESSERACT_PROVIDER_NAME = 'Tesseract.js (Node)'
+
+/**
+ * Server-side asset paths. The worker and WASM core come from the installed packages;
+ * OCR_LANG_PATH points at a directory of traineddata instead of the jsDelivr CDN.
+ */
+export function getNodeTesseractAssets(): TesseractAssetPaths {
+  return process.env.OCR_LANG_PATH ? { langPath: process.env.OCR_LANG_PATH } : {}
+}
+
+let nodeAssetsCheck: Promise<void> | null = null
+
+/**
+ * Check once per process that the configured traineddata files exist; rejects naming the missing ones
+ */
+export function verifyNodeOcrAssets(): Promise<void> {
+  if (!nodeAssetsCheck) {
+    nodeAssetsCheck = verifyOcrAssets(listRequiredOcrAssets(getNodeTesseractAssets()), async file => {
+      const { access } = await import('fs/promises')
+      return access(file).then(() => true, () => false)
+    })
+    // A failed check is repeated on the next call, so the files can be added without a restart
+    nodeAssetsCheck.catch(() => { nodeAssetsCheck = null })
+  }
+  return nodeAssetsCheck
+}
+
+/**
+ * Tesseract provider for server-side use (API routes, scripts).
+ * Accepts encoded image bytes (Buffer/Uint8Array) or raw ImageData and never touches the DOM.
+ */
+export class NodeTesseractOcrProvider extends TesseractOcrProvider {
+  getName(): string {
+    return NODE_TESSERACT_PROVIDER_NAME
+  }
+
+  async processImage(imageData: OcrImageInput, options: OcrProcessOptions = {}): Promise<OcrResult> {
+    if (imageData instanceof Uint8Array) {
+      return super.processImage(imageData, options)
+    }
+
+    if (isImageData(imageData)) {
+      return super.processImage(await encodeImageDataAsPng(imageData), options)
+    }
+
+    throw new Error('NodeTesseractOcrProvider only accepts image bytes or ImageData')
+  }
+
+  protected async toRasterImage(image: OcrImageInput): Promise<RasterImage | null> {
+    if (image instanceof Uint8Array) return decodeImageBytes(image)
+    return isImageData(image) ? image : null
+  }
+
+  protected async fromRasterImage(image: RasterImage): Promise<OcrImageInput> {
+    return encodeImageDataAsPng(image)
+  }
+}
+
+interface RgbaPixels {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+function isImageData(image: OcrImageInput): image is ImageData {
+  return typeof image === 'object' && 'data' in image && 'width' in image && 'height' in image
+}
+
+/**
+ * Encode raw RGBA pixels as PNG so the Node build of tesseract.js can read them
+ */
+export async function encodeImageDataAsPng(imageData: RgbaPixels): Promise<Uint8Array> {
+  const { createCanvas, ImageData: NodeImageData } = await import('@napi-rs/canvas')
+  const canvas = createCanvas(imageData.width, imageData.height)
+  const context = canvas.getContext('2d')
+  context.putImageData(new NodeImageData(imageData.data, imageData.width, imageData.height), 0, 0)
+  return canvas.toBuffer('image/png')
+}
+
+/**
+ * Decode encoded image bytes (PNG, JPEG, WEBP, GIF) into raw RGBA pixels, e.g. for preprocessing
+ */
+export async function decodeImageBytes(bytes: Uint8Array): Promise<RgbaPixels> {
+  const { createCanvas, loadImage } = await import('@napi-rs/canvas')
+  const image = await loadImage(bytes)
+  const canvas = createCanvas(image.width, image.height)
+  const context = canvas.getContext('2d')
+  context.drawImage(image, 0, 0)
+  const { data, width, height } = context.getImageData(0, 0, image.width, image.height)
+  return { data, width, height }
+}
@@ -1,3 +1,7 @@
+import type { RasterImage } from '../preprocess/steps'
+import type { PageRotation } from '../preprocess/orientation'
+import type { OcrLanguageSelection } from './languages'
+
 export interface OcrBoundingBox {
   x: number
   y: number
@@ -5,10 +9,33 @@ export interface OcrBoundingBox {
   h: number
 }
 
+/**
+ * Text baseline as a line segment from (x0, y0) to (x1, y1).
+ * The slope shows how much a line is slanted on the page.
+ */
+export interface OcrBaseline {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+/**
+ * Typography from a PDF text layer. OCR has no font information; features fall back to box heights.
+ */
+export interface OcrFont {
+  name: string // PostScript name without the subset prefix, e.g. "Garamond-Bold"
+  size: number // px on the rendered page
+  bold: boolean
+  italic: boolean
+}
+
 export interface OcrWord {
   text: string
   bbox: OcrBoundingBox
   confidence: number
+  originalText?: string // What OCR read, when spelling correction changed the text
+  font?: OcrFont
 }
 
 export interface OcrLine {
@@ -16,20 +43,100 @@ export interface OcrLine {
   bbox: OcrBoundingBox
   words: OcrWord[]
   confidence: number
+  baseline?: OcrBaseline
+  blockIndex?: number // Index into OcrResult.blocks when the provider reports layout
+  paragraphIndex?: number // Index into OcrResult.paragraphs when the provider reports layout
+  originalText?: string // What OCR read, when spelling correction changed the text
+  font?: OcrFont // Typography of most of the line
+}
+
+export interface OcrParagraph {
+  text: string
+  bbox: OcrBoundingBox
+  lines: OcrLine[]
+  confidence: number
+  blockIndex: number
+}
+
+export interface OcrBlock {
+  text: string
+  bbox: OcrBoundingBox
+  paragraphs: OcrParagraph[]
+  confidence: number
+  blockType?: string
+}
+
+/**
+ * How the recognized image was made from the page as uploaded or rendered: turned
+ * upright by a quarter turn, deskewed, cropped and scaled, in that order
+ */
+export interface OcrPageTransform {
+  width: number // The page as uploaded or rendered
+  height: number
+  rotation: number // Clockwise quarter turn (0, 90, 180, 270)
+  skew: number // Angle passed to the deskew rotation; 0 when not deskewed
+  crop: OcrBoundingBox | null // Part of the deskewed page kept, in its pixels
+  scale: number // Upscaling applied after the crop
+}
+
+/**
+ * Size of the image a result's boxes are measured on
+ */
+export interface OcrPageGeometry {
+  width: number
+  height: number
+  dpi?: number // Known for rendered PDF pages; absent for photos and images without resolution metadata
+  transform?: OcrPageTransform // Absent when the page was recognized as uploaded or rendered
 }
 
 export interface OcrResult {
   lines: OcrLine[]
   words: OcrWord[]
+  blocks?: OcrBlock[] // Layout hierarchy as detected by the OCR engine, in reading order
+  paragraphs?: OcrParagraph[]
   confidence: number
   processingTime: number
+  rotation?: number // Clockwise rotation (0, 90, 180, 270) applied to the page before recognition
+  page?: OcrPageGeometry // The recognized image, after rotation and preprocessing
+  source?: 'ocr' | 'pdf-text' // Where the text came from; OCR when absent
+}
+
+/**
+ * Images an OCR provider can recognize. Uint8Array holds encoded image bytes
+ * (PNG, JPEG) and is the only input available on the server.
+ */
+export type OcrImageInput = ImageData | HTMLCanvasElement | HTMLImageElement | Uint8Array
+
+/**
+ * Stages of turning an upload into candidates. Providers emit 'recognizing' (and
+ * 'detecting-language' for the auto-detect pass); the processing pipeline emits the rest.
+ */
+export type OcrProgressStage = 'rasterizing' | 'preprocessing' | 'detecting-language' | 'recognizing' | 'extracting'
+
+export interface OcrProgressEvent {
+  stage: OcrProgressStage
+  page?: number // 1-based; absent for whole-document stages such as rasterizing
+  percent: number // 0-100 within the stage
+}
+
+export type OcrProgressCallback = (event: OcrProgressEvent) => void
+
+export interface OcrProcessOptions {
+  signal?: AbortSignal // Aborting rejects with an AbortError and stops in-flight recognition
+  page?: number // Page number reported in progress events
+  onProgress?: OcrProgressCallback
+}
+
+export interface OrientationResult {
+  rotation: PageRotation // Clockwise rotation that turns the page upright
+  scores: Partial<Record<PageRotation, number>> // Letter-ratio score of each rotation tried
 }
 
 export interface OcrProvider {
   /**
    * Process an image and extract text with bounding boxes
    */
-  processImage(imageData: ImageData | HTMLCanvasElement | HTMLImageElement): Promise<OcrResult>
+  processImage(imageData: OcrImageInput, options?: OcrProcessOptions): Promise<OcrResult>
   
   /**
    * Get provider name for logging/debugging
@@ -40,4 +147,33 @@ export interface OcrProvider {
    * Check if provider is available/initialized
    */
   isAvailable(): boolean
+
+  /**
+   * Wait until the provider can take work, starting it if needed; rejects when it can't start.
+   * Providers that are ready as soon as they are created need not implement it.
+   */
+  ready?(): Promise<void>
+
+  /**
+   * How many pages the provider recognizes at once; 1 when absent
+   */
+  getWorkerCount?(): number
+
+  /**
+   * Find the clockwise rotation that turns a page upright. Providers without it can't
+   * auto-rotate; their pages are recognized as they are.
+   */
+  detectOrientation?(image: RasterImage, options?: OcrProcessOptions): Promise<OrientationResult>
+
+  /**
+   * Switch to the languages selected for an upload, detecting the language on the sample
+   * image for 'auto'. Returns the detected language, or null. Providers without it
+   * recognize every upload the same way.
+   */
+  applyLanguageSelection?(selection: OcrLanguageSelection, sampleImage: OcrImageInput, options?: OcrProcessOptions): Promise<string | null>
+
+  /**
+   * Traineddata languages currently loaded
+   */
+  getLanguages?(): string[]
 }
@@ -1,144 +1,419 @@
-import { createWorker } from 'tesseract.js'
-import type { OcrProvider, OcrResult, OcrLine, OcrWord } from './OcrProvider'
+import { createWorker, createScheduler, PSM } from 'tesseract.js'
+import type { OcrProvider, OcrResult, OcrImageInput, OcrProcessOptions, OcrProgressCallback, OrientationResult } from './OcrProvider'
+import { buildOcrLayout } from './tesseractLayout'
+import { abortable, throwIfAborted } from './abort'
+import { toImageData, imageDataToCanvas } from './imageData'
+import { reocrLowConfidenceLines, type LowConfidenceReocrOptions } from './reocr'
+import type { TesseractAssetPaths } from './assets'
+import { scaleImage, type RasterImage } from '../preprocess/steps'
+import {
+  candidateRotations,
+  estimateLineDirection,
+  rotateQuarterTurns,
+  scoreOrientationText,
+  type PageRotation
+} from '../preprocess/orientation'
+import {
+  DEFAULT_OCR_LANGUAGES,
+  SUPPORTED_OCR_LANGUAGES,
+  detectLanguageFromText,
+  toTesseractLanguages,
+  type OcrLanguageSelection
+} from './languages'
+
+export interface TesseractOcrProviderOptions {
+  languages?: string[]
+  workerCount?: number // Pages recognized in parallel; each worker holds its own traineddata in memory
+  reocr?: LowConfidenceReocrOptions | false // Second pass over low-confidence lines; on by default
+  pageSegMode?: PSM // Tesseract page segmentation mode; Tesseract's automatic layout analysis by default
+  assets?: TesseractAssetPaths // Local worker, core and traineddata; CDN downloads by default
+}
+
+/**
+ * Default pool size: leave a core for the UI/event loop, and cap memory use
+ */
+export function getDefaultWorkerCount(): number {
+  const cores = globalThis.navigator?.hardwareConcurrency ?? 2
+  return Math.max(1, Math.min(4, cores - 1))
+}
+
+// tesseract.js defaults, spelled out because the job id is the next positional argument
+const RECOGNIZE_OUTPUT: Partial<Tesseract.OutputFormats> = { blocks: true, text: true, hocr: true, tsv: true }
+
+// Longest side (px) of the copy read at each rotation during orientation detection
+const ORIENTATION_SAMPLE_SIZE = 1600
+
+// Longest side (px) of the copy read during language detection
+const LANGUAGE_SAMPLE_SIZE = 1600
 
 export class TesseractOcrProvider implements OcrProvider {
-  private worker: Tesseract.Worker | null = null
+  private scheduler: Tesseract.Scheduler | null = null
+  private workers: Tesseract.Worker[] = []
   private isInitialized = false
+  private initPromise: Promise<void> | null
+  private termination: Promise<void> = Promise.resolve() // Workers stopped by cancel() shutting down
+  private languages: string[]
+  private workerCount: number
+  private reocrOptions: LowConfidenceReocrOptions | false
+  private pageSegMode: PSM | null
+  private assets: TesseractAssetPaths
+  private initError: unknown = null
+  private lineWorker: Promise<Tesseract.Worker> | null = null
+  private progressListeners = new Map<string, { page?: number, onProgress: OcrProgressCallback }>()
+  private jobCounter = 0
 
-  constructor() {
-    this.initialize()
+  constructor(options: TesseractOcrProviderOptions = {}) {
+    this.languages = [...(options.languages ?? DEFAULT_OCR_LANGUAGES)]
+    this.workerCount = Math.max(1, options.workerCount ?? getDefaultWorkerCount())
+    this.reocrOptions = options.reocr ?? {}
+    this.pageSegMode = options.pageSegMode ?? null
+    this.assets = { ...options.assets }
+    this.initPromise = this.initialize()
   }
 
   private async initialize() {
     try {
-      // Create worker with English and French languages
-      this.worker = await createWorker('eng+fra', 1, {
-        logger: (m) => {
-          if (m.status === 'recognizing text') {
-            console.log(`OCR Progress: ${Math.round(m.progress * 100)}%`)
-          }
-        }
-      })
-      
+      const scheduler = createScheduler()
+      const workers = await Promise.all(
+        Array.from({ length: this.workerCount }, () =>
+          createWorker(toTesseractLanguages(this.languages), 1, {
+            ...this.assets,
+            logger: (m) => this.handleWorkerLog(m)
+          })
+        )
+      )
+      await Promise.all(workers.map(worker => this.configureWorker(worker)))
+      workers.forEach(worker => scheduler.addWorker(worker))
+
+      this.scheduler = scheduler
+      this.workers = workers
       this.isInitialized = true
-      console.log('Tesseract OCR initialized with English + French support')
+      this.initError = null
+      console.log(`Tesseract OCR initialized with ${workers.length} worker(s), languages: ${this.languages.join(', ')}`)
     } catch (error) {
-      console.error('Failed to initialize Tesseract worker:', error)
+      console.error('Failed to initialize Tesseract workers:', error)
       this.isInitialized = false
+      this.initError = error
     }
   }
 
+  /**
+   * Apply the configured recognition parameters; reinitializing a worker resets them
+   */
+  private async configureWorker(worker: Tesseract.Worker) {
+    if (this.pageSegMode !== null) {
+      await worker.setParameters({ tessedit_pageseg_mode: this.pageSegMode })
+    }
+  }
+
+  /**
+   * Forward recognition progress to the callback registered for the job
+   */
+  private handleWorkerLog(message: Tesseract.LoggerMessage) {
+    if (message.status !== 'recognizing text' || !message.userJobId) return
+
+    const listener = this.progressListeners.get(message.userJobId)
+    listener?.onProgress({
+      stage: 'recognizing',
+      page: listener.page,
+      percent: Math.round(message.progress * 100)
+    })
+  }
+
   getName(): string {
-    return 'Tesseract.js'
+    return this.pageSegMode === null ? 'Tesseract.js' : `Tesseract.js (psm ${this.pageSegMode})`
   }
 
   isAvailable(): boolean {
-    return this.isInitialized && this.worker !== null
+    return this.isInitialized && this.scheduler !== null
   }
 
-  async processImage(imageData: ImageData | HTMLCanvasElement | HTMLImageElement): Promise<OcrResult> {
-    if (!this.worker || !this.isInitialized) {
-      throw new Error('Tesseract worker not initialized')
+  getWorkerCount(): number {
+    return this.workerCount
+  }
+
+  /**
+   * Wait for the worker pool to finish initializing; starts a fresh pool after cancel()
+   */
+  async ready(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.termination.then(() => this.initialize())
+    }
+    await this.initPromise
+    if (!this.isAvailable()) {
+      const reason = this.initError instanceof Error ? this.initError.message : this.initError
+      throw new Error(reason ? `Tesseract worker not initialized: ${reason}` : 'Tesseract worker not initialized')
     }
+  }
+
+  getLanguages(): string[] {
+    return [...this.languages]
+  }
+
+  /**
+   * Reinitialize every worker in the pool with a different set of traineddata languages
+   */
+  async setLanguages(languages: string[]): Promise<void> {
+    await this.ready()
+    if (toTesseractLanguages(languages) === toTesseractLanguages(this.languages)) return
+
+    await Promise.all(this.workers.map(async worker => {
+      await worker.reinitialize(toTesseractLanguages(languages))
+      await this.configureWorker(worker)
+    }))
+    this.releaseLineWorker()
+    this.languages = [...languages]
+    console.log(`Tesseract OCR reinitialized with languages: ${languages.join(', ')}`)
+  }
+
+  /**
+   * Guess the menu language from a downscaled copy of the page, read once on a separate
+   * worker loaded with every supported language, so the pool keeps its own languages.
+   * Only the text matters here, so low-confidence lines are not re-read.
+   */
+  async detectLanguage(imageData: OcrImageInput, options: OcrProcessOptions = {}): Promise<string | null> {
+    const { signal, page, onProgress } = options
+    throwIfAborted(signal)
+
+    const image = await this.toRasterImage(imageData)
+    const scale = image ? Math.min(1, LANGUAGE_SAMPLE_SIZE / Math.max(image.width, image.height)) : 1
+    const sample = image ? await this.fromRasterImage(scale < 1 ? scaleImage(image, scale) : image) : imageData
+
+    const jobId = `mlmp-ocr-${++this.jobCounter}`
+    if (onProgress) {
+      this.progressListeners.set(jobId, { page, onProgress: event => onProgress({ ...event, stage: 'detecting-language' }) })
+      onProgress({ stage: 'detecting-language', page, percent: 0 })
+    }
+
+    const worker = createWorker(toTesseractLanguages(SUPPORTED_OCR_LANGUAGES.map(language => language.code)), 1, {
+      ...this.assets,
+      logger: (m) => this.handleWorkerLog(m)
+    })
+    try {
+      const job = worker.then(w => w.recognize(sample as Tesseract.ImageLike, {}, RECOGNIZE_OUTPUT, jobId))
+      const { lines } = buildOcrLayout((await abortable(job, signal)).data)
+      onProgress?.({ stage: 'detecting-language', page, percent: 100 })
+      return detectLanguageFromText(lines.map(line => line.text).join('\n'))
+    } finally {
+      this.progressListeners.delete(jobId)
+      worker.then(w => w.terminate())
+        .catch(error => console.error('Failed to terminate Tesseract language worker:', error))
+    }
+  }
+
+  /**
+   * Switch the pool to the languages selected for an upload.
+   * For 'auto', detects the language on the sample image (usually the first page)
+   * and returns it; falls back to the default languages when detection is inconclusive.
+   */
+  async applyLanguageSelection(
+    selection: OcrLanguageSelection,
+    sampleImage: OcrImageInput,
+    options: OcrProcessOptions = {}
+  ): Promise<string | null> {
+    if (selection !== 'auto') {
+      await this.setLanguages(selection)
+      return null
+    }
+
+    const detectedLanguage = await this.detectLanguage(sampleImage, options)
+    await this.setLanguages(detectedLanguage ? [detectedLanguage] : DEFAULT_OCR_LANGUAGES)
+    return detectedLanguage
+  }
+
+  /**
+   * Recognize an image on the next free worker. Calls can be made concurrently;
+   * jobs beyond the pool size wait in the scheduler queue.
+   */
+  async processImage(imageData: OcrImageInput, options: OcrProcessOptions = {}): Promise<OcrResult> {
+    const { signal, page, onProgress } = options
+    await abortable(this.ready(), signal)
 
     const startTime = Date.now()
     console.log('Starting OCR processing...')
 
+    // Our own job id travels with the worker's log messages, which is how progress finds its callback
+    const jobId = `mlmp-ocr-${++this.jobCounter}`
+    if (onProgress) {
+      this.progressListeners.set(jobId, { page, onProgress })
+      onProgress({ stage: 'recognizing', page, percent: 0 })
+    }
+
     try {
       console.log('Calling Tesseract recognize...')
-      const { data } = await this.worker.recognize(imageData)
+      const data = await this.recognize(imageData, signal, jobId)
       const processingTime = Date.now() - startTime
-      
+
       console.log(`OCR completed in ${processingTime}ms`)
       console.log(`OCR confidence: ${data.confidence}%`)
       console.log(`Found ${data.words?.length || 0} words, ${data.lines?.length || 0} lines`)
 
-      // Convert Tesseract result to our format
-      const lines: OcrLine[] = []
-      const words: OcrWord[] = []
-
-      // Process words first
-      if (data.words) {
-        for (const word of data.words) {
-          if (word.text.trim() && word.confidence > 0) {
-            const ocrWord: OcrWord = {
-              text: word.text,
-              bbox: {
-                x: word.bbox.x0,
-                y: word.bbox.y0,
-                w: word.bbox.x1 - word.bbox.x0,
-                h: word.bbox.y1 - word.bbox.y0
-              },
-              confidence: word.confidence / 100 // Convert to 0-1 scale
-            }
-            words.push(ocrWord)
-          }
-        }
-      }
-
-      // Group words into lines
-      const lineMap = new Map<string, OcrWord[]>()
-      
-      for (const word of words) {
-        // Group words by approximate y-coordinate (same line)
-        const lineKey = Math.round(word.bbox.y / 10) * 10 // Round to nearest 10px
-        if (!lineMap.has(lineKey.toString())) {
-          lineMap.set(lineKey.toString(), [])
-        }
-        lineMap.get(lineKey.toString())!.push(word)
-      }
-
-      // Create lines from grouped words
-      for (const [_, lineWords] of lineMap) {
-        if (lineWords.length === 0) continue
-
-        // Sort words by x-coordinate
-        lineWords.sort((a, b) => a.bbox.x - b.bbox.x)
-
-        // Calculate line bounding box
-        const minX = Math.min(...lineWords.map(w => w.bbox.x))
-        const minY = Math.min(...lineWords.map(w => w.bbox.y))
-        const maxX = Math.max(...lineWords.map(w => w.bbox.x + w.bbox.w))
-        const maxY = Math.max(...lineWords.map(w => w.bbox.y + w.bbox.h))
-
-        const lineText = lineWords.map(w => w.text).join(' ')
-        const avgConfidence = lineWords.reduce((sum, w) => sum + w.confidence, 0) / lineWords.length
-
-        const ocrLine: OcrLine = {
-          text: lineText,
-          bbox: {
-            x: minX,
-            y: minY,
-            w: maxX - minX,
-            h: maxY - minY
-          },
-          words: lineWords,
-          confidence: avgConfidence
-        }
-
-        lines.push(ocrLine)
-      }
-
-      // Sort lines by y-coordinate (top to bottom)
-      lines.sort((a, b) => a.bbox.y - b.bbox.y)
-
-      return {
+      // Convert Tesseract result to our format, keeping its block/paragraph/line layout
+      const { blocks, paragraphs, lines, words } = buildOcrLayout(data)
+      const result = await this.reocrLowConfidence(imageData, {
         lines,
         words,
+        blocks,
+        paragraphs,
         confidence: data.confidence / 100, // Convert to 0-1 scale
         processingTime
-      }
+      }, signal)
+
+      onProgress?.({ stage: 'recognizing', page, percent: 100 })
+
+      return result
     } catch (error) {
+      if (signal?.aborted) throw error
       console.error('OCR processing failed:', error)
       throw new Error(`OCR processing failed: ${error}`)
+    } finally {
+      this.progressListeners.delete(jobId)
+    }
+  }
+
+  /**
+   * Run one recognition job on the next free worker
+   */
+  private async recognize(imageData: OcrImageInput, signal?: AbortSignal, jobId = `mlmp-ocr-${++this.jobCounter}`): Promise<Tesseract.Page> {
+    // tesseract.js reads plain Uint8Array image bytes the same way as a Buffer
+    const job = this.scheduler!.addJob('recognize', imageData as Tesseract.ImageLike, {}, RECOGNIZE_OUTPUT, jobId)
+    const { data } = await abortable(job, signal, () => this.cancel())
+    return data
+  }
+
+  /**
+   * Find the clockwise rotation that turns a page upright. The direction of the text lines
+   * narrows it down to two candidates (all four when unclear); a downscaled copy is then read
+   * at each candidate and the reading with the best letter-ratio score wins.
+   */
+  async detectOrientation(image: RasterImage, options: OcrProcessOptions = {}): Promise<OrientationResult> {
+    const { signal } = options
+    await abortable(this.ready(), signal)
+
+    const scale = Math.min(1, ORIENTATION_SAMPLE_SIZE / Math.max(image.width, image.height))
+    const sample = scale < 1 ? scaleImage(image, scale) : image
+    const candidates = candidateRotations(estimateLineDirection(sample))
+    const scores: Partial<Record<PageRotation, number>> = {}
+
+    // Candidates are read in parallel on the pool
+    await Promise.all(candidates.map(async rotation => {
+      const input = await this.fromRasterImage(rotateQuarterTurns(sample, rotation))
+      const data = await this.recognize(input, signal)
+      scores[rotation] = scoreOrientationText(buildOcrLayout(data).words)
+    }))
+
+    // Ties keep the earlier candidate, so an unreadable page is left as it is
+    const rotation = candidates.reduce((best, candidate) => scores[candidate]! > scores[best]! ? candidate : best)
+    return { rotation, scores }
+  }
+
+  /**
+   * Re-read low-confidence lines on their own, cropped and upscaled, keeping the better reading
+   */
+  private async reocrLowConfidence(image: OcrImageInput, result: OcrResult, signal?: AbortSignal): Promise<OcrResult> {
+    if (this.reocrOptions === false) return result
+
+    const page = await this.toRasterImage(image)
+    if (!page) return result
+
+    // The first pass is already a full reading; a failed second pass shouldn't lose it
+    const reocr = await reocrLowConfidenceLines(result, page, async region => {
+      throwIfAborted(signal)
+      const worker = await abortable(this.getLineWorker(), signal)
+      const job = worker.recognize(await this.fromRasterImage(region) as Tesseract.ImageLike, {}, RECOGNIZE_OUTPUT)
+      const { data } = await abortable(job, signal, () => this.cancel())
+
+      const { words } = buildOcrLayout(data)
+      if (words.length === 0) return null
+      return {
+        text: words.map(word => word.text).join(' '),
+        bbox: { x: 0, y: 0, w: region.width, h: region.height },
+        words,
+        confidence: data.confidence / 100
+      }
+    }, this.reocrOptions).catch(error => {
+      if (signal?.aborted) throw error
+      console.warn('Re-OCR of low-confidence lines failed, keeping the first reading:', error)
+      return null
+    })
+    if (!reocr) return result
+
+    const { result: refined, report } = reocr
+    if (report.attempted > 0) {
+      console.log(`Re-OCR improved ${report.improved} of ${report.attempted} low-confidence lines`)
+    }
+    return refined
+  }
+
+  /**
+   * Worker for the re-OCR pass, set to treat every image as a single text line.
+   * Kept out of the scheduler pool so page jobs never run with that segmentation mode.
+   */
+  private getLineWorker(): Promise<Tesseract.Worker> {
+    if (!this.lineWorker) {
+      this.lineWorker = createWorker(toTesseractLanguages(this.languages), 1, this.assets).then(async worker => {
+        await worker.setParameters({ tessedit_pageseg_mode: PSM.SINGLE_LINE })
+        return worker
+      })
+      // Don't keep a failed start around; the next re-OCR pass tries again
+      const lineWorker = this.lineWorker
+      lineWorker.catch(() => {
+        if (this.lineWorker === lineWorker) this.lineWorker = null
+      })
     }
+    return this.lineWorker
+  }
+
+  private releaseLineWorker() {
+    const lineWorker = this.lineWorker
+    this.lineWorker = null
+    lineWorker?.then(worker => worker.terminate())
+      .catch(error => console.error('Failed to terminate Tesseract line worker:', error))
+  }
+
+  /**
+   * Pixels of an input image for cropping regions; null when the input can't be decoded here
+   */
+  protected async toRasterImage(image: OcrImageInput): Promise<RasterImage | null> {
+    if (image instanceof Uint8Array) return null
+    return toImageData(image)
+  }
+
+  /**
+   * Turn a cropped region back into something tesseract.js can read
+   */
+  protected async fromRasterImage(image: RasterImage): Promise<OcrImageInput> {
+    return imageDataToCanvas(image)
+  }
+
+  /**
+   * Stop all in-flight and queued recognition. Tesseract jobs can't be interrupted,
+   * so the workers are terminated; the next upload starts a fresh pool when it needs one.
+   */
+  cancel() {
+    this.releaseLineWorker()
+    if (!this.scheduler) return
+
+    console.log('Cancelling OCR: terminating Tesseract workers')
+    const scheduler = this.scheduler
+    this.scheduler = null
+    this.workers = []
+    this.isInitialized = false
+
+    this.initPromise = null
+    this.termination = scheduler.terminate()
+      .catch(error => console.error('Failed to terminate Tesseract workers:', error))
   }
 
   async destroy() {
-    if (this.worker) {
-      await this.worker.terminate()
-      this.worker = null
+    this.releaseLineWorker()
+    await this.initPromise
+    await this.termination
+    if (this.scheduler) {
+      await this.scheduler.terminate()
+      this.scheduler = null
+      this.workers = []
       this.isInitialized = false
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,45 @@
+/**
+ * Helpers for cancelling OCR work with an AbortSignal
+ */
+
+export function createAbortError(message: string = 'OCR cancelled'): DOMException {
+  return new DOMException(message, 'AbortError')
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined) {
+  if (signal?.aborted) {
+    throw createAbortError()
+  }
+}
+
+/**
+ * Settle with the promise, or reject with an AbortError as soon as the signal fires.
+ * `onAbort` runs once when the signal fires while the promise is still pending.
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined, onAbort?: () => void): Promise<T> {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.reject(createAbortError())
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      onAbort?.()
+      reject(createAbortError())
+    }
+
+    signal.addEventListener('abort', handleAbort, { once: true })
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', handleAbort)
+        resolve(value)
+      },
+      error => {
+        signal.removeEventListener('abort', handleAbort)
+        reject(error)
+      }
+    )
+  })
+}
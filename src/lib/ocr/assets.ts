@@ -0,0 +1,96 @@
+import { SUPPORTED_OCR_LANGUAGES } from './languages'
+
+/**
+ * Where tesseract.js loads its worker script, WASM core and traineddata from.
+ * Unset paths fall back to the jsDelivr CDN (browser) or the installed packages (Node).
+ */
+export interface TesseractAssetPaths {
+  workerPath?: string
+  corePath?: string // Directory holding the tesseract-core*.wasm.js builds
+  langPath?: string // Directory holding <lang>.traineddata.gz
+}
+
+/**
+ * Everything the browser needs to read a menu without network access
+ */
+export interface OcrAssetConfig {
+  pdfWorkerSrc: string
+  pdfStandardFontDataUrl: string
+  tesseract: TesseractAssetPaths
+}
+
+// Layout of the local asset directory, as written by `npm run ocr:assets`
+export const LOCAL_OCR_ASSET_FILES = {
+  pdfWorker: 'pdfjs/pdf.worker.min.mjs',
+  pdfStandardFonts: 'pdfjs/standard_fonts/',
+  tesseractWorker: 'tesseract/worker.min.js',
+  tesseractCore: 'tesseract/core',
+  tessdata: 'tessdata'
+} as const
+
+// Workers run the LSTM engine only, so just the LSTM core builds are loaded (with and without SIMD)
+export const TESSERACT_CORE_FILES = ['tesseract-core-lstm.wasm.js', 'tesseract-core-simd-lstm.wasm.js']
+
+/**
+ * Asset locations when the app serves them itself under `localBaseUrl`;
+ * null when it is unset and the CDNs are used
+ */
+export function getLocalOcrAssets(localBaseUrl: string | undefined): OcrAssetConfig | null {
+  if (!localBaseUrl) return null
+
+  const base = localBaseUrl.replace(/\/$/, '')
+  return {
+    pdfWorkerSrc: `${base}/${LOCAL_OCR_ASSET_FILES.pdfWorker}`,
+    pdfStandardFontDataUrl: `${base}/${LOCAL_OCR_ASSET_FILES.pdfStandardFonts}`,
+    tesseract: {
+      workerPath: `${base}/${LOCAL_OCR_ASSET_FILES.tesseractWorker}`,
+      corePath: `${base}/${LOCAL_OCR_ASSET_FILES.tesseractCore}`,
+      langPath: `${base}/${LOCAL_OCR_ASSET_FILES.tessdata}`
+    }
+  }
+}
+
+/**
+ * Files that must exist for the configured local paths. Every supported language is
+ * required, since automatic detection can switch to any of them.
+ */
+export function listRequiredOcrAssets(
+  tesseract: TesseractAssetPaths,
+  pdfWorkerSrc?: string,
+  languages: readonly string[] = SUPPORTED_OCR_LANGUAGES.map(language => language.code)
+): string[] {
+  const files: string[] = []
+  if (pdfWorkerSrc) files.push(pdfWorkerSrc)
+  if (tesseract.workerPath) files.push(tesseract.workerPath)
+  if (tesseract.corePath) {
+    files.push(...TESSERACT_CORE_FILES.map(file => `${tesseract.corePath!.replace(/\/$/, '')}/${file}`))
+  }
+  if (tesseract.langPath) {
+    files.push(...languages.map(language => `${tesseract.langPath!.replace(/\/$/, '')}/${language}.traineddata.gz`))
+  }
+  return files
+}
+
+/**
+ * Throw an error naming every missing asset, so a misconfigured offline install fails
+ * at startup instead of on the first upload
+ */
+export async function verifyOcrAssets(files: string[], exists: (file: string) => Promise<boolean>): Promise<void> {
+  const found = await Promise.all(files.map(file => exists(file).catch(() => false)))
+  const missing = files.filter((_, i) => !found[i])
+  if (missing.length > 0) {
+    throw new Error(
+      `Offline OCR assets are missing: ${missing.join(', ')}. ` +
+      'Run `npm run ocr:assets` to copy them into place, or unset the local asset path to use the CDN.'
+    )
+  }
+}
+
+/**
+ * Whether the app serves a file, checked with a HEAD request. SPA fallbacks answer
+ * unknown paths with index.html, so an HTML response counts as missing.
+ */
+export async function urlExists(url: string): Promise<boolean> {
+  const response = await fetch(url, { method: 'HEAD' })
+  return response.ok && !response.headers.get('content-type')?.includes('text/html')
+}
@@ -0,0 +1,109 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { OcrResult } from './OcrProvider'
+import type { OcrLanguageSelection } from './languages'
+import { formatPageRange } from '../pdf/pageRange'
+
+/**
+ * Bump when a provider change (engine version, re-OCR pass, layout conversion) makes
+ * cached results stale. Old entries are simply never matched again.
+ */
+export const OCR_CACHE_VERSION = 1
+
+export interface CachedOcr {
+  results: OcrResult[] // One per processed page, in page order, each with the rotation applied to it
+  ocrLanguages: string[]
+  detectedLanguage: string | null
+}
+
+/**
+ * Cache key for everything besides the file content that changes the OCR output
+ */
+export function getOcrCacheConfig(
+  providerName: string,
+  languages: OcrLanguageSelection,
+  preprocessSteps: string[],
+  autoRotate: boolean,
+  useTextLayer: boolean = false,
+  pages: number[] | null = null // PDF pages processed, when not all of them
+): string {
+  const languageKey = languages === 'auto' ? 'auto' : [...languages].sort().join('+')
+  const preprocessKey = preprocessSteps.length > 0 ? preprocessSteps.join('+') : 'none'
+  const rotateKey = autoRotate ? 'auto' : 'none'
+  // Only PDFs read with their text layer get the extra part, so existing entries stay valid
+  const textKey = useTextLayer ? '|text=pdf' : ''
+  const pagesKey = pages ? `|pages=${formatPageRange(pages)}` : ''
+  return `${providerName}|v${OCR_CACHE_VERSION}|lang=${languageKey}|pre=${preprocessKey}|rotate=${rotateKey}${textKey}${pagesKey}`
+}
+
+/**
+ * Look up cached OCR results for every page of a file.
+ * Returns null on a miss, or when the cached pages are incomplete.
+ *
+ * Rows written from the browser belong to the user who wrote them; rows written by the
+ * process route have no owner and are shared. A user's own complete set wins over the
+ * shared one. Pass `sharedOnly` with the service role client, which sees every user's rows.
+ */
+export async function loadCachedOcr(
+  client: SupabaseClient,
+  contentHash: string,
+  ocrConfig: string,
+  sharedOnly: boolean = false
+): Promise<CachedOcr | null> {
+  const { data, error } = await client
+    .from('mlmp_ocr_cache')
+    .select('page, result, ocr_languages, detected_language, created_by')
+    .eq('content_hash', contentHash)
+    .eq('ocr_config', ocrConfig)
+    .order('page', { ascending: true })
+
+  if (error) {
+    console.warn('Failed to read OCR cache:', error)
+    return null
+  }
+
+  const shared = (data ?? []).filter(row => !row.created_by)
+  const own = sharedOnly ? [] : (data ?? []).filter(row => row.created_by)
+  const rows = isCompletePageSet(own) ? own : shared
+  if (!isCompletePageSet(rows)) {
+    return null
+  }
+
+  return {
+    results: rows.map(row => row.result as OcrResult),
+    ocrLanguages: rows[0].ocr_languages,
+    detectedLanguage: rows[0].detected_language
+  }
+}
+
+function isCompletePageSet(rows: Array<{ page: number }>): boolean {
+  return rows.length > 0 && rows.every((row, i) => row.page === i + 1)
+}
+
+/**
+ * Store OCR results for every page of a file, replacing any earlier entry for the same config
+ * written by the same user (or, with the service role client, the shared entry).
+ * Failures are logged; the cache is never required for processing to succeed.
+ */
+export async function saveCachedOcr(
+  client: SupabaseClient,
+  contentHash: string,
+  ocrConfig: string,
+  cached: CachedOcr
+): Promise<void> {
+  const rows = cached.results.map((result, i) => ({
+    content_hash: contentHash,
+    ocr_config: ocrConfig,
+    page: i + 1,
+    result,
+    ocr_languages: cached.ocrLanguages,
+    detected_language: cached.detectedLanguage
+  }))
+
+  const { error } = await client
+    .from('mlmp_ocr_cache')
+    .upsert(rows, { onConflict: 'content_hash,ocr_config,page,created_by' })
+
+  if (error) {
+    console.warn('Failed to save OCR cache:', error)
+  }
+}
@@ -0,0 +1,212 @@
+import type { OcrResult, OcrLine, OcrWord, OcrBoundingBox } from './OcrProvider'
+import { replaceLines } from './lines'
+
+/**
+ * How the reading of a word is chosen when the passes disagree:
+ * - 'majority': the text most passes agree on, ties going to the most confident reading
+ * - 'confidence': the single most confident reading
+ */
+export type OcrMergeStrategy = 'majority' | 'confidence'
+
+export interface OcrMergeOptions {
+  strategy?: OcrMergeStrategy
+  minLineOverlap?: number // Vertical overlap (fraction of the shorter line) for two lines to be the same line
+  minWordOverlap?: number // Box IoU for two words to be readings of the same word
+  minExtraConfidence?: number // Words and lines only some passes found are added at or above this confidence
+}
+
+export interface OcrMergeReport {
+  wordsReplaced: number
+  wordsAdded: number
+  linesAdded: number
+}
+
+const DEFAULT_OPTIONS: Required<OcrMergeOptions> = {
+  strategy: 'majority',
+  minLineOverlap: 0.5,
+  minWordOverlap: 0.5,
+  minExtraConfidence: 0.7
+}
+
+/**
+ * Merge several OCR passes over the same page into one result.
+ *
+ * The most confident pass is the base and keeps its layout. Every other pass is aligned
+ * to it line by line: lines that overlap a base line vertically and horizontally are
+ * treated as readings of it, which also lines up passes that split a menu line in two.
+ * Within aligned lines, words whose boxes overlap are readings of the same word and one
+ * is picked per word. Confident words and lines that no base word or line covers are added.
+ *
+ * All results must use the same page coordinates. Returns a new result; the inputs are left untouched.
+ */
+export function mergeOcrResults(
+  results: OcrResult[],
+  options: OcrMergeOptions = {}
+): { result: OcrResult, report: OcrMergeReport } {
+  if (results.length === 0) {
+    throw new Error('No OCR results to merge')
+  }
+
+  const config = { ...DEFAULT_OPTIONS, ...options }
+  const report: OcrMergeReport = { wordsReplaced: 0, wordsAdded: 0, linesAdded: 0 }
+  const baseIndex = results.reduce((best, result, i) => result.confidence > results[best].confidence ? i : best, 0)
+  const base = results[baseIndex]
+  const others = results.filter((_, i) => i !== baseIndex)
+  if (others.length === 0) return { result: base, report }
+
+  const readingLines = new Map<OcrLine, ReadingLine>()
+  const extraLines: OcrLine[] = []
+
+  for (const other of others) {
+    const unmatched = new Set(other.lines)
+
+    for (const line of base.lines) {
+      const aligned = other.lines.filter(candidate => linesOverlap(line, candidate, config.minLineOverlap))
+      if (aligned.length === 0) continue
+      aligned.forEach(candidate => unmatched.delete(candidate))
+
+      const readingLine = readingLines.get(line) ?? { ...line, words: line.words.map(word => ({ ...word, readings: [word] })) }
+      addReadings(readingLine, aligned.flatMap(candidate => candidate.words), config, report)
+      readingLines.set(line, readingLine)
+    }
+
+    for (const line of unmatched) {
+      if (line.confidence < config.minExtraConfidence || line.words.length === 0) continue
+      if ([...base.lines, ...extraLines].some(existing => linesOverlap(existing, line, config.minLineOverlap))) continue
+
+      // Layout indices refer to the other pass's blocks, so the added line stands on its own
+      const { blockIndex: _block, paragraphIndex: _paragraph, ...standalone } = line
+      extraLines.push(standalone)
+      report.linesAdded++
+    }
+  }
+
+  const replacements = new Map<OcrLine, OcrLine>()
+  for (const [line, readingLine] of readingLines) {
+    replacements.set(line, resolveLine(readingLine, line, config.strategy, report))
+  }
+
+  const merged = replaceLines(base, replacements)
+  const lines = [...merged.lines, ...extraLines]
+  const words = lines.flatMap(line => line.words)
+
+  return {
+    result: {
+      ...merged,
+      lines,
+      words,
+      confidence: words.length > 0
+        ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+        : base.confidence,
+      processingTime: Math.max(...results.map(result => result.processingTime))
+    },
+    report
+  }
+}
+
+interface ReadingWord extends OcrWord {
+  readings: OcrWord[]
+}
+
+interface ReadingLine extends OcrLine {
+  words: ReadingWord[]
+}
+
+/**
+ * Attach the words of another pass to the base words they overlap; confident
+ * words that fall between base words become words of their own
+ */
+function addReadings(line: ReadingLine, candidates: OcrWord[], config: Required<OcrMergeOptions>, report: OcrMergeReport) {
+  for (const candidate of candidates) {
+    let best: ReadingWord | null = null
+    let bestOverlap = 0
+    for (const word of line.words) {
+      const overlap = boxIoU(word.bbox, candidate.bbox)
+      if (overlap > bestOverlap) {
+        best = word
+        bestOverlap = overlap
+      }
+    }
+
+    if (best && bestOverlap >= config.minWordOverlap) {
+      best.readings.push(candidate)
+    } else if (
+      candidate.confidence >= config.minExtraConfidence &&
+      !line.words.some(word => intersectionArea(word.bbox, candidate.bbox) > 0)
+    ) {
+      line.words.push({ ...candidate, readings: [candidate] })
+      report.wordsAdded++
+    }
+  }
+}
+
+/**
+ * Pick a reading per word and turn the line back into a plain OcrLine
+ */
+function resolveLine(line: ReadingLine, original: OcrLine, strategy: OcrMergeStrategy, report: OcrMergeReport): OcrLine {
+  const words = line.words
+    .map(word => {
+      const reading = pickReading(word.readings, strategy)
+      if (reading.text !== word.readings[0].text) report.wordsReplaced++
+      return { text: reading.text, bbox: reading.bbox, confidence: reading.confidence }
+    })
+    .sort((a, b) => a.bbox.x - b.bbox.x)
+
+  const changed = words.length !== original.words.length ||
+    words.some((word, i) => word.text !== original.words[i].text)
+  if (!changed) return original
+
+  return {
+    ...original,
+    text: words.map(word => word.text).join(' '),
+    words,
+    confidence: words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+  }
+}
+
+/**
+ * Choose one of the readings of a word. The base reading comes first and wins ties.
+ */
+export function pickReading(readings: OcrWord[], strategy: OcrMergeStrategy = 'majority'): OcrWord {
+  const mostConfident = (words: OcrWord[]) => words.reduce((best, word) => word.confidence > best.confidence ? word : best)
+  if (strategy === 'confidence') return mostConfident(readings)
+
+  const byText = new Map<string, OcrWord[]>()
+  for (const reading of readings) {
+    byText.set(reading.text, [...(byText.get(reading.text) ?? []), reading])
+  }
+
+  let winner: OcrWord[] = []
+  for (const group of byText.values()) {
+    if (
+      group.length > winner.length ||
+      (group.length === winner.length && mostConfident(group).confidence > mostConfident(winner).confidence)
+    ) {
+      winner = group
+    }
+  }
+  return mostConfident(winner)
+}
+
+/**
+ * Two lines are readings of the same line when they overlap horizontally and share
+ * most of the shorter line's height
+ */
+function linesOverlap(a: OcrLine, b: OcrLine, minOverlap: number): boolean {
+  const horizontal = Math.min(a.bbox.x + a.bbox.w, b.bbox.x + b.bbox.w) - Math.max(a.bbox.x, b.bbox.x)
+  const vertical = Math.min(a.bbox.y + a.bbox.h, b.bbox.y + b.bbox.h) - Math.max(a.bbox.y, b.bbox.y)
+  const shorter = Math.min(a.bbox.h, b.bbox.h)
+  return horizontal > 0 && shorter > 0 && vertical / shorter >= minOverlap
+}
+
+function intersectionArea(a: OcrBoundingBox, b: OcrBoundingBox): number {
+  const w = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x)
+  const h = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y)
+  return w > 0 && h > 0 ? w * h : 0
+}
+
+function boxIoU(a: OcrBoundingBox, b: OcrBoundingBox): number {
+  const intersection = intersectionArea(a, b)
+  if (intersection === 0) return 0
+  return intersection / (a.w * a.h + b.w * b.h - intersection)
+}
@@ -0,0 +1,112 @@
+import type { OcrBoundingBox, OcrPageGeometry, OcrPageTransform } from './OcrProvider'
+import { isPageRotation, rotateBox } from '../preprocess/orientation'
+
+/**
+ * Smallest box containing all the given boxes
+ */
+export function unionBoundingBoxes(boxes: OcrBoundingBox[]): OcrBoundingBox {
+  const minX = Math.min(...boxes.map(b => b.x))
+  const minY = Math.min(...boxes.map(b => b.y))
+  const maxX = Math.max(...boxes.map(b => b.x + b.w))
+  const maxY = Math.max(...boxes.map(b => b.y + b.h))
+
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY }
+}
+
+/**
+ * Box as fractions (0-1) of the page as uploaded or rendered, so it can be compared
+ * across menus and mapped onto any rendering of the page. Boxes on a rotated or
+ * preprocessed page are mapped back through the page's transform first.
+ */
+export function normalizeBoundingBox(box: OcrBoundingBox, page: OcrPageGeometry): OcrBoundingBox {
+  const source = page.transform ? toSourceBoundingBox(box, page.transform) : box
+  const width = page.transform?.width ?? page.width
+  const height = page.transform?.height ?? page.height
+  const round = (value: number) => Math.round(value * 1e6) / 1e6
+  return {
+    x: round(source.x / width),
+    y: round(source.y / height),
+    w: round(source.w / width),
+    h: round(source.h / height)
+  }
+}
+
+/**
+ * Pixel box on a width x height rendering of the page, from a normalized box
+ */
+export function denormalizeBoundingBox(box: OcrBoundingBox, width: number, height: number): OcrBoundingBox {
+  return {
+    x: box.x * width,
+    y: box.y * height,
+    w: box.w * width,
+    h: box.h * height
+  }
+}
+
+/**
+ * Box on the page as uploaded or rendered, from a box on the recognized image.
+ * A deskewed box grows to the axis-aligned box around its rotated corners.
+ */
+export function toSourceBoundingBox(box: OcrBoundingBox, transform: OcrPageTransform): OcrBoundingBox {
+  const { uprightWidth, uprightHeight, rotation } = uprightSize(transform)
+
+  // Undo the upscale, then the crop
+  let result: OcrBoundingBox = {
+    x: box.x / transform.scale + (transform.crop?.x ?? 0),
+    y: box.y / transform.scale + (transform.crop?.y ?? 0),
+    w: box.w / transform.scale,
+    h: box.h / transform.scale
+  }
+
+  // Deskew sampled each output pixel from the upright page rotated by the skew angle
+  if (transform.skew) {
+    result = rotateAroundCentre(result, transform.skew, uprightWidth, uprightHeight)
+  }
+
+  return rotateBox(result, ((360 - rotation) % 360) as typeof rotation, uprightWidth, uprightHeight)
+}
+
+/**
+ * Box on the recognized image, from a box on the page as uploaded or rendered
+ */
+export function fromSourceBoundingBox(box: OcrBoundingBox, transform: OcrPageTransform): OcrBoundingBox {
+  const { uprightWidth, uprightHeight, rotation } = uprightSize(transform)
+
+  let result = rotateBox(box, rotation, transform.width, transform.height)
+  if (transform.skew) {
+    result = rotateAroundCentre(result, -transform.skew, uprightWidth, uprightHeight)
+  }
+
+  return {
+    x: (result.x - (transform.crop?.x ?? 0)) * transform.scale,
+    y: (result.y - (transform.crop?.y ?? 0)) * transform.scale,
+    w: result.w * transform.scale,
+    h: result.h * transform.scale
+  }
+}
+
+function uprightSize(transform: OcrPageTransform) {
+  const rotation = isPageRotation(transform.rotation) ? transform.rotation : 0
+  const turned = rotation % 180 !== 0
+  return {
+    rotation,
+    uprightWidth: turned ? transform.height : transform.width,
+    uprightHeight: turned ? transform.width : transform.height
+  }
+}
+
+// Same mapping as the deskew rotation (see rotate() in preprocess/steps), applied to the box's corners
+function rotateAroundCentre(box: OcrBoundingBox, angle: number, width: number, height: number): OcrBoundingBox {
+  const radians = angle * Math.PI / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  const cx = width / 2
+  const cy = height / 2
+
+  const corners = [[box.x, box.y], [box.x + box.w, box.y], [box.x, box.y + box.h], [box.x + box.w, box.y + box.h]]
+    .map(([x, y]) => [cx + (x - cx) * cos - (y - cy) * sin, cy + (x - cx) * sin + (y - cy) * cos])
+  const xs = corners.map(([x]) => x)
+  const ys = corners.map(([, y]) => y)
+
+  return { x: Math.min(...xs), y: Math.min(...ys), w: Math.max(...xs) - Math.min(...xs), h: Math.max(...ys) - Math.min(...ys) }
+}
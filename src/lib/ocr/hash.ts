@@ -0,0 +1,41 @@
+/**
+ * Content hashing helpers used to key OCR results by what was recognized
+ */
+
+import type { OcrImageInput } from './OcrProvider'
+import { toImageData } from './imageData'
+
+/**
+ * Compute a hex-encoded SHA-256 digest of raw bytes
+ */
+export async function sha256Hex(bytes: ArrayBuffer | Uint8Array | Uint8ClampedArray): Promise<string> {
+  const subtle = globalThis.crypto?.subtle
+  if (!subtle) {
+    throw new Error('SHA-256 hashing requires the Web Crypto API')
+  }
+
+  const view = bytes instanceof ArrayBuffer ? bytes : new Uint8Array(bytes)
+  const digest = await subtle.digest('SHA-256', view)
+
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Hash the pixel content of an image passed to an OCR provider.
+ * Width and height are included so identical buffers with different shapes don't collide.
+ * Encoded image bytes are hashed as-is.
+ */
+export async function hashImageContent(imageData: OcrImageInput): Promise<string> {
+  if (imageData instanceof Uint8Array) {
+    return sha256Hex(imageData)
+  }
+
+  const pixels = toImageData(imageData)
+  const header = new TextEncoder().encode(`${pixels.width}x${pixels.height}:`)
+  const bytes = new Uint8Array(header.length + pixels.data.length)
+  bytes.set(header, 0)
+  bytes.set(pixels.data, header.length)
+  return sha256Hex(bytes)
+}
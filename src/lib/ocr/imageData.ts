@@ -0,0 +1,58 @@
+/**
+ * Conversions between the DOM image sources accepted by OcrProvider.processImage
+ */
+
+/**
+ * Read the pixels out of any image source accepted by OcrProvider.processImage
+ */
+export function toImageData(source: ImageData | HTMLCanvasElement | HTMLImageElement): ImageData {
+  if ('data' in source) {
+    return source
+  }
+
+  const canvas = source instanceof HTMLCanvasElement ? source : document.createElement('canvas')
+  if (!(source instanceof HTMLCanvasElement)) {
+    canvas.width = source.naturalWidth || source.width
+    canvas.height = source.naturalHeight || source.height
+  }
+
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Failed to get canvas context')
+  }
+  if (!(source instanceof HTMLCanvasElement)) {
+    context.drawImage(source, 0, 0)
+  }
+
+  return context.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+/**
+ * Draw raw pixels onto a new canvas. The browser build of tesseract.js reads canvases
+ * but not ImageData, so preprocessed pixels are handed over this way.
+ */
+export function imageDataToCanvas(image: { data: Uint8ClampedArray, width: number, height: number }): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Failed to get canvas context')
+  }
+
+  context.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0)
+  return canvas
+}
+
+/**
+ * Snapshot a canvas as a loaded image, e.g. to keep a page for display after its canvas is reused
+ */
+export function canvasToImage(canvas: HTMLCanvasElement, type: string = 'image/png', quality?: number): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = reject
+    image.src = canvas.toDataURL(type, quality)
+  })
+}
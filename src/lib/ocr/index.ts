@@ -1,14 +1,73 @@
 import { TesseractOcrProvider } from './TesseractOcrProvider'
-import type { OcrProvider, OcrResult, OcrLine, OcrWord, OcrBoundingBox } from './OcrProvider'
+import { FixtureOcrProvider } from './FixtureOcrProvider'
+import { EnsembleOcrProvider } from './EnsembleOcrProvider'
+import { PSM } from 'tesseract.js'
+import type {
+  OcrProvider,
+  OcrResult,
+  OcrLine,
+  OcrWord,
+  OcrBoundingBox,
+  OcrPageGeometry,
+  OcrPageTransform,
+  OcrFont,
+  OcrProcessOptions,
+  OcrProgressStage,
+  OcrProgressEvent,
+  OcrProgressCallback,
+  OrientationResult
+} from './OcrProvider'
+import type { OcrFixtureSet, FixtureOcrProviderOptions } from './FixtureOcrProvider'
+import type { TesseractOcrProviderOptions } from './TesseractOcrProvider'
+import type { EnsembleMember, EnsembleOcrProviderOptions } from './EnsembleOcrProvider'
 
-export { TesseractOcrProvider }
-export type { OcrProvider, OcrResult, OcrLine, OcrWord, OcrBoundingBox }
+export { TesseractOcrProvider, FixtureOcrProvider, EnsembleOcrProvider }
+export { sha256Hex, hashImageContent } from './hash'
+export {
+  SUPPORTED_OCR_LANGUAGES,
+  DEFAULT_OCR_LANGUAGES,
+  isSupportedOcrLanguage,
+  parseOcrLanguageSelection,
+  detectLanguageFromText
+} from './languages'
+export type { OcrLanguageOption, OcrLanguageSelection } from './languages'
+export { createAbortError, isAbortError } from './abort'
+export { OcrProgressTracker, OCR_STAGE_LABELS } from './progress'
+export type { OcrPageProgress } from './progress'
+export { findLowConfidenceLines, reocrLowConfidenceLines } from './reocr'
+export { mergeOcrResults, pickReading } from './ensemble'
+export type { OcrMergeStrategy, OcrMergeOptions, OcrMergeReport } from './ensemble'
+export { OCR_CACHE_VERSION, getOcrCacheConfig, loadCachedOcr, saveCachedOcr } from './cache'
+export { getLocalOcrAssets, listRequiredOcrAssets, verifyOcrAssets, urlExists } from './assets'
+export type { TesseractAssetPaths, OcrAssetConfig } from './assets'
+export type { CachedOcr } from './cache'
+export type { LowConfidenceReocrOptions, LowConfidenceReocrReport, LineRecognizer } from './reocr'
+export type { OcrProvider, OcrResult, OcrLine, OcrWord, OcrBoundingBox, OcrPageGeometry, OcrPageTransform, OcrFont, OcrProcessOptions }
+export type { OcrProgressStage, OcrProgressEvent, OcrProgressCallback, OrientationResult }
+export type { OcrFixtureSet, FixtureOcrProviderOptions, TesseractOcrProviderOptions }
+export type { EnsembleMember, EnsembleOcrProviderOptions }
 
 // Factory function to create OCR provider based on configuration
-export const createOcrProvider = (providerType: string = 'tesseract'): OcrProvider => {
+export const createOcrProvider = (
+  providerType: string = 'tesseract',
+  fixtures?: OcrFixtureSet,
+  tesseractOptions?: TesseractOcrProviderOptions
+): OcrProvider => {
   switch (providerType.toLowerCase()) {
     case 'tesseract':
-      return new TesseractOcrProvider()
+      return new TesseractOcrProvider(tesseractOptions)
+    case 'ensemble':
+      // Automatic layout analysis plus sparse text, which finds prices and items set apart from the columns
+      return new EnsembleOcrProvider({
+        members: [
+          new TesseractOcrProvider(tesseractOptions),
+          new TesseractOcrProvider({ ...tesseractOptions, pageSegMode: PSM.SPARSE_TEXT })
+        ]
+      })
+    case 'fixture':
+      return new FixtureOcrProvider({ mode: 'replay', fixtures })
+    case 'fixture-record':
+      return new FixtureOcrProvider({ mode: 'record', fixtures, recorder: new TesseractOcrProvider(tesseractOptions) })
     default:
       throw new Error(`Unsupported OCR provider: ${providerType}`)
   }
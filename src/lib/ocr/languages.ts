@@ -0,0 +1,105 @@
+/**
+ * OCR language selection and lightweight menu language detection
+ */
+
+export interface OcrLanguageOption {
+  code: string // Tesseract traineddata code
+  label: string
+}
+
+export const SUPPORTED_OCR_LANGUAGES: OcrLanguageOption[] = [
+  { code: 'eng', label: 'English' },
+  { code: 'fra', label: 'French' },
+  { code: 'spa', label: 'Spanish' },
+  { code: 'ita', label: 'Italian' },
+  { code: 'deu', label: 'German' },
+  { code: 'por', label: 'Portuguese' }
+]
+
+export const DEFAULT_OCR_LANGUAGES = ['eng', 'fra']
+
+// 'auto' runs a detection pass with every supported language first
+export type OcrLanguageSelection = 'auto' | string[]
+
+// Function words and common menu vocabulary that are distinctive per language
+const LANGUAGE_MARKERS: Record<string, string[]> = {
+  eng: ['the', 'and', 'with', 'of', 'served', 'fresh', 'grilled', 'chicken', 'beef', 'sauce', 'side'],
+  fra: ['le', 'les', 'et', 'avec', 'du', 'des', 'aux', 'au', 'poulet', 'boeuf', 'servi', 'frites'],
+  spa: ['el', 'los', 'las', 'con', 'y', 'del', 'pollo', 'carne', 'salsa', 'queso', 'plancha'],
+  ita: ['il', 'gli', 'con', 'e', 'di', 'al', 'alla', 'della', 'pollo', 'manzo', 'formaggio'],
+  deu: ['der', 'die', 'das', 'und', 'mit', 'vom', 'auf', 'hähnchen', 'rind', 'soße', 'sauce', 'kartoffeln'],
+  por: ['o', 'os', 'com', 'e', 'do', 'da', 'dos', 'frango', 'carne', 'molho', 'queijo']
+}
+
+// Characters that only (or almost only) appear in one of the supported languages
+const LANGUAGE_CHARACTERS: Record<string, RegExp> = {
+  spa: /[ñ¿¡]/g,
+  deu: /[ßäöü]/g,
+  por: /[ãõ]/g,
+  fra: /[œêëîïûù]/g,
+  ita: /[ìò]/g
+}
+
+/**
+ * Check if a code is one of the languages we ship traineddata for
+ */
+export function isSupportedOcrLanguage(code: string): boolean {
+  return SUPPORTED_OCR_LANGUAGES.some(language => language.code === code)
+}
+
+/**
+ * Parse a language selection from a form field or query value,
+ * e.g. "auto", "spa", "eng,deu" or ["ita", "eng"]. Returns null for unsupported codes.
+ */
+export function parseOcrLanguageSelection(input: string | string[] | null | undefined): OcrLanguageSelection | null {
+  if (input === null || input === undefined || input === '') {
+    return [...DEFAULT_OCR_LANGUAGES]
+  }
+
+  const codes = (Array.isArray(input) ? input : input.split(/[,+\s]+/))
+    .map(code => code.trim().toLowerCase())
+    .filter(Boolean)
+
+  if (codes.length === 1 && codes[0] === 'auto') {
+    return 'auto'
+  }
+
+  if (codes.length === 0 || !codes.every(isSupportedOcrLanguage)) {
+    return null
+  }
+
+  return Array.from(new Set(codes))
+}
+
+/**
+ * Format languages the way Tesseract expects them ("eng+fra")
+ */
+export function toTesseractLanguages(languages: string[]): string {
+  return languages.join('+')
+}
+
+/**
+ * Guess the main language of OCR text by counting language marker words and characters.
+ * Returns null when there is not enough signal to decide.
+ */
+export function detectLanguageFromText(text: string): string | null {
+  const tokens = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean)
+  if (tokens.length === 0) return null
+
+  const scores: Record<string, number> = {}
+
+  for (const [code, markers] of Object.entries(LANGUAGE_MARKERS)) {
+    scores[code] = tokens.filter(token => markers.includes(token)).length
+  }
+
+  for (const [code, pattern] of Object.entries(LANGUAGE_CHARACTERS)) {
+    scores[code] += (text.toLowerCase().match(pattern) || []).length
+  }
+
+  const [best, runnerUp] = Object.entries(scores).sort((a, b) => b[1] - a[1])
+  if (best[1] < 2 || best[1] === runnerUp[1]) {
+    return null
+  }
+
+  return best[0]
+}
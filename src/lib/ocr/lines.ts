@@ -0,0 +1,34 @@
+import type { OcrResult, OcrLine, OcrParagraph, OcrBlock } from './OcrProvider'
+
+/**
+ * Swap replaced lines into the flat line list and the block/paragraph layout.
+ * Returns a new result; the input is left untouched.
+ */
+export function replaceLines(result: OcrResult, replacements: Map<OcrLine, OcrLine>): OcrResult {
+  const lines = result.lines.map(line => replacements.get(line) ?? line)
+  const paragraphMap = new Map<OcrParagraph, OcrParagraph>()
+
+  const paragraphs = result.paragraphs?.map(paragraph => {
+    if (!paragraph.lines.some(line => replacements.has(line))) return paragraph
+
+    const paragraphLines = paragraph.lines.map(line => replacements.get(line) ?? line)
+    const updated = { ...paragraph, lines: paragraphLines, text: paragraphLines.map(l => l.text).join('\n') }
+    paragraphMap.set(paragraph, updated)
+    return updated
+  })
+
+  const blocks = result.blocks?.map((block): OcrBlock => {
+    if (!block.paragraphs.some(paragraph => paragraphMap.has(paragraph))) return block
+
+    const blockParagraphs = block.paragraphs.map(paragraph => paragraphMap.get(paragraph) ?? paragraph)
+    return { ...block, paragraphs: blockParagraphs, text: blockParagraphs.map(p => p.text).join('\n\n') }
+  })
+
+  return {
+    ...result,
+    lines,
+    words: lines.flatMap(line => line.words),
+    paragraphs,
+    blocks
+  }
+}
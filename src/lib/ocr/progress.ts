@@ -0,0 +1,92 @@
+import type { OcrProgressEvent, OcrProgressStage } from './OcrProvider'
+
+export interface OcrPageProgress {
+  page: number
+  stage: OcrProgressStage | 'pending'
+  percent: number // 0-100 within the current stage
+}
+
+// Share of a page's total work each stage covers, as [start, end] percent
+const PAGE_STAGE_RANGES: Partial<Record<OcrProgressStage, [number, number]>> = {
+  'preprocessing': [0, 10],
+  'detecting-language': [10, 20],
+  'recognizing': [20, 90],
+  'extracting': [90, 100]
+}
+
+export const OCR_STAGE_LABELS: Record<OcrProgressStage | 'pending', string> = {
+  'pending': 'Waiting',
+  'rasterizing': 'Rendering pages',
+  'preprocessing': 'Preprocessing',
+  'detecting-language': 'Detecting language',
+  'recognizing': 'Recognizing text',
+  'extracting': 'Extracting candidates'
+}
+
+/**
+ * Folds progress events into per-page state and an overall percentage for the document
+ */
+export class OcrProgressTracker {
+  private pages: OcrPageProgress[] = []
+
+  constructor(pageCount: number = 0) {
+    this.setPageCount(pageCount)
+  }
+
+  setPageCount(pageCount: number) {
+    this.pages = Array.from({ length: pageCount }, (_, i) =>
+      this.pages[i] ?? { page: i + 1, stage: 'pending' as const, percent: 0 }
+    )
+  }
+
+  update(event: OcrProgressEvent) {
+    // Whole-document stages (rasterizing) happen before pages exist
+    if (event.page === undefined) return
+
+    if (event.page > this.pages.length) {
+      this.setPageCount(event.page)
+    }
+
+    const page = this.pages[event.page - 1]
+    const current = page.stage === 'pending' ? undefined : PAGE_STAGE_RANGES[page.stage]
+    const next = PAGE_STAGE_RANGES[event.stage]
+
+    // Late events from an earlier stage (e.g. worker log messages) must not move a page backwards
+    if (current && next && next[0] < current[0]) return
+
+    page.stage = event.stage
+    page.percent = Math.max(0, Math.min(100, event.percent))
+  }
+
+  getPages(): OcrPageProgress[] {
+    return this.pages.map(page => ({ ...page }))
+  }
+
+  /**
+   * Average completion over all pages, 0-100
+   */
+  getOverallPercent(): number {
+    if (this.pages.length === 0) return 0
+
+    const total = this.pages.reduce((sum, page) => {
+      const range = page.stage === 'pending' ? undefined : PAGE_STAGE_RANGES[page.stage]
+      if (!range) return sum
+      return sum + range[0] + (range[1] - range[0]) * page.percent / 100
+    }, 0)
+
+    return total / this.pages.length
+  }
+
+  /**
+   * Short status line for the most recent event
+   */
+  describe(event: OcrProgressEvent): string {
+    const label = OCR_STAGE_LABELS[event.stage]
+    if (event.page === undefined) {
+      return `${label}...`
+    }
+    return this.pages.length > 1
+      ? `${label}: page ${event.page} of ${this.pages.length} (${Math.round(event.percent)}%)`
+      : `${label} (${Math.round(event.percent)}%)`
+  }
+}
@@ -0,0 +1,118 @@
+import type { OcrResult, OcrLine } from './OcrProvider'
+import { replaceLines } from './lines'
+import { crop, scaleImage, type RasterImage } from '../preprocess/steps'
+
+export interface LowConfidenceReocrOptions {
+  threshold?: number // Lines with a line or word confidence (0-1) below this are re-read
+  targetLineHeight?: number // Crops are upscaled so the line is about this tall (px)
+  maxUpscale?: number
+  maxRegions?: number // Re-read at most this many lines per page, lowest confidence first
+}
+
+/**
+ * Reads one cropped line image. Word boxes are relative to the crop.
+ * Returns null when nothing was recognized.
+ */
+export type LineRecognizer = (region: RasterImage) => Promise<OcrLine | null>
+
+export interface LowConfidenceReocrReport {
+  attempted: number
+  improved: number
+}
+
+const DEFAULT_OPTIONS: Required<LowConfidenceReocrOptions> = {
+  threshold: 0.6,
+  targetLineHeight: 48,
+  maxUpscale: 4,
+  maxRegions: 40
+}
+
+// Lines shorter than this are specks or rules, not text worth a second pass
+const MIN_LINE_HEIGHT = 6
+
+/**
+ * Lines worth a second OCR pass, lowest confidence first
+ */
+export function findLowConfidenceLines(lines: OcrLine[], threshold: number = DEFAULT_OPTIONS.threshold): OcrLine[] {
+  return lines
+    .filter(line =>
+      line.bbox.h >= MIN_LINE_HEIGHT &&
+      (line.confidence < threshold || line.words.some(word => word.confidence < threshold))
+    )
+    .sort((a, b) => lineScore(a) - lineScore(b))
+}
+
+/**
+ * Score used to compare two readings of the same line: mean word confidence,
+ * so a single garbled word drags the line down as much as it does for candidates.
+ */
+export function lineScore(line: OcrLine): number {
+  if (line.words.length === 0) return line.confidence
+  return line.words.reduce((sum, word) => sum + word.confidence, 0) / line.words.length
+}
+
+/**
+ * Second OCR pass over low-confidence lines: crop each line out of the page image,
+ * upscale it, re-read it as a single line and keep whichever reading scores higher.
+ * Returns a new result; the input is left untouched.
+ */
+export async function reocrLowConfidenceLines(
+  result: OcrResult,
+  page: RasterImage,
+  recognizeLine: LineRecognizer,
+  options: LowConfidenceReocrOptions = {}
+): Promise<{ result: OcrResult, report: LowConfidenceReocrReport }> {
+  const config = { ...DEFAULT_OPTIONS, ...options }
+  const targets = findLowConfidenceLines(result.lines, config.threshold).slice(0, config.maxRegions)
+  const replacements = new Map<OcrLine, OcrLine>()
+
+  for (const line of targets) {
+    const padding = Math.max(2, Math.round(line.bbox.h * 0.25))
+    const box = clampBox(
+      line.bbox.x - padding,
+      line.bbox.y - padding,
+      line.bbox.w + padding * 2,
+      line.bbox.h + padding * 2,
+      page
+    )
+    if (!box) continue
+
+    const scale = Math.min(config.maxUpscale, Math.max(1, config.targetLineHeight / line.bbox.h))
+    const region = scale > 1 ? scaleImage(crop(page, box), scale) : crop(page, box)
+
+    const reading = await recognizeLine(region)
+    if (!reading || reading.words.length === 0 || lineScore(reading) <= lineScore(line)) continue
+
+    // Map word boxes from the scaled crop back to page coordinates
+    const words = reading.words.map(word => ({
+      ...word,
+      bbox: {
+        x: Math.round(box.x + word.bbox.x / scale),
+        y: Math.round(box.y + word.bbox.y / scale),
+        w: Math.round(word.bbox.w / scale),
+        h: Math.round(word.bbox.h / scale)
+      }
+    }))
+
+    replacements.set(line, {
+      ...line,
+      text: words.map(word => word.text).join(' '),
+      words,
+      confidence: reading.confidence
+    })
+  }
+
+  return {
+    result: replacements.size > 0 ? replaceLines(result, replacements) : result,
+    report: { attempted: targets.length, improved: replacements.size }
+  }
+}
+
+function clampBox(x: number, y: number, w: number, h: number, page: RasterImage) {
+  const x0 = Math.max(0, Math.floor(x))
+  const y0 = Math.max(0, Math.floor(y))
+  const x1 = Math.min(page.width, Math.ceil(x + w))
+  const y1 = Math.min(page.height, Math.ceil(y + h))
+  if (x1 - x0 < 1 || y1 - y0 < 1) return null
+  return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 }
+}
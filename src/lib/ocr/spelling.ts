@@ -0,0 +1,261 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { OcrResult, OcrLine, OcrWord } from './OcrProvider'
+import { replaceLines } from './lines'
+import { COMMON_VOCABULARY } from '../ml/features'
+
+/**
+ * Words of known dish names, with how many vocabulary entries use each word
+ */
+export interface CulinaryLexicon {
+  words: Map<string, number>
+  byLength: Map<number, string[]> // The same words bucketed by length, so a lookup only compares plausible ones
+}
+
+export interface SpellingCorrectionOptions {
+  maxConfidence?: number // Words read at or above this confidence (0-1) are left alone
+  maxEdits?: number // Never change a word by more than this many edits
+  uncertaintyWeight?: number // Edits allowed per letter of OCR uncertainty: length x (1 - confidence) x weight
+  minWordLength?: number // Shorter words are too ambiguous to correct
+}
+
+export interface SpellingCorrection {
+  original: string
+  corrected: string
+  confidence: number // OCR confidence of the original word
+  distance: number // Edit distance between the two
+}
+
+const DEFAULT_OPTIONS: Required<SpellingCorrectionOptions> = {
+  maxConfidence: 0.95,
+  maxEdits: 2,
+  uncertaintyWeight: 0.8,
+  minWordLength: 4
+}
+
+// A word and the punctuation around it, e.g. "(Newbrug," -> "(", "Newbrug", ","
+const TOKEN_PATTERN = /^(\P{L}*)(\p{L}+)(\P{L}*)$/u
+
+// Rows per request when reading the lexicon tables; Supabase returns at most 1000 by default
+const LEXICON_PAGE_SIZE = 1000
+
+// Cache for the loaded lexicon; the tables change slowly and every processed menu needs them
+let lexiconCache: Promise<CulinaryLexicon> | null = null
+let lexiconCacheTimestamp: number = 0
+const LEXICON_CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
+
+/**
+ * Build a lexicon from dish names and single words
+ */
+export function buildCulinaryLexicon(terms: Iterable<string>): CulinaryLexicon {
+  const words = new Map<string, number>()
+  for (const term of terms) {
+    for (const word of term.toLowerCase().split(/\P{L}+/u)) {
+      if (word.length >= 3) {
+        words.set(word, (words.get(word) ?? 0) + 1)
+      }
+    }
+  }
+
+  const byLength = new Map<number, string[]>()
+  for (const word of words.keys()) {
+    const bucket = byLength.get(word.length)
+    if (bucket) bucket.push(word)
+    else byLength.set(word.length, [word])
+  }
+  return { words, byLength }
+}
+
+/**
+ * Lexicon from the common_entrees table, every approved entree in mlmp_entrees
+ * and the ML word vocabulary. A table that can't be read is skipped.
+ * Loaded at most once every 5 minutes; later calls share the cached lexicon.
+ */
+export function loadCulinaryLexicon(client: SupabaseClient): Promise<CulinaryLexicon> {
+  const now = Date.now()
+  if (lexiconCache && (now - lexiconCacheTimestamp) < LEXICON_CACHE_DURATION) {
+    return lexiconCache
+  }
+
+  const loading = readCulinaryLexicon(client)
+  lexiconCache = loading
+  lexiconCacheTimestamp = now
+  loading.catch(() => {
+    if (lexiconCache === loading) lexiconCache = null
+  })
+  return loading
+}
+
+async function readCulinaryLexicon(client: SupabaseClient): Promise<CulinaryLexicon> {
+  const terms: string[] = [...COMMON_VOCABULARY]
+
+  const { data: commonEntrees, error: commonError } = await selectAllRows<{ entree_name: string, synonyms: unknown }>(client, 'common_entrees', 'entree_name, synonyms', 'entree_name')
+  if (commonError) {
+    console.warn('Failed to load common entrees for spelling correction:', commonError)
+  }
+  for (const entree of commonEntrees) {
+    terms.push(entree.entree_name)
+    if (Array.isArray(entree.synonyms)) terms.push(...entree.synonyms)
+    else if (typeof entree.synonyms === 'string') terms.push(entree.synonyms)
+  }
+
+  const { data: approvedEntrees, error: approvedError } = await selectAllRows<{ text: string }>(client, 'mlmp_entrees', 'text', 'entree_id')
+  if (approvedError) {
+    console.warn('Failed to load approved entrees for spelling correction:', approvedError)
+  }
+  terms.push(...approvedEntrees.map(entree => entree.text))
+
+  return buildCulinaryLexicon(terms)
+}
+
+/**
+ * Every row of a table, read a page at a time. On an error, the rows read so far come back with it.
+ */
+async function selectAllRows<T>(
+  client: SupabaseClient,
+  table: string,
+  columns: string,
+  orderBy: string
+): Promise<{ data: T[], error: unknown }> {
+  const rows: T[] = []
+  for (let from = 0; ; from += LEXICON_PAGE_SIZE) {
+    const { data, error } = await client
+      .from(table)
+      .select(columns)
+      .order(orderBy, { ascending: true })
+      .range(from, from + LEXICON_PAGE_SIZE - 1)
+    if (error) return { data: rows, error }
+
+    rows.push(...((data || []) as T[]))
+    if (!data || data.length < LEXICON_PAGE_SIZE) return { data: rows, error: null }
+  }
+}
+
+/**
+ * Closest lexicon word within the edit budget for an OCR reading, or null when the
+ * reading is already a known word, nothing is close enough, or two words tie
+ */
+export function findCorrection(
+  word: string,
+  confidence: number,
+  lexicon: CulinaryLexicon,
+  options: SpellingCorrectionOptions = {}
+): { word: string, distance: number } | null {
+  const config = { ...DEFAULT_OPTIONS, ...options }
+  const lower = word.toLowerCase()
+  if (lower.length < config.minWordLength || confidence >= config.maxConfidence || lexicon.words.has(lower)) {
+    return null
+  }
+
+  // Uncertain readings of long words may change more; confident ones barely at all
+  const budget = Math.min(config.maxEdits, Math.floor(lower.length * (1 - confidence) * config.uncertaintyWeight))
+  if (budget < 1) return null
+
+  let best: { word: string, distance: number, count: number } | null = null
+  let tied = false
+  // Words whose length differs by more than the budget can't be within it
+  const candidates = Array.from({ length: 2 * budget + 1 }, (_, i) => lexicon.byLength.get(lower.length - budget + i) ?? [])
+  for (const candidate of candidates.flat()) {
+    const count = lexicon.words.get(candidate)!
+    const distance = editDistance(lower, candidate)
+    if (distance > budget) continue
+
+    if (!best || distance < best.distance || (distance === best.distance && count > best.count)) {
+      best = { word: candidate, distance, count }
+      tied = false
+    } else if (distance === best.distance && count === best.count) {
+      tied = true
+    }
+  }
+
+  return best && !tied ? { word: best.word, distance: best.distance } : null
+}
+
+/**
+ * Correct near-miss dish words in an OCR result against the lexicon. Corrected words
+ * and lines keep what OCR read in originalText. Returns a new result; the input is left untouched.
+ */
+export function correctOcrSpelling(
+  result: OcrResult,
+  lexicon: CulinaryLexicon,
+  options: SpellingCorrectionOptions = {}
+): { result: OcrResult, corrections: SpellingCorrection[] } {
+  const corrections: SpellingCorrection[] = []
+  const replacements = new Map<OcrLine, OcrLine>()
+
+  for (const line of result.lines) {
+    let changed = false
+    const words = line.words.map((word): OcrWord => {
+      const match = word.text.match(TOKEN_PATTERN)
+      if (!match) return word
+
+      const [, prefix, core, suffix] = match
+      const correction = findCorrection(core, word.confidence, lexicon, options)
+      if (!correction) return word
+
+      const corrected = `${prefix}${matchCase(correction.word, core)}${suffix}`
+      corrections.push({ original: word.text, corrected, confidence: word.confidence, distance: correction.distance })
+      changed = true
+      return { ...word, text: corrected, originalText: word.originalText ?? word.text }
+    })
+
+    if (changed) {
+      replacements.set(line, {
+        ...line,
+        text: words.map(word => word.text).join(' '),
+        words,
+        originalText: line.originalText ?? line.text
+      })
+    }
+  }
+
+  return {
+    result: replacements.size > 0 ? replaceLines(result, replacements) : result,
+    corrections
+  }
+}
+
+/**
+ * Corrections made to the words of a line that made it into a candidate's text;
+ * undefined when there are none
+ */
+export function getLineCorrections(line: OcrLine, text: string = line.text): Array<{ original: string, corrected: string }> | undefined {
+  const corrections = line.words
+    .filter(word => word.originalText !== undefined && text.includes(word.text))
+    .map(word => ({ original: word.originalText!, corrected: word.text }))
+  return corrections.length > 0 ? corrections : undefined
+}
+
+function matchCase(word: string, like: string): string {
+  if (like === like.toUpperCase()) return word.toUpperCase()
+  if (like[0] === like[0].toUpperCase()) return word[0].toUpperCase() + word.slice(1)
+  return word
+}
+
+/**
+ * Edit distance counting a swap of two adjacent letters as one edit, the most
+ * common OCR and typing slip after a wrong letter ("Newbrug" for "Newburg")
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => {
+    const row = new Array<number>(b.length + 1).fill(0)
+    row[0] = i
+    return row
+  })
+  for (let j = 0; j <= b.length; j++) rows[0][j] = j
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1, // deletion
+        rows[i][j - 1] + 1, // insertion
+        rows[i - 1][j - 1] + cost // substitution
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1) // transposition
+      }
+    }
+  }
+
+  return rows[a.length][b.length]
+}
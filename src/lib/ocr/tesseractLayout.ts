@@ -0,0 +1,146 @@
+import type { OcrBlock, OcrParagraph, OcrLine, OcrWord, OcrBoundingBox, OcrBaseline } from './OcrProvider'
+import { unionBoundingBoxes } from './geometry'
+
+export interface OcrLayout {
+  blocks: OcrBlock[]
+  paragraphs: OcrParagraph[]
+  lines: OcrLine[]
+  words: OcrWord[]
+}
+
+/**
+ * Convert a Tesseract page into our OCR types, keeping Tesseract's own
+ * block -> paragraph -> line hierarchy. Lines come out in Tesseract's reading order,
+ * so neighbouring columns stay in separate blocks instead of being merged by y position.
+ */
+export function buildOcrLayout(page: Tesseract.Page): OcrLayout {
+  if (!page.blocks) {
+    const words = (page.words || []).map(toOcrWord).filter(isUsableWord)
+    return { blocks: [], paragraphs: [], lines: groupWordsIntoLines(words), words }
+  }
+
+  const blocks: OcrBlock[] = []
+  const paragraphs: OcrParagraph[] = []
+  const lines: OcrLine[] = []
+  const words: OcrWord[] = []
+
+  for (const tessBlock of page.blocks) {
+    const blockIndex = blocks.length
+    const block: OcrBlock = {
+      text: '',
+      bbox: toBoundingBox(tessBlock.bbox),
+      paragraphs: [],
+      confidence: tessBlock.confidence / 100, // Convert to 0-1 scale
+      blockType: tessBlock.blocktype
+    }
+
+    for (const tessParagraph of tessBlock.paragraphs || []) {
+      const paragraphIndex = paragraphs.length
+      const paragraph: OcrParagraph = {
+        text: '',
+        bbox: toBoundingBox(tessParagraph.bbox),
+        lines: [],
+        confidence: tessParagraph.confidence / 100,
+        blockIndex
+      }
+
+      for (const tessLine of tessParagraph.lines || []) {
+        const lineWords = (tessLine.words || []).map(toOcrWord).filter(isUsableWord)
+        if (lineWords.length === 0) continue
+
+        const line: OcrLine = {
+          text: lineWords.map(w => w.text).join(' '),
+          bbox: toBoundingBox(tessLine.bbox),
+          words: lineWords,
+          confidence: tessLine.confidence / 100,
+          baseline: toBaseline(tessLine.baseline),
+          blockIndex,
+          paragraphIndex
+        }
+
+        paragraph.lines.push(line)
+        lines.push(line)
+        words.push(...lineWords)
+      }
+
+      if (paragraph.lines.length === 0) continue
+
+      paragraph.text = paragraph.lines.map(l => l.text).join('\n')
+      block.paragraphs.push(paragraph)
+      paragraphs.push(paragraph)
+    }
+
+    if (block.paragraphs.length === 0) continue
+
+    block.text = block.paragraphs.map(p => p.text).join('\n\n')
+    blocks.push(block)
+  }
+
+  return { blocks, paragraphs, lines, words }
+}
+
+/**
+ * Group loose words into lines by approximate y position.
+ * Only used when the engine reports no layout hierarchy.
+ */
+export function groupWordsIntoLines(words: OcrWord[]): OcrLine[] {
+  const lineMap = new Map<string, OcrWord[]>()
+
+  for (const word of words) {
+    // Group words by approximate y-coordinate (same line)
+    const lineKey = Math.round(word.bbox.y / 10) * 10 // Round to nearest 10px
+    if (!lineMap.has(lineKey.toString())) {
+      lineMap.set(lineKey.toString(), [])
+    }
+    lineMap.get(lineKey.toString())!.push(word)
+  }
+
+  const lines: OcrLine[] = []
+
+  // Create lines from grouped words
+  for (const lineWords of lineMap.values()) {
+    if (lineWords.length === 0) continue
+
+    // Sort words by x-coordinate
+    lineWords.sort((a, b) => a.bbox.x - b.bbox.x)
+
+    const lineText = lineWords.map(w => w.text).join(' ')
+    const avgConfidence = lineWords.reduce((sum, w) => sum + w.confidence, 0) / lineWords.length
+
+    lines.push({
+      text: lineText,
+      bbox: unionBoundingBoxes(lineWords.map(w => w.bbox)),
+      words: lineWords,
+      confidence: avgConfidence
+    })
+  }
+
+  // Sort lines by y-coordinate (top to bottom)
+  return lines.sort((a, b) => a.bbox.y - b.bbox.y)
+}
+
+function toOcrWord(word: Tesseract.Word): OcrWord {
+  return {
+    text: word.text,
+    bbox: toBoundingBox(word.bbox),
+    confidence: word.confidence / 100 // Convert to 0-1 scale
+  }
+}
+
+function isUsableWord(word: OcrWord): boolean {
+  return word.text.trim().length > 0 && word.confidence > 0
+}
+
+function toBoundingBox(bbox: Tesseract.Bbox): OcrBoundingBox {
+  return {
+    x: bbox.x0,
+    y: bbox.y0,
+    w: bbox.x1 - bbox.x0,
+    h: bbox.y1 - bbox.y0
+  }
+}
+
+function toBaseline(baseline: Tesseract.Baseline | undefined): OcrBaseline | undefined {
+  if (!baseline || !baseline.has_baseline) return undefined
+  return { x0: baseline.x0, y0: baseline.y0, x1: baseline.x1, y1: baseline.y1 }
+}
@@ -0,0 +1,82 @@
+// Pages processed per PDF when no limit is configured. Each page in flight holds a
+// full-resolution canvas, so this bounds memory in the browser and on the server.
+export const DEFAULT_MAX_PDF_PAGES = 30
+
+const RANGE_PART = /^(\d+)(?:\s*-\s*(\d+))?$/
+
+/**
+ * Whether a page range such as "1-3, 5" is well formed. Empty or "all" means every page.
+ */
+export function isPageRangeSyntax(value: string | null | undefined): boolean {
+  const trimmed = value?.trim() ?? ''
+  if (trimmed === '' || trimmed.toLowerCase() === 'all') return true
+  return trimmed.split(',').every(part => RANGE_PART.test(part.trim()))
+}
+
+/**
+ * Page numbers selected by a range such as "1-3, 5", sorted and without duplicates.
+ * Empty or "all" selects every page. Returns null when the range is malformed or
+ * names a page the document doesn't have.
+ */
+export function parsePageRange(value: string | null | undefined, totalPages: number): number[] | null {
+  const trimmed = value?.trim() ?? ''
+  if (trimmed === '' || trimmed.toLowerCase() === 'all') {
+    return Array.from({ length: totalPages }, (_, i) => i + 1)
+  }
+
+  const pages = new Set<number>()
+  for (const part of trimmed.split(',')) {
+    const match = part.trim().match(RANGE_PART)
+    if (!match) return null
+
+    const first = Number(match[1])
+    const last = match[2] === undefined ? first : Number(match[2])
+    if (first < 1 || last < first || last > totalPages) return null
+
+    for (let page = first; page <= last; page++) pages.add(page)
+  }
+
+  return [...pages].sort((a, b) => a - b)
+}
+
+/**
+ * Compact form of a page list, e.g. [1, 2, 3, 5] -> "1-3,5"
+ */
+export function formatPageRange(pages: number[]): string {
+  const parts: string[] = []
+  for (let i = 0; i < pages.length; i++) {
+    const first = pages[i]
+    while (i + 1 < pages.length && pages[i + 1] === pages[i] + 1) i++
+    parts.push(pages[i] === first ? `${first}` : `${first}-${pages[i]}`)
+  }
+  return parts.join(',')
+}
+
+/**
+ * The configured page limit, e.g. from VITE_MAX_PDF_PAGES or MAX_PDF_PAGES
+ */
+export function getMaxPdfPages(value: string | undefined): number {
+  const limit = Number(value)
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_MAX_PDF_PAGES
+}
+
+/**
+ * Pages to process for a document, or an error message for the user when the range
+ * is invalid or selects more pages than the limit
+ */
+export function selectPdfPages(
+  pageRange: string | null | undefined,
+  totalPages: number,
+  maxPages: number
+): { pages: number[] } | { error: string } {
+  const pages = parsePageRange(pageRange, totalPages)
+  if (!pages) {
+    return { error: `Invalid page range "${pageRange}". Use page numbers between 1 and ${totalPages}, e.g. "1-3, 5".` }
+  }
+  if (pages.length > maxPages) {
+    return {
+      error: `${pages.length} pages selected, but at most ${maxPages} can be processed at once. Choose a page range.`
+    }
+  }
+  return { pages }
+}
@@ -1,14 +1,21 @@
 import * as pdfjsLib from 'pdfjs-dist'
+import { PDF_POINTS_PER_INCH, PDF_RENDER_SCALE } from './render'
+import { readPdfTextLayer } from './textLayer'
+import { getLocalOcrAssets } from '../ocr/assets'
+import type { OcrResult } from '../ocr/OcrProvider'
 
-// Set up PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`
+// Set up PDF.js worker: served by the app when VITE_OCR_ASSETS_URL is set, from cdnjs otherwise
+const localAssets = getLocalOcrAssets(import.meta.env.VITE_OCR_ASSETS_URL)
+pdfjsLib.GlobalWorkerOptions.workerSrc = localAssets?.pdfWorkerSrc
+  ?? `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.mjs`
 
 export interface PdfPageImage {
   pageNumber: number
   canvas: HTMLCanvasElement
-  imageData: ImageData
   width: number
   height: number
+  dpi?: number // Absent for TIFF frames without a resolution
+  textLayer: OcrResult | null // Text embedded in the PDF, in canvas pixels; null when the page needs OCR
 }
 
 export interface PdfProcessingResult {
@@ -18,67 +25,88 @@ export interface PdfProcessingResult {
 }
 
 /**
- * Convert PDF file to array of canvas images for OCR processing
+ * An open PDF whose pages are rendered one at a time, when asked for
+ */
+export interface PdfPageSource {
+  totalPages: number
+  renderPage(pageNumber: number): Promise<PdfPageImage>
+  destroy(): Promise<void>
+}
+
+/**
+ * Open a PDF without rendering anything. Large menus are rendered page by page,
+ * so only the pages being worked on hold a full-resolution canvas.
+ */
+export async function openPdf(pdfFile: File, scale: number = PDF_RENDER_SCALE): Promise<PdfPageSource> {
+  try {
+    const pdf = await pdfjsLib.getDocument({
+      data: await pdfFile.arrayBuffer(),
+      standardFontDataUrl: localAssets?.pdfStandardFontDataUrl
+    }).promise
+
+    return {
+      totalPages: pdf.numPages,
+      renderPage: async (pageNumber: number) => {
+        const page = await pdf.getPage(pageNumber)
+        const viewport = page.getViewport({ scale }) // Higher scale for better OCR
+
+        // Create canvas
+        const canvas = document.createElement('canvas')
+        const context = canvas.getContext('2d')
+
+        if (!context) {
+          throw new Error('Failed to get canvas context')
+        }
+
+        canvas.width = viewport.width
+        canvas.height = viewport.height
+
+        // Render page to canvas
+        await page.render({ canvasContext: context, viewport }).promise
+        const textLayer = await readPdfTextLayer(page, viewport)
+        page.cleanup()
+
+        return {
+          pageNumber,
+          canvas,
+          width: canvas.width,
+          height: canvas.height,
+          dpi: PDF_POINTS_PER_INCH * scale,
+          textLayer
+        }
+      },
+      destroy: () => pdf.destroy()
+    }
+  } catch (error) {
+    console.error('PDF processing failed:', error)
+    throw new Error(`PDF processing failed: ${error}`)
+  }
+}
+
+/**
+ * Convert PDF file to array of canvas images for OCR processing.
+ * Every page is held in memory at once; use openPdf for large files.
  */
 export async function pdfToImages(pdfFile: File): Promise<PdfProcessingResult> {
   const startTime = Date.now()
+  const pdf = await openPdf(pdfFile)
 
   try {
-    // Convert file to ArrayBuffer
-    const arrayBuffer = await pdfFile.arrayBuffer()
-    
-    // Load PDF document
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
-    const totalPages = pdf.numPages
-
     const pages: PdfPageImage[] = []
-
-    // Process each page
-    for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
-      const page = await pdf.getPage(pageNum)
-      const viewport = page.getViewport({ scale: 2.0 }) // Higher scale for better OCR
-
-      // Create canvas
-      const canvas = document.createElement('canvas')
-      const context = canvas.getContext('2d')
-      
-      if (!context) {
-        throw new Error('Failed to get canvas context')
-      }
-
-      canvas.width = viewport.width
-      canvas.height = viewport.height
-
-      // Render page to canvas
-      const renderContext = {
-        canvasContext: context,
-        viewport: viewport
-      }
-
-      await page.render(renderContext).promise
-
-      // Get image data
-      const imageData = context.getImageData(0, 0, canvas.width, canvas.height)
-
-      pages.push({
-        pageNumber: pageNum,
-        canvas,
-        imageData,
-        width: canvas.width,
-        height: canvas.height
-      })
+    for (let pageNum = 1; pageNum <= pdf.totalPages; pageNum++) {
+      pages.push(await pdf.renderPage(pageNum))
     }
 
-    const processingTime = Date.now() - startTime
-
     return {
       pages,
-      totalPages,
-      processingTime
+      totalPages: pdf.totalPages,
+      processingTime: Date.now() - startTime
     }
   } catch (error) {
     console.error('PDF processing failed:', error)
     throw new Error(`PDF processing failed: ${error}`)
+  } finally {
+    await pdf.destroy()
   }
 }
 
@@ -107,7 +135,10 @@ export async function pdfToImageBlobs(pdfFile: File): Promise<Blob[]> {
 export async function getPdfPageCount(pdfFile: File): Promise<number> {
   try {
     const arrayBuffer = await pdfFile.arrayBuffer()
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
+    const pdf = await pdfjsLib.getDocument({
+      data: arrayBuffer,
+      standardFontDataUrl: localAssets?.pdfStandardFontDataUrl
+    }).promise
     return pdf.numPages
   } catch (error) {
     console.error('Failed to get PDF page count:', error)
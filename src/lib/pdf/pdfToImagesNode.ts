@@ -0,0 +1,123 @@
+import { PDF_POINTS_PER_INCH, PDF_RENDER_SCALE } from './render'
+import { readPdfTextLayer } from './textLayer'
+import type { OcrResult } from '../ocr/OcrProvider'
+
+export interface NodePdfPageImage {
+  pageNumber: number
+  png: Uint8Array
+  width: number
+  height: number
+  dpi?: number // Absent for TIFF frames without a resolution
+  textLayer: OcrResult | null // Text embedded in the PDF, in PNG pixels; null when the page needs OCR
+}
+
+export interface NodePdfProcessingResult {
+  pages: NodePdfPageImage[]
+  totalPages: number
+  processingTime: number
+}
+
+/**
+ * An open PDF whose pages are rasterized one at a time, when asked for
+ */
+export interface NodePdfPageSource {
+  totalPages: number
+  renderPage(pageNumber: number): Promise<NodePdfPageImage>
+  destroy(): Promise<void>
+}
+
+/**
+ * Open PDF bytes on the server without rendering anything. Mirrors openPdf,
+ * but renders with @napi-rs/canvas instead of a DOM canvas.
+ */
+export async function openPdfBuffer(pdfData: Uint8Array, scale: number = PDF_RENDER_SCALE): Promise<NodePdfPageSource> {
+  try {
+    const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs')
+    const { createCanvas } = await import('@napi-rs/canvas')
+
+    // pdf.js transfers the buffer to its worker, so hand it a copy
+    const pdf = await pdfjsLib.getDocument({
+      data: new Uint8Array(pdfData),
+      isEvalSupported: false,
+      standardFontDataUrl: await getStandardFontDataPath()
+    }).promise
+
+    return {
+      totalPages: pdf.numPages,
+      renderPage: async (pageNumber: number) => {
+        const page = await pdf.getPage(pageNumber)
+        const viewport = page.getViewport({ scale }) // Higher scale for better OCR
+
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height))
+        const context = canvas.getContext('2d')
+
+        await page.render({
+          canvasContext: context as unknown as CanvasRenderingContext2D,
+          viewport
+        }).promise
+        const textLayer = await readPdfTextLayer(page, viewport)
+        page.cleanup()
+
+        return {
+          pageNumber,
+          png: canvas.toBuffer('image/png'),
+          width: canvas.width,
+          height: canvas.height,
+          dpi: PDF_POINTS_PER_INCH * scale,
+          textLayer
+        }
+      },
+      destroy: () => pdf.destroy()
+    }
+  } catch (error) {
+    console.error('PDF processing failed:', error)
+    throw new Error(`PDF processing failed: ${error}`)
+  }
+}
+
+/**
+ * Rasterize PDF bytes to PNG page images on the server.
+ * Every page is held in memory at once; use openPdfBuffer for large files.
+ */
+export async function pdfBufferToImages(pdfData: Uint8Array, scale: number = PDF_RENDER_SCALE): Promise<NodePdfProcessingResult> {
+  const startTime = Date.now()
+  const pdf = await openPdfBuffer(pdfData, scale)
+
+  try {
+    const pages: NodePdfPageImage[] = []
+    for (let pageNum = 1; pageNum <= pdf.totalPages; pageNum++) {
+      pages.push(await pdf.renderPage(pageNum))
+    }
+
+    return {
+      pages,
+      totalPages: pdf.totalPages,
+      processingTime: Date.now() - startTime
+    }
+  } catch (error) {
+    console.error('PDF processing failed:', error)
+    throw new Error(`PDF processing failed: ${error}`)
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+/**
+ * Number of pages in PDF bytes, without rendering any
+ */
+export async function getPdfBufferPageCount(pdfData: Uint8Array): Promise<number> {
+  const pdf = await openPdfBuffer(pdfData)
+  const totalPages = pdf.totalPages
+  await pdf.destroy()
+  return totalPages
+}
+
+/**
+ * Locate the standard font files shipped with pdfjs-dist so non-embedded fonts render
+ */
+async function getStandardFontDataPath(): Promise<string> {
+  const { createRequire } = await import('node:module')
+  const path = await import('node:path')
+  const require = createRequire(import.meta.url)
+  return path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep
+}
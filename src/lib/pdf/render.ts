@@ -0,0 +1,5 @@
+// PDF user space has 72 units per inch
+export const PDF_POINTS_PER_INCH = 72
+
+// Pages are rendered at twice their size for OCR, i.e. 144 DPI
+export const PDF_RENDER_SCALE = 2.0
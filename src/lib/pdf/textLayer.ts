@@ -0,0 +1,249 @@
+import type { OcrResult, OcrLine, OcrWord, OcrFont } from '../ocr/OcrProvider'
+import { unionBoundingBoxes } from '../ocr/geometry'
+
+/**
+ * A run of text from a PDF text layer, in pixels of the rendered page
+ */
+export interface PdfTextRun {
+  text: string
+  x: number // Left edge
+  baseline: number
+  width: number
+  fontSize: number
+  ascent: number // Part of the font size above the baseline
+  descent: number // Part of the font size below the baseline
+  font?: OcrFont
+}
+
+export interface PdfTextLayerOptions {
+  minLetters?: number // Pages with fewer letters have no usable text layer (scans, image-only pages)
+  minReadableRatio?: number // Share of characters that must map to real text, not missing glyphs
+  columnGap?: number // Runs on the same baseline further apart than this (in font sizes) are separate lines
+}
+
+/**
+ * The parts of a pdf.js page used to read its text layer. Structural, so it fits
+ * both the browser and the Node (legacy) build of pdf.js.
+ */
+export interface PdfTextPage {
+  getTextContent(): Promise<{
+    items: object[]
+    styles: Record<string, { ascent: number, descent: number, vertical: boolean, fontFamily: string }>
+  }>
+  commonObjs: { has(id: string): boolean, get(id: string): any }
+}
+
+interface PdfTextItem {
+  str: string
+  transform: number[]
+  width: number
+  fontName: string
+}
+
+const DEFAULT_OPTIONS: Required<PdfTextLayerOptions> = {
+  minLetters: 20,
+  minReadableRatio: 0.9,
+  columnGap: 4
+}
+
+// Fallback vertical metrics when pdf.js doesn't report the font's ascent/descent
+const DEFAULT_ASCENT = 0.8
+const DEFAULT_DESCENT = 0.2
+
+/**
+ * Read the text layer of a rendered pdf.js page. Returns null when the page has no usable
+ * text, so the caller can OCR it instead. Call after rendering: font names are only
+ * known once pdf.js has loaded the page's fonts.
+ */
+export async function readPdfTextLayer(
+  page: PdfTextPage,
+  viewport: { transform: number[] },
+  options: PdfTextLayerOptions = {}
+): Promise<OcrResult | null> {
+  const startTime = Date.now()
+
+  try {
+    const content = await page.getTextContent()
+    const fontNames = new Map<string, string>()
+    for (const item of content.items) {
+      if (!isTextItem(item) || fontNames.has(item.fontName) || !page.commonObjs.has(item.fontName)) continue
+      const name = page.commonObjs.get(item.fontName)?.name
+      if (typeof name === 'string') fontNames.set(item.fontName, name)
+    }
+
+    const result = buildTextLayerResult(toTextRuns(content, viewport.transform, fontNames), options)
+    return result && { ...result, processingTime: Date.now() - startTime }
+  } catch (error) {
+    console.warn('Failed to read PDF text layer, falling back to OCR:', error)
+    return null
+  }
+}
+
+/**
+ * Turn pdf.js text items into runs in rendered page pixels. Vertical and rotated
+ * text is dropped: menus set it for decoration, and OCR handles it better.
+ */
+export function toTextRuns(
+  content: Awaited<ReturnType<PdfTextPage['getTextContent']>>,
+  viewportTransform: number[],
+  fontNames: Map<string, string> = new Map()
+): PdfTextRun[] {
+  const scale = Math.hypot(viewportTransform[0], viewportTransform[1])
+  const runs: PdfTextRun[] = []
+
+  for (const item of content.items) {
+    if (!isTextItem(item) || item.str.trim() === '') continue
+
+    const style = content.styles[item.fontName]
+    if (style?.vertical) continue
+
+    const [a, b, c, d, e, f] = multiplyTransforms(viewportTransform, item.transform)
+    const fontSize = Math.hypot(c, d)
+    if (fontSize === 0 || Math.abs(b) > Math.abs(a) * 0.05 || Math.abs(c) > fontSize * 0.05 || a < 0) continue
+
+    runs.push({
+      text: item.str,
+      x: e,
+      baseline: f,
+      width: item.width * scale,
+      fontSize,
+      ascent: style?.ascent || DEFAULT_ASCENT,
+      descent: Math.abs(style?.descent || DEFAULT_DESCENT),
+      font: parseFontName(fontNames.get(item.fontName) ?? style?.fontFamily, fontSize)
+    })
+  }
+
+  return runs
+}
+
+/**
+ * Build an OcrResult from text runs: runs sharing a baseline form rows, and rows split
+ * into lines at wide gaps so columns stay apart. Every word has confidence 1.
+ * Returns null when the runs don't add up to a usable text layer.
+ */
+export function buildTextLayerResult(runs: PdfTextRun[], options: PdfTextLayerOptions = {}): OcrResult | null {
+  const config = { ...DEFAULT_OPTIONS, ...options }
+  if (!isUsableText(runs.map(run => run.text).join(''), config)) return null
+
+  const lines: OcrLine[] = []
+  for (const row of groupRows(runs)) {
+    let current: PdfTextRun[] = []
+    for (const run of row) {
+      const previous = current[current.length - 1]
+      if (previous && run.x - (previous.x + previous.width) > config.columnGap * Math.max(previous.fontSize, run.fontSize)) {
+        lines.push(buildLine(current))
+        current = []
+      }
+      current.push(run)
+    }
+    if (current.length > 0) lines.push(buildLine(current))
+  }
+
+  const nonEmpty = lines.filter(line => line.words.length > 0)
+  return {
+    lines: nonEmpty,
+    words: nonEmpty.flatMap(line => line.words),
+    confidence: 1,
+    processingTime: 0,
+    source: 'pdf-text'
+  }
+}
+
+/**
+ * Font details from a PDF font name such as "ABCDEF+Garamond-BoldItalic"
+ */
+export function parseFontName(rawName: string | undefined, size: number): OcrFont | undefined {
+  if (!rawName) return undefined
+  const name = rawName.replace(/^[A-Z]{6}\+/, '')
+  return {
+    name,
+    size: Math.round(size * 10) / 10,
+    bold: /bold|black|heavy|semibold|demi/i.test(name),
+    italic: /italic|oblique/i.test(name)
+  }
+}
+
+function isTextItem(item: object): item is PdfTextItem {
+  return 'str' in item && 'transform' in item
+}
+
+function isUsableText(text: string, config: Required<PdfTextLayerOptions>): boolean {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0
+  const visible = text.replace(/\s/g, '')
+  // Fonts without a Unicode mapping come out as replacement, private-use or control characters
+  const unreadable = visible.match(/[�\p{Co}\p{Cc}]/gu)?.length ?? 0
+  return letters >= config.minLetters && visible.length > 0 && 1 - unreadable / visible.length >= config.minReadableRatio
+}
+
+/**
+ * Runs on (nearly) the same baseline, top to bottom, each row left to right
+ */
+function groupRows(runs: PdfTextRun[]): PdfTextRun[][] {
+  const rows: PdfTextRun[][] = []
+  for (const run of [...runs].sort((a, b) => a.baseline - b.baseline)) {
+    const row = rows[rows.length - 1]
+    const rowBaseline = row?.[0].baseline
+    if (row && run.baseline - rowBaseline <= 0.4 * Math.min(run.fontSize, row[0].fontSize)) {
+      row.push(run)
+    } else {
+      rows.push([run])
+    }
+  }
+  return rows.map(row => row.sort((a, b) => a.x - b.x))
+}
+
+/**
+ * Words of a line. pdf.js has no per-glyph positions, so words are placed by their share
+ * of the run's characters. Runs that touch continue the same word (kerning, accents).
+ */
+function buildLine(runs: PdfTextRun[]): OcrLine {
+  const words: OcrWord[] = []
+  let previousRun: PdfTextRun | null = null
+
+  for (const run of runs) {
+    const charWidth = run.width / run.text.length
+    const top = run.baseline - run.ascent * run.fontSize
+    const height = (run.ascent + run.descent) * run.fontSize
+    const touchesPrevious = previousRun !== null &&
+      !/\s$/.test(previousRun.text) && !/^\s/.test(run.text) &&
+      run.x - (previousRun.x + previousRun.width) < 0.15 * run.fontSize
+
+    for (const [i, match] of [...run.text.matchAll(/\S+/g)].entries()) {
+      const bbox = { x: run.x + match.index! * charWidth, y: top, w: match[0].length * charWidth, h: height }
+      const last = words[words.length - 1]
+      if (i === 0 && touchesPrevious && last) {
+        words[words.length - 1] = { ...last, text: last.text + match[0], bbox: unionBoundingBoxes([last.bbox, bbox]) }
+      } else {
+        words.push({ text: match[0], bbox, confidence: 1, font: run.font })
+      }
+    }
+    previousRun = run
+  }
+
+  // The line takes the typography of the run that carries most of its text
+  const main = runs.reduce((best, run) => run.text.trim().length > best.text.trim().length ? run : best)
+  const bbox = unionBoundingBoxes(words.length > 0 ? words.map(word => word.bbox) : [{ x: main.x, y: main.baseline, w: 0, h: 0 }])
+
+  return {
+    text: words.map(word => word.text).join(' '),
+    bbox,
+    words,
+    confidence: 1,
+    baseline: { x0: bbox.x, y0: main.baseline, x1: bbox.x + bbox.w, y1: main.baseline },
+    font: main.font
+  }
+}
+
+/**
+ * Product of two PDF transformation matrices [a, b, c, d, e, f]: m1 applied after m2
+ */
+function multiplyTransforms(m1: number[], m2: number[]): number[] {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5]
+  ]
+}
@@ -0,0 +1,191 @@
+import {
+  grayscale,
+  denoise,
+  adaptiveThreshold,
+  detectSkewAngle,
+  rotate,
+  detectContentBox,
+  type CropBox,
+  crop,
+  estimateTextHeight,
+  scaleImage,
+  type RasterImage
+} from './steps'
+
+export type PreprocessStep = 'grayscale' | 'denoise' | 'deskew' | 'crop' | 'upscale' | 'threshold'
+
+// Steps always run in this order, whatever order they were selected in
+export const PREPROCESS_STEPS: PreprocessStep[] = ['grayscale', 'denoise', 'deskew', 'crop', 'upscale', 'threshold']
+
+// Safe for both clean PDF renders and phone photos; denoise and threshold are opt-in
+export const DEFAULT_PREPROCESS_STEPS: PreprocessStep[] = ['grayscale', 'deskew', 'crop', 'upscale']
+
+export interface ImagePreprocessorOptions {
+  steps?: PreprocessStep[]
+  maxSkewAngle?: number // Largest skew (degrees) deskew searches for
+  minSkewAngle?: number // Smaller detected skew is left alone
+  targetTextHeight?: number // Upscale until text lines are about this tall (px)
+  maxUpscale?: number
+  maxPixels?: number // Upscaling never produces images larger than this
+  thresholdWindow?: number // Adaptive threshold window as a fraction of image width
+}
+
+export interface PreprocessStepReport {
+  step: PreprocessStep
+  applied: boolean // false when the step was selected but had nothing to do
+  detail?: string
+}
+
+export interface PreprocessResult {
+  image: RasterImage
+  steps: PreprocessStepReport[]
+  scale: number // How much the page was enlarged; pixels per inch grow by the same factor
+  skew: number // Angle deskew rotated the page by (see rotate()); 0 when it was left alone
+  crop: CropBox | null // Part of the deskewed page that was kept, in its pixels
+  processingTime: number
+}
+
+/**
+ * Cleans up page images before OCR. Works on raw RGBA pixels (ImageData or canvas
+ * pixels), so it runs the same in the browser and in Node.
+ */
+export class ImagePreprocessor {
+  private steps: PreprocessStep[]
+  private options: Required<Omit<ImagePreprocessorOptions, 'steps'>>
+
+  constructor(options: ImagePreprocessorOptions = {}) {
+    const selected = options.steps ?? DEFAULT_PREPROCESS_STEPS
+    this.steps = PREPROCESS_STEPS.filter(step => selected.includes(step))
+    this.options = {
+      maxSkewAngle: options.maxSkewAngle ?? 10,
+      minSkewAngle: options.minSkewAngle ?? 0.3,
+      targetTextHeight: options.targetTextHeight ?? 32,
+      maxUpscale: options.maxUpscale ?? 3,
+      maxPixels: options.maxPixels ?? 25_000_000,
+      thresholdWindow: options.thresholdWindow ?? 1 / 16
+    }
+  }
+
+  getSteps(): PreprocessStep[] {
+    return [...this.steps]
+  }
+
+  process(image: RasterImage): PreprocessResult {
+    const startTime = Date.now()
+    const reports: PreprocessStepReport[] = []
+    let current: RasterImage = { data: image.data, width: image.width, height: image.height }
+    let scale = 1
+    let skew = 0
+    let cropBox: CropBox | null = null
+
+    for (const step of this.steps) {
+      const { image: next, report, angle, box } = this.runStep(step, current)
+      // Only upscaling resamples; deskew and crop change the size but not the resolution
+      if (step === 'upscale' && report.applied) {
+        scale *= next.width / current.width
+      }
+      skew = angle ?? skew
+      cropBox = box ?? cropBox
+      current = next
+      reports.push(report)
+    }
+
+    return {
+      image: current,
+      steps: reports,
+      scale,
+      skew,
+      crop: cropBox,
+      processingTime: Date.now() - startTime
+    }
+  }
+
+  private runStep(
+    step: PreprocessStep,
+    image: RasterImage
+  ): { image: RasterImage, report: PreprocessStepReport, angle?: number, box?: CropBox } {
+    switch (step) {
+      case 'grayscale':
+        return { image: grayscale(image), report: { step, applied: true } }
+
+      case 'denoise':
+        return { image: denoise(image), report: { step, applied: true } }
+
+      case 'deskew': {
+        const angle = detectSkewAngle(image, this.options.maxSkewAngle)
+        if (Math.abs(angle) < this.options.minSkewAngle) {
+          return { image, report: { step, applied: false, detail: `skew ${angle}°` } }
+        }
+        return { image: rotate(image, angle), report: { step, applied: true, detail: `rotated ${-angle}°` }, angle }
+      }
+
+      case 'crop': {
+        const box = detectContentBox(image)
+        if (!box) {
+          return { image, report: { step, applied: false } }
+        }
+        return {
+          image: crop(image, box),
+          report: { step, applied: true, detail: `${box.w}x${box.h} at ${box.x},${box.y}` },
+          box
+        }
+      }
+
+      case 'upscale': {
+        const textHeight = estimateTextHeight(image)
+        const scale = this.getUpscaleFactor(image, textHeight)
+        if (scale === null) {
+          return { image, report: { step, applied: false, detail: textHeight ? `text height ${textHeight}px` : undefined } }
+        }
+        return { image: scaleImage(image, scale), report: { step, applied: true, detail: `scaled ${scale.toFixed(2)}x` } }
+      }
+
+      case 'threshold': {
+        const windowSize = Math.max(15, Math.round(image.width * this.options.thresholdWindow))
+        return { image: adaptiveThreshold(image, windowSize), report: { step, applied: true, detail: `window ${windowSize}px` } }
+      }
+    }
+  }
+
+  private getUpscaleFactor(image: RasterImage, textHeight: number | null): number | null {
+    if (!textHeight || textHeight >= this.options.targetTextHeight) return null
+
+    const pixelLimit = Math.sqrt(this.options.maxPixels / (image.width * image.height))
+    const scale = Math.min(this.options.targetTextHeight / textHeight, this.options.maxUpscale, pixelLimit)
+
+    // Small gains aren't worth the extra OCR time
+    return scale >= 1.2 ? scale : null
+  }
+}
+
+/**
+ * Parse preprocessing steps from a form field, e.g. "grayscale,deskew", "none" or "default".
+ * Returns null when an unknown step is requested.
+ */
+export function parsePreprocessSteps(input: string | string[] | null | undefined): PreprocessStep[] | null {
+  if (input === null || input === undefined || input === '' || input === 'default') {
+    return [...DEFAULT_PREPROCESS_STEPS]
+  }
+  if (input === 'none') {
+    return []
+  }
+
+  const steps = (Array.isArray(input) ? input : input.split(','))
+    .map(step => step.trim().toLowerCase())
+    .filter(Boolean)
+
+  if (!steps.every(step => PREPROCESS_STEPS.includes(step as PreprocessStep))) {
+    return null
+  }
+
+  return PREPROCESS_STEPS.filter(step => steps.includes(step))
+}
+
+/**
+ * Human-readable summary of the steps that actually changed the image
+ */
+export function describePreprocessing(reports: PreprocessStepReport[]): string {
+  const applied = reports.filter(report => report.applied)
+  if (applied.length === 0) return 'no preprocessing'
+  return applied.map(report => report.detail ? `${report.step} (${report.detail})` : report.step).join(', ')
+}
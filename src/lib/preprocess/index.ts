@@ -0,0 +1,25 @@
+export {
+  ImagePreprocessor,
+  PREPROCESS_STEPS,
+  DEFAULT_PREPROCESS_STEPS,
+  parsePreprocessSteps,
+  describePreprocessing
+} from './ImagePreprocessor'
+export type {
+  PreprocessStep,
+  ImagePreprocessorOptions,
+  PreprocessStepReport,
+  PreprocessResult
+} from './ImagePreprocessor'
+export type { RasterImage, CropBox } from './steps'
+export {
+  PAGE_ROTATIONS,
+  isPageRotation,
+  rotateQuarterTurns,
+  rotatePoint,
+  rotateBox,
+  estimateLineDirection,
+  candidateRotations,
+  scoreOrientationText
+} from './orientation'
+export type { PageRotation } from './orientation'
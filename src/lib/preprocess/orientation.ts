@@ -0,0 +1,132 @@
+/**
+ * Page orientation helpers: quarter-turn rotation of rasters and of coordinates,
+ * and the pixel and text heuristics used to pick which way up a page is.
+ */
+
+import { luminance, otsuThreshold, type RasterImage, type CropBox } from './steps'
+
+/**
+ * Clockwise rotation in degrees that turns a page upright
+ */
+export type PageRotation = 0 | 90 | 180 | 270
+
+export const PAGE_ROTATIONS: PageRotation[] = [0, 90, 180, 270]
+
+export function isPageRotation(value: unknown): value is PageRotation {
+  return value === 0 || value === 90 || value === 180 || value === 270
+}
+
+/**
+ * Rotate a raster clockwise by a multiple of 90°, without resampling
+ */
+export function rotateQuarterTurns(image: RasterImage, rotation: PageRotation): RasterImage {
+  if (rotation === 0) return image
+
+  const { data, width, height } = image
+  const swap = rotation !== 180
+  const newWidth = swap ? height : width
+  const newHeight = swap ? width : height
+  const output = new Uint8ClampedArray(data.length)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [nx, ny] = rotatePoint(x, y, rotation, width - 1, height - 1)
+      const source = (y * width + x) * 4
+      const target = (ny * newWidth + nx) * 4
+      output[target] = data[source]
+      output[target + 1] = data[source + 1]
+      output[target + 2] = data[source + 2]
+      output[target + 3] = data[source + 3]
+    }
+  }
+
+  return { data: output, width: newWidth, height: newHeight }
+}
+
+/**
+ * Where a point of a width x height image ends up after rotating the image clockwise
+ */
+export function rotatePoint(x: number, y: number, rotation: PageRotation, width: number, height: number): [number, number] {
+  switch (rotation) {
+    case 90: return [height - y, x]
+    case 180: return [width - x, height - y]
+    case 270: return [y, width - x]
+    default: return [x, y]
+  }
+}
+
+/**
+ * Where a box of a width x height image ends up after rotating the image clockwise.
+ * Undo a rotation with `rotateBox(box, (360 - rotation) % 360, rotatedWidth, rotatedHeight)`.
+ */
+export function rotateBox(box: CropBox, rotation: PageRotation, width: number, height: number): CropBox {
+  const [x0, y0] = rotatePoint(box.x, box.y, rotation, width, height)
+  const [x1, y1] = rotatePoint(box.x + box.w, box.y + box.h, rotation, width, height)
+  return {
+    x: Math.min(x0, x1),
+    y: Math.min(y0, y1),
+    w: Math.abs(x1 - x0),
+    h: Math.abs(y1 - y0)
+  }
+}
+
+/**
+ * Which way text lines run, from the ink projection profiles. Lines of text make
+ * the row profile alternate between ink and gaps; columns stay comparatively even.
+ * Returns null when neither direction clearly dominates.
+ */
+export function estimateLineDirection(image: RasterImage): 'horizontal' | 'vertical' | null {
+  const { width, height } = image
+  const gray = luminance(image)
+  const threshold = otsuThreshold(gray)
+
+  const rows = new Float64Array(height)
+  const columns = new Float64Array(width)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] < threshold) {
+        rows[y]++
+        columns[x]++
+      }
+    }
+  }
+
+  const rowContrast = profileContrast(rows)
+  const columnContrast = profileContrast(columns)
+  if (rowContrast === 0 && columnContrast === 0) return null
+
+  if (rowContrast > columnContrast * 1.3) return 'horizontal'
+  if (columnContrast > rowContrast * 1.3) return 'vertical'
+  return null
+}
+
+/**
+ * Squared coefficient of variation of a profile
+ */
+function profileContrast(profile: Float64Array): number {
+  const mean = profile.reduce((sum, value) => sum + value, 0) / profile.length
+  if (mean === 0) return 0
+  const variance = profile.reduce((sum, value) => sum + (value - mean) ** 2, 0) / profile.length
+  return variance / (mean * mean)
+}
+
+/**
+ * Rotations worth trying for a page, given which way its text lines run
+ */
+export function candidateRotations(direction: 'horizontal' | 'vertical' | null): PageRotation[] {
+  if (direction === 'horizontal') return [0, 180]
+  if (direction === 'vertical') return [90, 270]
+  return PAGE_ROTATIONS
+}
+
+/**
+ * Letter-ratio score of an OCR reading: letters in recognized words, weighted by
+ * word confidence. Text read the wrong way up comes out as short, low-confidence
+ * fragments full of punctuation, so the upright reading scores highest.
+ */
+export function scoreOrientationText(words: Array<{ text: string, confidence: number }>): number {
+  return words.reduce((score, word) => {
+    const letters = word.text.match(/\p{L}/gu)?.length ?? 0
+    return letters >= 2 ? score + letters * word.confidence : score
+  }, 0)
+}
@@ -0,0 +1,381 @@
+/**
+ * Pixel operations used by ImagePreprocessor. All of them work on RGBA rasters
+ * (ImageData or anything shaped like it) and return new rasters.
+ */
+
+export interface RasterImage {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+export interface CropBox {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+const WHITE = 255
+
+/**
+ * Perceived brightness of every pixel (0 = black, 255 = white)
+ */
+export function luminance(image: RasterImage): Uint8Array {
+  const { data, width, height } = image
+  const gray = new Uint8Array(width * height)
+
+  for (let i = 0, p = 0; p < gray.length; i += 4, p++) {
+    gray[p] = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])
+  }
+
+  return gray
+}
+
+function fromLuminance(gray: Uint8Array, width: number, height: number): RasterImage {
+  const data = new Uint8ClampedArray(width * height * 4)
+
+  for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = gray[p]
+    data[i + 3] = 255
+  }
+
+  return { data, width, height }
+}
+
+export function grayscale(image: RasterImage): RasterImage {
+  return fromLuminance(luminance(image), image.width, image.height)
+}
+
+/**
+ * 3x3 median filter on luminance; removes salt-and-pepper speckle from photos and faxes
+ */
+export function denoise(image: RasterImage): RasterImage {
+  const { width, height } = image
+  const gray = luminance(image)
+  const output = new Uint8Array(gray.length)
+  const neighbours = new Uint8Array(9)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let n = 0
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = Math.min(height - 1, Math.max(0, y + dy))
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = Math.min(width - 1, Math.max(0, x + dx))
+          neighbours[n++] = gray[yy * width + xx]
+        }
+      }
+      neighbours.sort()
+      output[y * width + x] = neighbours[4]
+    }
+  }
+
+  return fromLuminance(output, width, height)
+}
+
+/**
+ * Bradley adaptive threshold: a pixel is black when it is darker than the mean of its
+ * neighbourhood by more than `sensitivity`. Handles uneven lighting on phone photos.
+ */
+export function adaptiveThreshold(image: RasterImage, windowSize: number, sensitivity: number = 0.15): RasterImage {
+  const { width, height } = image
+  const gray = luminance(image)
+  const integral = new Float64Array((width + 1) * (height + 1))
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x]
+      integral[(y + 1) * (width + 1) + (x + 1)] = integral[y * (width + 1) + (x + 1)] + rowSum
+    }
+  }
+
+  const half = Math.max(1, Math.floor(windowSize / 2))
+  const output = new Uint8Array(gray.length)
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half)
+    const y1 = Math.min(height, y + half + 1)
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half)
+      const x1 = Math.min(width, x + half + 1)
+      const area = (x1 - x0) * (y1 - y0)
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0]
+
+      output[y * width + x] = gray[y * width + x] * area < sum * (1 - sensitivity) ? 0 : WHITE
+    }
+  }
+
+  return fromLuminance(output, width, height)
+}
+
+/**
+ * Otsu's global threshold, used to tell ink from paper when analysing the page.
+ * Pixels below the returned value are ink.
+ */
+export function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Array(256).fill(0)
+  for (const value of gray) histogram[value]++
+
+  let total = 0
+  for (let t = 0; t < 256; t++) total += t * histogram[t]
+
+  let background = 0
+  let backgroundSum = 0
+  let bestThreshold = 127
+  let bestVariance = -1
+
+  for (let t = 0; t < 256; t++) {
+    background += histogram[t]
+    if (background === 0) continue
+    const foreground = gray.length - background
+    if (foreground === 0) break
+
+    backgroundSum += t * histogram[t]
+    const meanBackground = backgroundSum / background
+    const meanForeground = (total - backgroundSum) / foreground
+    const variance = background * foreground * (meanBackground - meanForeground) ** 2
+
+    if (variance > bestVariance) {
+      bestVariance = variance
+      bestThreshold = t
+    }
+  }
+
+  return bestThreshold + 1
+}
+
+/**
+ * Estimate text skew (degrees, positive = lines fall to the right) with a projection
+ * profile: the angle at which dark pixels pile up into the sharpest row histogram wins.
+ */
+export function detectSkewAngle(image: RasterImage, maxAngle: number = 10, maxSamples: number = 40000): number {
+  const { width, height } = image
+  const gray = luminance(image)
+  const threshold = otsuThreshold(gray)
+
+  const darkPixels: number[] = []
+  let darkCount = 0
+  for (let p = 0; p < gray.length; p++) {
+    if (gray[p] < threshold) darkCount++
+  }
+  if (darkCount === 0) return 0
+
+  const stride = Math.max(1, Math.ceil(darkCount / maxSamples))
+  let seen = 0
+  for (let p = 0; p < gray.length; p++) {
+    if (gray[p] < threshold && seen++ % stride === 0) {
+      darkPixels.push(p)
+    }
+  }
+
+  const scoreAngle = (degrees: number): number => {
+    const tan = Math.tan(degrees * Math.PI / 180)
+    const offset = Math.ceil(Math.abs(tan) * width)
+    const rows = new Float64Array(height + 2 * offset + 1)
+
+    for (const p of darkPixels) {
+      const x = p % width
+      const y = (p - x) / width
+      rows[Math.round(y - x * tan) + offset]++
+    }
+
+    let score = 0
+    for (const count of rows) score += count * count
+    return score
+  }
+
+  // Coarse search, then refine around the best angle
+  let bestAngle = 0
+  let bestScore = scoreAngle(0)
+  for (let angle = -maxAngle; angle <= maxAngle; angle += 0.5) {
+    const score = scoreAngle(angle)
+    if (score > bestScore) {
+      bestScore = score
+      bestAngle = angle
+    }
+  }
+
+  const coarse = bestAngle
+  for (let angle = coarse - 0.4; angle <= coarse + 0.4; angle += 0.1) {
+    const score = scoreAngle(angle)
+    if (score > bestScore) {
+      bestScore = score
+      bestAngle = angle
+    }
+  }
+
+  return Math.round(bestAngle * 10) / 10
+}
+
+/**
+ * Rotate the image by -angle around its centre so skewed text lines become horizontal.
+ * Uncovered corners are filled with white.
+ */
+export function rotate(image: RasterImage, angle: number): RasterImage {
+  const { data, width, height } = image
+  const output = new Uint8ClampedArray(data.length).fill(WHITE)
+  const radians = angle * Math.PI / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  const cx = width / 2
+  const cy = height / 2
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sx = Math.round(cx + (x - cx) * cos - (y - cy) * sin)
+      const sy = Math.round(cy + (x - cx) * sin + (y - cy) * cos)
+      if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue
+
+      const source = (sy * width + sx) * 4
+      const target = (y * width + x) * 4
+      output[target] = data[source]
+      output[target + 1] = data[source + 1]
+      output[target + 2] = data[source + 2]
+      output[target + 3] = data[source + 3]
+    }
+  }
+
+  return { data: output, width, height }
+}
+
+/**
+ * Find the part of the image worth keeping: first trim dark background around the
+ * sheet (table, hands), then blank margins around the printed content.
+ * Returns null when there is nothing meaningful to crop.
+ */
+export function detectContentBox(image: RasterImage, padding: number = 0.02): CropBox | null {
+  const { width, height } = image
+  const gray = luminance(image)
+  const threshold = otsuThreshold(gray)
+
+  const rowDark = (y: number, x0: number, x1: number) => {
+    let count = 0
+    for (let x = x0; x < x1; x++) if (gray[y * width + x] < threshold) count++
+    return count
+  }
+  const columnDark = (x: number, y0: number, y1: number) => {
+    let count = 0
+    for (let y = y0; y < y1; y++) if (gray[y * width + x] < threshold) count++
+    return count
+  }
+
+  // 1. Background: edge rows/columns that are mostly dark are not paper
+  let top = 0
+  let bottom = height
+  let left = 0
+  let right = width
+  while (top < bottom - 1 && rowDark(top, left, right) > (right - left) / 2) top++
+  while (bottom - 1 > top && rowDark(bottom - 1, left, right) > (right - left) / 2) bottom--
+  while (left < right - 1 && columnDark(left, top, bottom) > (bottom - top) / 2) left++
+  while (right - 1 > left && columnDark(right - 1, top, bottom) > (bottom - top) / 2) right--
+
+  // 2. Margins: edge rows/columns on the paper with (almost) no ink
+  const noise = (length: number) => Math.max(1, Math.floor(length * 0.002))
+  while (top < bottom - 1 && rowDark(top, left, right) <= noise(right - left)) top++
+  while (bottom - 1 > top && rowDark(bottom - 1, left, right) <= noise(right - left)) bottom--
+  while (left < right - 1 && columnDark(left, top, bottom) <= noise(bottom - top)) left++
+  while (right - 1 > left && columnDark(right - 1, top, bottom) <= noise(bottom - top)) right--
+
+  if (right - left < 2 || bottom - top < 2) return null
+
+  const padX = Math.max(10, Math.round(width * padding))
+  const padY = Math.max(10, Math.round(height * padding))
+  const box: CropBox = {
+    x: Math.max(0, left - padX),
+    y: Math.max(0, top - padY),
+    w: 0,
+    h: 0
+  }
+  box.w = Math.min(width, right + padX) - box.x
+  box.h = Math.min(height, bottom + padY) - box.y
+
+  // Not worth a copy for a sliver
+  if (box.w * box.h > width * height * 0.98) return null
+
+  return box
+}
+
+export function crop(image: RasterImage, box: CropBox): RasterImage {
+  const { data, width } = image
+  const output = new Uint8ClampedArray(box.w * box.h * 4)
+
+  for (let y = 0; y < box.h; y++) {
+    const start = ((box.y + y) * width + box.x) * 4
+    output.set(data.subarray(start, start + box.w * 4), y * box.w * 4)
+  }
+
+  return { data: output, width: box.w, height: box.h }
+}
+
+/**
+ * Median height (px) of text line bands found in the horizontal projection of dark pixels.
+ * Returns null when no text band is found.
+ */
+export function estimateTextHeight(image: RasterImage): number | null {
+  const { width, height } = image
+  const gray = luminance(image)
+  const threshold = otsuThreshold(gray)
+
+  const bands: number[] = []
+  let bandStart = -1
+
+  for (let y = 0; y <= height; y++) {
+    let hasInk = false
+    if (y < height) {
+      for (let x = 0; x < width; x++) {
+        if (gray[y * width + x] < threshold) {
+          hasInk = true
+          break
+        }
+      }
+    }
+
+    if (hasInk && bandStart < 0) {
+      bandStart = y
+    } else if (!hasInk && bandStart >= 0) {
+      bands.push(y - bandStart)
+      bandStart = -1
+    }
+  }
+
+  if (bands.length === 0) return null
+
+  bands.sort((a, b) => a - b)
+  return bands[Math.floor(bands.length / 2)]
+}
+
+/**
+ * Bilinear resize by a uniform scale factor
+ */
+export function scaleImage(image: RasterImage, scale: number): RasterImage {
+  const { data, width, height } = image
+  const newWidth = Math.max(1, Math.round(width * scale))
+  const newHeight = Math.max(1, Math.round(height * scale))
+  const output = new Uint8ClampedArray(newWidth * newHeight * 4)
+
+  for (let y = 0; y < newHeight; y++) {
+    const sy = Math.min(height - 1, Math.max(0, (y + 0.5) / scale - 0.5))
+    const y0 = Math.floor(sy)
+    const y1 = Math.min(height - 1, y0 + 1)
+    const fy = sy - y0
+
+    for (let x = 0; x < newWidth; x++) {
+      const sx = Math.min(width - 1, Math.max(0, (x + 0.5) / scale - 0.5))
+      const x0 = Math.floor(sx)
+      const x1 = Math.min(width - 1, x0 + 1)
+      const fx = sx - x0
+
+      const target = (y * newWidth + x) * 4
+      for (let c = 0; c < 4; c++) {
+        const top = data[(y0 * width + x0) * 4 + c] * (1 - fx) + data[(y0 * width + x1) * 4 + c] * fx
+        const bottom = data[(y1 * width + x0) * 4 + c] * (1 - fx) + data[(y1 * width + x1) * 4 + c] * fx
+        output[target + c] = top * (1 - fy) + bottom * fy
+      }
+    }
+  }
+
+  return { data: output, width: newWidth, height: newHeight }
+}
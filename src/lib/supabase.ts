@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import type { CandidatePrice } from './candidates/prices'
+import type { OcrPageTransform } from './ocr/OcrProvider'
 
 const supabaseUrl = (import.meta as any).env?.VITE_SUPABASE_URL
 const supabaseAnonKey = (import.meta as any).env?.VITE_SUPABASE_ANON_KEY
@@ -30,6 +32,10 @@ export interface MenuUpload {
   file_name: string
   file_type: string
   page_count: number
+  ocr_languages: string[]
+  detected_language: string | null
+  content_hash: string | null
+  page_rotations: number[] | null
   created_at: string
 }
 
@@ -44,6 +50,11 @@ export interface ExtractedLine {
     w: number
     h: number
   }
+  bbox_normalized?: { x: number, y: number, w: number, h: number } | null // bbox as fractions (0-1) of the page size
+  page_width?: number | null // Pixel size of the recognized page image
+  page_height?: number | null
+  page_dpi?: number | null
+  page_transform?: OcrPageTransform | null // How the recognized image was made from the page as uploaded
   raw?: any
   created_at: string
 }
@@ -70,6 +81,8 @@ export interface Entree {
   entree_id: string
   menu_id: string
   text: string
+  prices: CandidatePrice[] // As read from the menu; empty when none was found
+  description: string | null // Printed under the dish, or written by the reviewer
   source_line_id?: string
   created_by?: string
   created_at: string
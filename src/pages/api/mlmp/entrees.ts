@@ -18,7 +18,7 @@ export async function GET(request: NextRequest) {
     // Get approved entrees for the menu
     const { data: entrees, error } = await serviceClient
       .from('mlmp_entrees')
-      .select('text')
+      .select('text, prices, description')
       .eq('menu_id', menuId)
       .order('created_at', { ascending: true })
 
@@ -28,7 +28,13 @@ export async function GET(request: NextRequest) {
 
     const response = {
       menu_id: menuId,
-      entrees: entrees?.map(entree => entree.text) || []
+      entrees: entrees?.map(entree => entree.text) || [],
+      // Each entree with what was saved alongside it on approval
+      items: entrees?.map(entree => ({
+        text: entree.text,
+        prices: entree.prices ?? [],
+        description: entree.description ?? null
+      })) || []
     }
 
     return NextResponse.json(response)
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '../../../lib/supabase'
+import {
+  OCR_EXPORT_FORMATS,
+  exportOcrPages,
+  getExportFileName,
+  isOcrExportFormat,
+  pagesFromExtractedLines
+} from '../../../lib/export'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const menuId = searchParams.get('menu_id')
+    const format = searchParams.get('format')
+
+    if (!menuId) {
+      return NextResponse.json(
+        { error: 'menu_id parameter is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!isOcrExportFormat(format)) {
+      return NextResponse.json(
+        { error: 'format parameter must be "hocr" or "alto"' },
+        { status: 400 }
+      )
+    }
+
+    const serviceClient = createServiceClient()
+
+    const { data: menu, error: menuError } = await serviceClient
+      .from('mlmp_menu_uploads')
+      .select('file_name, ocr_languages')
+      .eq('menu_id', menuId)
+      .single()
+
+    if (menuError || !menu) {
+      return NextResponse.json(
+        { error: 'Menu not found' },
+        { status: 404 }
+      )
+    }
+
+    // Get the stored OCR lines in reading order
+    const { data: lines, error: linesError } = await serviceClient
+      .from('mlmp_extracted_lines')
+      .select('*')
+      .eq('menu_id', menuId)
+      .order('page', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (linesError) {
+      throw new Error(`Failed to fetch extracted lines: ${linesError.message}`)
+    }
+
+    const document = exportOcrPages(format, pagesFromExtractedLines(lines || []), {
+      title: menu.file_name,
+      languages: menu.ocr_languages
+    })
+
+    return new NextResponse(document, {
+      headers: {
+        'Content-Type': `${OCR_EXPORT_FORMATS[format].mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${getExportFileName(menu.file_name, format).replace(/"/g, '')}"`
+      }
+    })
+
+  } catch (error) {
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceClient } from '../../../lib/supabase'
-import { createOcrProvider } from '../../../lib/ocr'
-import { pdfToImages } from '../../../lib/pdf/pdfToImages'
-import { extractCandidates } from '../../../lib/candidates'
+import {
+  NodeTesseractOcrProvider,
+  NODE_TESSERACT_PROVIDER_NAME,
+  getNodeTesseractAssets,
+  verifyNodeOcrAssets,
+  decodeImageBytes,
+  encodeImageDataAsPng
+} from '../../../lib/ocr/NodeTesseractOcrProvider'
+import { sha256Hex } from '../../../lib/ocr/hash'
+import { getOcrCacheConfig, loadCachedOcr, saveCachedOcr } from '../../../lib/ocr/cache'
+import { loadCulinaryLexicon, correctOcrSpelling, type SpellingCorrection } from '../../../lib/ocr/spelling'
+import { openPdfBuffer, getPdfBufferPageCount, type NodePdfPageSource } from '../../../lib/pdf/pdfToImagesNode'
+import { selectPdfPages, getMaxPdfPages } from '../../../lib/pdf/pageRange'
+import { openTiffBuffer } from '../../../lib/image/tiffPagesNode'
+import { MENU_FILE_TYPES, MENU_FILE_TYPE_NAMES, isPagedFileType } from '../../../lib/image/formats'
+import { parseOcrLanguageSelection, detectLanguageFromText, type OcrLanguageSelection } from '../../../lib/ocr/languages'
+import { isAbortError, throwIfAborted } from '../../../lib/ocr/abort'
+import type { OcrResult, OcrPageGeometry, OcrPageTransform, OcrProgressCallback } from '../../../lib/ocr/OcrProvider'
+import { normalizeBoundingBox } from '../../../lib/ocr/geometry'
+import {
+  ImagePreprocessor,
+  isPageRotation,
+  parsePreprocessSteps,
+  rotateQuarterTurns,
+  type PageRotation,
+  type PreprocessStepReport
+} from '../../../lib/preprocess'
+import { extractCandidatesWithTrace, getExtractionProfile, listExtractionProfiles, DEFAULT_EXTRACTION_PROFILE, type ExtractionTrace } from '../../../lib/candidates'
 import { loadLatestModel } from '../../../lib/ml'
 
 export async function POST(request: NextRequest) {
@@ -19,10 +44,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'application/pdf']
-    if (!allowedTypes.includes(file.type)) {
+    if (!MENU_FILE_TYPES.includes(file.type)) {
       return NextResponse.json(
-        { error: 'Invalid file type. Only JPG, PNG, and PDF files are supported.' },
+        { error: `Invalid file type. Only ${MENU_FILE_TYPE_NAMES} files are supported.` },
         { status: 400 }
       )
     }
@@ -36,159 +60,521 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const serviceClient = createServiceClient()
+    // OCR languages: "auto" or a comma-separated list of Tesseract codes (defaults to eng,fra)
+    const languages = parseOcrLanguageSelection(formData.get('languages') as string | null)
+    if (!languages) {
+      return NextResponse.json(
+        { error: 'Invalid languages. Use "auto" or a comma-separated list of: eng, fra, spa, ita, deu, por.' },
+        { status: 400 }
+      )
+    }
 
-    // Save menu upload record
-    const { data: menuData, error: menuError } = await serviceClient
-      .from('mlmp_menu_uploads')
-      .insert({
-        file_name: file.name,
-        file_type: file.type,
-        page_count: 1 // Will be updated after processing
-      })
-      .select()
-      .single()
+    // Preprocessing: "default", "none" or a comma-separated list of steps
+    const preprocessSteps = parsePreprocessSteps(formData.get('preprocess') as string | null)
+    if (!preprocessSteps) {
+      return NextResponse.json(
+        { error: 'Invalid preprocess steps. Use "default", "none" or a comma-separated list of: grayscale, denoise, deskew, crop, upscale, threshold.' },
+        { status: 400 }
+      )
+    }
+    const preprocessor = new ImagePreprocessor({ steps: preprocessSteps })
 
-    if (menuError) {
-      throw new Error(`Failed to save menu record: ${menuError.message}`)
+    // Extraction profile: the registered set of stages to run for this kind of menu
+    const profile = (formData.get('profile') as string | null)?.trim() || DEFAULT_EXTRACTION_PROFILE.name
+    if (!getExtractionProfile(profile)) {
+      return NextResponse.json(
+        { error: `Unknown extraction profile "${profile}". Use one of: ${listExtractionProfiles().map(p => p.name).join(', ')}.` },
+        { status: 400 }
+      )
+    }
+
+    // PDF and TIFF pages: a range such as "1-5,8" (defaults to all), at most MAX_PDF_PAGES of them
+    let pages: number[] | null = null
+    if (isPagedFileType(file.type)) {
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      const totalPages = file.type === 'application/pdf'
+        ? await getPdfBufferPageCount(bytes)
+        : (await openTiffBuffer(bytes)).totalPages
+      const selection = selectPdfPages(formData.get('pages') as string | null, totalPages, getMaxPdfPages(process.env.MAX_PDF_PAGES))
+      if ('error' in selection) {
+        return NextResponse.json(
+          { error: selection.error },
+          { status: 400 }
+        )
+      }
+      pages = selection.pages
     }
 
-    // Initialize OCR provider
-    const ocrProvider = createOcrProvider('tesseract')
-    if (!ocrProvider.isAvailable()) {
-      throw new Error('OCR provider not available')
+    // auto_rotate=false keeps pages as uploaded; force_reocr=true ignores cached OCR results;
+    // text_layer=false OCRs digital PDFs instead of reading their embedded text
+    const options: ProcessMenuOptions = {
+      languages,
+      preprocessor,
+      autoRotate: formData.get('auto_rotate') !== 'false',
+      forceReocr: formData.get('force_reocr') === 'true',
+      useTextLayer: formData.get('text_layer') !== 'false',
+      pages,
+      profile
     }
 
-    // Process the file
-    let ocrResults: any[] = []
-    let pageCount = 1
+    // Stop OCR when the client disconnects
+    const signal = request.signal
 
-    if (file.type === 'application/pdf') {
-      // Process PDF
-      const pdfResult = await pdfToImages(file)
-      pageCount = pdfResult.totalPages
-      ocrResults = []
-      
-      for (const page of pdfResult.pages) {
-        const result = await ocrProvider.processImage(page.imageData)
-        ocrResults.push(result)
+    // Clients that accept NDJSON get progress events as they happen, then the result
+    if (request.headers.get('accept')?.includes('application/x-ndjson')) {
+      return streamProcessing(send => processMenu(file, options, signal, event => {
+        send({ type: 'progress', ...event })
+      }))
+    }
+
+    const response = await processMenu(file, options, signal, () => {})
+    return NextResponse.json(response)
+
+  } catch (error) {
+    if (isAbortError(error)) {
+      console.log('Processing cancelled: client disconnected')
+      return NextResponse.json(
+        { error: 'Processing cancelled' },
+        { status: 499 }
+      )
+    }
+
+    console.error('API Error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+interface ProcessMenuOptions {
+  languages: OcrLanguageSelection
+  preprocessor: ImagePreprocessor
+  autoRotate: boolean
+  forceReocr: boolean
+  useTextLayer: boolean
+  pages: number[] | null // PDF or TIFF page numbers to process; null for single images
+  profile: string // Name of a registered extraction profile
+}
+
+/**
+ * Upload, OCR and extract candidates for one menu file, reporting progress as it goes
+ */
+async function processMenu(
+  file: File,
+  options: ProcessMenuOptions,
+  signal: AbortSignal,
+  onProgress: OcrProgressCallback
+) {
+  // Fail before reading the file when local traineddata is configured but missing
+  await verifyNodeOcrAssets()
+
+  const { languages, preprocessor, autoRotate, forceReocr } = options
+  const useTextLayer = options.useTextLayer && file.type === 'application/pdf'
+  const serviceClient = createServiceClient()
+  const fileBytes = new Uint8Array(await file.arrayBuffer())
+  const contentHash = await sha256Hex(fileBytes)
+
+  // PDF and TIFF pages are rendered later, one at a time, as OCR is ready for them
+  if (isPagedFileType(file.type)) onProgress({ stage: 'rasterizing', percent: 0 })
+  const pdf: NodePdfPageSource | null = file.type === 'application/pdf'
+    ? await openPdfBuffer(fileBytes)
+    : file.type === 'image/tiff' ? await openTiffBuffer(fileBytes) : null
+  const pageCount = pdf?.totalPages ?? 1
+  const pages = pdf ? options.pages ?? Array.from({ length: pageCount }, (_, i) => i + 1) : [1]
+
+  // Reuse OCR results when the same file was processed before with the same settings
+  const ocrConfig = getOcrCacheConfig(
+    NODE_TESSERACT_PROVIDER_NAME,
+    languages,
+    preprocessor.getSteps(),
+    autoRotate,
+    useTextLayer,
+    pages.length < pageCount ? pages : null
+  )
+  const cached = forceReocr ? null : await loadCachedOcr(serviceClient, contentHash, ocrConfig, true)
+  const cachedResults = cached && cached.results.length === pages.length ? cached.results : null
+
+  // The worker pool (server-side build, works on raw file bytes) starts the first time
+  // a page needs OCR, for orientation detection or recognition.
+  // OCR_WORKERS sets the pool size; there is no point in more workers than pages.
+  const workerCount = Math.max(1, Math.min(pages.length, Number(process.env.OCR_WORKERS) || 2))
+  let ocrProvider = null as NodeTesseractOcrProvider | null
+  const getOcrProvider = async () => {
+    if (!ocrProvider) {
+      ocrProvider = new NodeTesseractOcrProvider({ assets: getNodeTesseractAssets(), workerCount })
+      await ocrProvider.ready()
+    }
+    return ocrProvider
+  }
+
+  const rotations: PageRotation[] = []
+  const preprocessing: Array<{ page: number, steps: PreprocessStepReport[] }> = []
+  const pageGeometries: OcrPageGeometry[] = []
+  const textLayers: OcrResult[] = []
+  const jobs: Promise<OcrResult>[] = []
+  const inFlight: Promise<unknown>[] = []
+  let ocrResults: OcrResult[] = []
+  // A cache entry for a different page count isn't used, and neither are its languages
+  const usedCache = cachedResults ? cached : null
+  let ocrLanguages: string[] | null = usedCache?.ocrLanguages ?? null
+  let detectedLanguage: string | null = usedCache?.detectedLanguage ?? null
+
+  try {
+    // Pages are rendered, turned upright and preprocessed one at a time, and only as many
+    // wait for OCR as there are workers, so a large PDF never has all its pages in memory.
+    // Cached pages keep the rotation they were recognized at.
+    for (const [i, page] of pages.entries()) {
+      throwIfAborted(signal)
+
+      let bytes: Uint8Array = fileBytes
+      let dpi: number | undefined
+      let textLayer: OcrResult | null = null
+      if (pdf) {
+        const rendered = await pdf.renderPage(page)
+        bytes = rendered.png
+        dpi = rendered.dpi
+        if (useTextLayer && rendered.textLayer) {
+          textLayer = { ...rendered.textLayer, page: { width: rendered.width, height: rendered.height, dpi: rendered.dpi } }
+        }
+      } else if (file.type === 'image/webp' || file.type === 'image/gif') {
+        // Tesseract is handed PNG or JPEG; GIFs are read at their first frame
+        bytes = await encodeImageDataAsPng(await decodeImageBytes(fileBytes))
       }
-    } else {
-      // Process image
-      const arrayBuffer = await file.arrayBuffer()
-      const blob = new Blob([arrayBuffer], { type: file.type })
-      const imageUrl = URL.createObjectURL(blob)
-      
-      const image = new Image()
-      image.src = imageUrl
-      
-      await new Promise((resolve, reject) => {
-        image.onload = resolve
-        image.onerror = reject
+
+      // Digital pages are read from their text layer, measured on the page as rendered
+      if (textLayer) {
+        rotations.push(0)
+        preprocessing.push({ page, steps: [] })
+        pageGeometries.push(textLayer.page!)
+        textLayers.push(textLayer)
+        onProgress({ stage: 'recognizing', page: i + 1, percent: 100 })
+        jobs.push(Promise.resolve(cachedResults?.[i] ?? { ...textLayer, rotation: 0 }))
+        continue
+      }
+
+      const cachedRotation = cachedResults?.[i].rotation
+      const rotation = isPageRotation(cachedRotation) ? cachedRotation : autoRotate ? 'auto' : 0
+
+      onProgress({ stage: 'preprocessing', page: i + 1, percent: 0 })
+      const prepared = await preparePageBytes(bytes, preprocessor, rotation, getOcrProvider, signal)
+      rotations.push(prepared.rotation)
+      preprocessing.push({ page, steps: prepared.steps })
+      pageGeometries.push({
+        width: prepared.width,
+        height: prepared.height,
+        ...(dpi !== undefined && { dpi: Math.round(dpi * prepared.scale) }),
+        ...(prepared.transform && { transform: prepared.transform })
       })
+      onProgress({ stage: 'preprocessing', page: i + 1, percent: 100 })
 
-      const result = await ocrProvider.processImage(image)
-      ocrResults = [result]
-      
-      URL.revokeObjectURL(imageUrl)
-    }
-
-    // Update page count
-    await serviceClient
-      .from('mlmp_menu_uploads')
-      .update({ page_count: pageCount })
-      .eq('menu_id', menuData.menu_id)
-
-    // Extract candidates and save to database
-    const allCandidates: any[] = []
-    const allLines: any[] = []
-
-    for (let pageIndex = 0; pageIndex < ocrResults.length; pageIndex++) {
-      const ocrResult = ocrResults[pageIndex]
-      
-      // Save extracted lines to database
-      for (const line of ocrResult.lines) {
-        const { data: lineData, error: lineError } = await serviceClient
-          .from('mlmp_extracted_lines')
-          .insert({
-            menu_id: menuData.menu_id,
-            page: pageIndex + 1,
-            text: line.text,
-            bbox: line.bbox,
-            raw: { confidence: line.confidence, words: line.words }
-          })
-          .select()
-          .single()
-
-        if (lineError) {
-          console.error('Failed to save extracted line:', lineError)
-          continue
-        }
+      if (cachedResults) {
+        onProgress({ stage: 'recognizing', page: i + 1, percent: 100 })
+        jobs.push(Promise.resolve(cachedResults[i]))
+        continue
+      }
+
+      // Language selection samples the first page that needs OCR
+      const provider = await getOcrProvider()
+      if (!ocrLanguages) {
+        detectedLanguage = await provider.applyLanguageSelection(languages, prepared.image, { signal, page: i + 1, onProgress })
+        ocrLanguages = provider.getLanguages()
+      }
 
-        allLines.push(lineData)
+      // Wait for a free worker before rendering the next page
+      if (inFlight.length >= workerCount) {
+        await inFlight.shift()
       }
 
-      // Extract candidates
-      const pageCandidates = extractCandidates(ocrResult.lines, pageIndex + 1)
-      allCandidates.push(...(await pageCandidates))
+      const job = provider.processImage(prepared.image, { signal, page: i + 1, onProgress })
+        .then(result => ({ ...result, rotation: prepared.rotation }))
+      jobs.push(job)
+      inFlight.push(job.catch(() => {})) // Failures surface from Promise.all below
     }
 
-    // Apply ML model if available
-    try {
-      const mlModel = await loadLatestModel()
-      const predictions = await mlModel?.batchPredict(
-        allCandidates.map(c => ({ features: c.features, text: c.text }))
-      )
+    // Promise.all keeps page order
+    ocrResults = await Promise.all(jobs)
 
-      // Update candidates with ML confidence
-      if (predictions) {
-        allCandidates.forEach((candidate, index) => {
-          candidate.confidence = predictions[index]
-        })
+    // Without a page to OCR, the embedded text tells the language
+    if (!ocrLanguages) {
+      if (languages === 'auto') {
+        detectedLanguage = detectLanguageFromText(textLayers.map(result => result.lines.map(line => line.text).join('\n')).join('\n'))
+        ocrLanguages = detectedLanguage ? [detectedLanguage] : []
+      } else {
+        ocrLanguages = languages
       }
+    }
 
-      // Sort by ML confidence
-      allCandidates.sort((a, b) => b.confidence - a.confidence)
-    } catch (mlError) {
-      console.warn('ML model not available, using heuristic confidence:', mlError)
-    }
-
-    // Save predictions to database
-    for (const candidate of allCandidates) {
-      const lineId = allLines.find(line => 
-        line.text === candidate.text && line.page === candidate.page
-      )?.line_id
-
-      if (lineId) {
-        await serviceClient
-          .from('mlmp_predictions')
-          .insert({
-            line_id: lineId,
-            model_version: 'heuristic', // TODO: Use actual model version
-            features: candidate.features,
-            confidence: candidate.confidence
-          })
+    if (!cachedResults) {
+      await saveCachedOcr(serviceClient, contentHash, ocrConfig, { results: ocrResults, ocrLanguages, detectedLanguage })
+    }
+  } finally {
+    await ocrProvider?.destroy()
+    await pdf?.destroy()
+  }
+
+  // Boxes stay in pixels of the recognized image; the page geometry lets them be normalized
+  ocrResults = ocrResults.map((result, i) => ({ ...result, page: pageGeometries[i] }))
+
+  // Fix near-miss dish words; the cache keeps what OCR read, so a bigger lexicon applies to it next time
+  const lexicon = await loadCulinaryLexicon(serviceClient)
+  const spellingCorrections: Array<{ page: number } & SpellingCorrection> = []
+  ocrResults = ocrResults.map((result, i) => {
+    const { result: corrected, corrections } = correctOcrSpelling(result, lexicon)
+    spellingCorrections.push(...corrections.map(correction => ({ page: pages[i], ...correction })))
+    return corrected
+  })
+
+  // Save the menu upload record only now, so a file that fails to open or OCR leaves no row behind
+  const { data: menuData, error: menuError } = await serviceClient
+    .from('mlmp_menu_uploads')
+    .insert({
+      file_name: file.name,
+      file_type: file.type,
+      page_count: pageCount,
+      content_hash: contentHash,
+      ocr_languages: ocrLanguages,
+      detected_language: detectedLanguage,
+      page_rotations: rotations
+    })
+    .select()
+    .single()
+
+  if (menuError) {
+    throw new Error(`Failed to save menu record: ${menuError.message}`)
+  }
+
+  // Extract candidates and save to database
+  const allCandidates: any[] = []
+  const candidateLineIds = new Map<string, string>() // Saved line of each candidate, by candidate id
+  const extractionTraces: ExtractionTrace[] = []
+
+  for (let pageIndex = 0; pageIndex < ocrResults.length; pageIndex++) {
+    const ocrResult = ocrResults[pageIndex]
+    onProgress({ stage: 'extracting', page: pageIndex + 1, percent: 0 })
+
+    // Save extracted lines to database
+    const lineIds: string[] = [] // By index into the page's OCR lines
+    for (const [lineIndex, line] of ocrResult.lines.entries()) {
+      const { data: lineData, error: lineError } = await serviceClient
+        .from('mlmp_extracted_lines')
+        .insert({
+          menu_id: menuData.menu_id,
+          page: pages[pageIndex],
+          text: line.text,
+          bbox: line.bbox,
+          bbox_normalized: normalizeBoundingBox(line.bbox, pageGeometries[pageIndex]),
+          page_width: pageGeometries[pageIndex].width,
+          page_height: pageGeometries[pageIndex].height,
+          page_dpi: pageGeometries[pageIndex].dpi ?? null,
+          page_transform: pageGeometries[pageIndex].transform ?? null,
+          raw: {
+            confidence: line.confidence,
+            words: line.words,
+            baseline: line.baseline,
+            block_index: line.blockIndex,
+            paragraph_index: line.paragraphIndex,
+            original_text: line.originalText,
+            font: line.font,
+            source: ocrResult.source ?? 'ocr'
+          }
+        })
+        .select()
+        .single()
+
+      if (lineError) {
+        console.error('Failed to save extracted line:', lineError)
+        continue
       }
+
+      lineIds[lineIndex] = lineData.line_id
     }
 
-    // Return response
-    const response = {
-      menu_id: menuData.menu_id,
-      candidates: allCandidates.map(candidate => ({
-        id: candidate.id,
-        text: candidate.text,
-        confidence: candidate.confidence,
-        page: candidate.page
+    // Extract candidates
+    const { candidates: pageCandidates, trace } = await extractCandidatesWithTrace(ocrResult.lines, pages[pageIndex], undefined, options.profile)
+    extractionTraces.push(trace)
+    // The trace knows which line each candidate came from, even once it was split, cleaned or corrected
+    for (const lineTrace of trace.lines) {
+      const lineId = lineIds[lineTrace.lineIndex]
+      if (!lineId) continue
+      for (const id of lineTrace.candidateIds) candidateLineIds.set(id, lineId)
+    }
+    allCandidates.push(...pageCandidates.map(candidate => ({
+      ...candidate,
+      bboxNormalized: candidate.bbox && normalizeBoundingBox(candidate.bbox, pageGeometries[pageIndex]),
+      // Price boxes go out relative to the page as uploaded too, not in preprocessed pixels
+      prices: candidate.prices?.map(({ bbox, ...price }) => ({
+        ...price,
+        bbox_normalized: bbox && normalizeBoundingBox(bbox, pageGeometries[pageIndex])
       }))
+    })))
+    onProgress({ stage: 'extracting', page: pageIndex + 1, percent: 100 })
+  }
+
+  // Apply ML model if available
+  try {
+    const mlModel = await loadLatestModel()
+    const predictions = await mlModel?.batchPredict(
+      allCandidates.map(c => ({ features: c.features, text: c.text }))
+    )
+
+    // Update candidates with ML confidence
+    if (predictions) {
+      allCandidates.forEach((candidate, index) => {
+        candidate.confidence = predictions[index]
+      })
     }
 
-    return NextResponse.json(response)
+    // Sort by ML confidence
+    allCandidates.sort((a, b) => b.confidence - a.confidence)
+  } catch (mlError) {
+    console.warn('ML model not available, using heuristic confidence:', mlError)
+  }
 
-  } catch (error) {
-    console.error('API Error:', error)
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Internal server error' },
-      { status: 500 }
-    )
+  // Save predictions to database
+  for (const candidate of allCandidates) {
+    const lineId = candidateLineIds.get(candidate.id)
+
+    if (lineId) {
+      await serviceClient
+        .from('mlmp_predictions')
+        .insert({
+          line_id: lineId,
+          model_version: 'heuristic', // TODO: Use actual model version
+          features: candidate.features,
+          confidence: candidate.confidence
+        })
+    }
+  }
+
+  return {
+    menu_id: menuData.menu_id,
+    ocr_languages: ocrLanguages,
+    detected_language: detectedLanguage,
+    content_hash: contentHash,
+    ocr_cached: cachedResults !== null,
+    page_rotations: rotations,
+    pages: pageGeometries.map((geometry, i) => ({ page: pages[i], ...geometry, source: ocrResults[i].source ?? 'ocr' })),
+    preprocessing,
+    spelling_corrections: spellingCorrections,
+    candidates: allCandidates.map(candidate => ({
+      id: candidate.id,
+      text: candidate.text,
+      confidence: candidate.confidence,
+      page: candidate.page,
+      bbox_normalized: candidate.bboxNormalized,
+      word_indices: candidate.wordIndices,
+      prices: candidate.prices,
+      description: candidate.description,
+      spelling_corrections: candidate.spellingCorrections
+    })),
+    extraction_traces: extractionTraces
+  }
+}
+
+/**
+ * Stream newline-delimited JSON: progress events while `run` works, then a
+ * final `result` or `error` line. The HTTP status is always 200 once streaming starts.
+ */
+function streamProcessing(
+  run: (send: (message: object) => void) => Promise<object>
+): Response {
+  const encoder = new TextEncoder()
+  // Set once the client goes away; enqueueing on a cancelled stream throws
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (message: object) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(JSON.stringify(message) + '\n'))
+      }
+      const close = () => {
+        if (closed) return
+        closed = true
+        try {
+          controller.close()
+        } catch (error) {
+          console.warn('Failed to close progress stream:', error)
+        }
+      }
+
+      try {
+        const result = await run(send)
+        send({ type: 'result', ...result })
+      } catch (error) {
+        if (isAbortError(error)) {
+          console.log('Processing cancelled: client disconnected')
+        } else {
+          console.error('API Error:', error)
+        }
+        send({
+          type: 'error',
+          error: isAbortError(error)
+            ? 'Processing cancelled'
+            : error instanceof Error ? error.message : 'Internal server error'
+        })
+      }
+      close()
+    },
+    cancel() {
+      closed = true
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache'
+    }
+  })
+}
+
+interface PreparedPage {
+  image: Uint8Array // Encoded image bytes for OCR
+  width: number // Pixel size of that image
+  height: number
+  scale: number // How much preprocessing enlarged the page
+  rotation: PageRotation
+  steps: PreprocessStepReport[]
+  transform?: OcrPageTransform // How the image was made from the page; absent when it is the page as is
+}
+
+/**
+ * Turn a page upright and run the preprocessing pipeline on encoded image bytes,
+ * re-encoding the result for OCR. 'auto' detects the rotation on the OCR worker pool.
+ */
+async function preparePageBytes(
+  bytes: Uint8Array,
+  preprocessor: ImagePreprocessor,
+  rotation: PageRotation | 'auto',
+  getOcrProvider: () => Promise<NodeTesseractOcrProvider>,
+  signal: AbortSignal
+): Promise<PreparedPage> {
+  const decoded = await decodeImageBytes(bytes)
+  if (rotation === 0 && preprocessor.getSteps().length === 0) {
+    return { image: bytes, width: decoded.width, height: decoded.height, scale: 1, rotation, steps: [] }
+  }
+
+  const appliedRotation = rotation === 'auto'
+    ? (await (await getOcrProvider()).detectOrientation(decoded, { signal })).rotation
+    : rotation
+
+  const rotated = rotateQuarterTurns(decoded, appliedRotation)
+  const transform = { width: decoded.width, height: decoded.height, rotation: appliedRotation, skew: 0, crop: null, scale: 1 }
+  if (preprocessor.getSteps().length === 0) {
+    const image = appliedRotation === 0 ? bytes : await encodeImageDataAsPng(rotated)
+    return { image, width: rotated.width, height: rotated.height, scale: 1, rotation: appliedRotation, steps: [], transform }
+  }
+
+  const result = preprocessor.process(rotated)
+  return {
+    image: await encodeImageDataAsPng(result.image),
+    width: result.image.width,
+    height: result.image.height,
+    scale: result.scale,
+    rotation: appliedRotation,
+    steps: result.steps,
+    transform: { ...transform, skew: result.skew, crop: result.crop, scale: result.scale }
   }
 }
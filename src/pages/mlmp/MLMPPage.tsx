@@ -1,18 +1,45 @@
-import React, { useState, useCallback, useEffect } from 'react'
+import React, { useState, useCallback, useEffect, useRef } from 'react'
 import { supabase } from '../../lib/supabase'
-import { createOcrProvider } from '../../lib/ocr'
-import { pdfToImages } from '../../lib/pdf/pdfToImages'
-import { extractCandidates, normalizeCandidateText, validateEntreeName } from '../../lib/candidates'
+import {
+  createOcrProvider,
+  sha256Hex,
+  detectLanguageFromText,
+  getLocalOcrAssets,
+  listRequiredOcrAssets,
+  verifyOcrAssets,
+  urlExists
+} from '../../lib/ocr'
+import { openPdf, getPdfPageCount } from '../../lib/pdf/pdfToImages'
+import { openTiff } from '../../lib/image/tiffPages'
+import { isPagedFileType } from '../../lib/image/formats'
+import { selectPdfPages, getMaxPdfPages } from '../../lib/pdf/pageRange'
+import { extractCandidatesWithTrace, normalizeCandidateText, validateEntreeName, type ExtractionTrace } from '../../lib/candidates'
 import { loadLatestModel } from '../../lib/ml'
 import { saveUserFeedback, saveCandidatePredictions, triggerRetrainingIfNeeded, getLearningStats } from '../../lib/learning/feedback'
-import type { OcrResult } from '../../lib/ocr/OcrProvider'
+import type { OcrProvider, OcrResult, OcrImageInput, OcrPageGeometry, OcrPageTransform, OcrBoundingBox, OcrProgressCallback, OcrProgressEvent } from '../../lib/ocr/OcrProvider'
+import { normalizeBoundingBox, denormalizeBoundingBox, fromSourceBoundingBox } from '../../lib/ocr/geometry'
+import { OcrProgressTracker, type OcrPageProgress } from '../../lib/ocr/progress'
+import { toImageData, imageDataToCanvas, canvasToImage } from '../../lib/ocr/imageData'
+import { isAbortError, throwIfAborted } from '../../lib/ocr/abort'
+import { getOcrCacheConfig, loadCachedOcr, saveCachedOcr, type CachedOcr } from '../../lib/ocr/cache'
+import { loadCulinaryLexicon, correctOcrSpelling } from '../../lib/ocr/spelling'
+import {
+  ImagePreprocessor,
+  isPageRotation,
+  rotateQuarterTurns,
+  type PageRotation,
+  type RasterImage
+} from '../../lib/preprocess'
+import { OCR_EXPORT_FORMATS, exportOcrPages, getExportFileName, type OcrExportFormat, type OcrExportPage } from '../../lib/export'
 import type { Candidate } from '../../lib/candidates/extractCandidates'
 import type { MenuUpload, ExtractedLine } from '../../lib/supabase'
 import Auth from '../../components/Auth'
-import UploadArea from '../../components/UploadArea'
+import UploadArea, { type UploadOptions } from '../../components/UploadArea'
 import ProcessingStatus from '../../components/ProcessingStatus'
 import CandidatesList from '../../components/CandidatesList'
+import ExtractionTraceList from '../../components/ExtractionTraceList'
 import MenuCanvas from '../../components/MenuCanvas'
+import PageThumbnails from '../../components/PageThumbnails'
 import EditModal from '../../components/EditModal'
 
 export interface ProcessingState {
@@ -20,6 +47,21 @@ export interface ProcessingState {
   progress: number
   message: string
   error?: string
+  pages?: OcrPageProgress[]
+}
+
+// A page ready for recognition; digital PDF pages bring their text layer and skip OCR
+interface PreparedOcrPage {
+  input: OcrImageInput
+  rotation: PageRotation
+  textLayer?: OcrResult | null
+}
+
+// Cache entry for the file being processed; cached is null on a miss or a forced re-OCR
+interface OcrCacheLookup {
+  contentHash: string
+  config: string
+  cached: CachedOcr | null
 }
 
 export interface CandidateWithStatus extends Candidate {
@@ -40,10 +82,16 @@ const MLMPPage: React.FC = () => {
   const [candidates, setCandidates] = useState<CandidateWithStatus[]>([])
   const [selectedCandidate, setSelectedCandidate] = useState<string | null>(null)
   const [editingCandidate, setEditingCandidate] = useState<CandidateWithStatus | null>(null)
-  const [menuImage, setMenuImage] = useState<HTMLImageElement | null>(null)
-  const [ocrProvider, setOcrProvider] = useState<any>(null)
+  const [menuImages, setMenuImages] = useState<HTMLImageElement[]>([]) // One per page, as uploaded or rendered
+  const [currentPage, setCurrentPage] = useState(1)
+  const [ocrPages, setOcrPages] = useState<OcrExportPage[]>([])
+  const [extractionTraces, setExtractionTraces] = useState<ExtractionTrace[]>([]) // One per page, why each line was kept or dropped
+  const [reviewView, setReviewView] = useState<'candidates' | 'lines'>('candidates')
+  const [ocrProvider, setOcrProvider] = useState<OcrProvider | null>(null)
+  const [ocrInitError, setOcrInitError] = useState<string | null>(null)
   const [learningStats, setLearningStats] = useState<any>(null)
   const [retrainingNotification, setRetrainingNotification] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   // Check authentication status
   useEffect(() => {
@@ -67,12 +115,28 @@ const MLMPPage: React.FC = () => {
     
     const initOcr = async () => {
       try {
-        const provider = createOcrProvider('tesseract')
+        // Offline installs serve the pdf.js worker, Tesseract core and traineddata themselves;
+        // a missing file stops here rather than on the first upload
+        const localAssets = getLocalOcrAssets(import.meta.env.VITE_OCR_ASSETS_URL)
+        if (localAssets) {
+          await verifyOcrAssets(listRequiredOcrAssets(localAssets.tesseract, localAssets.pdfWorkerSrc), urlExists)
+        }
+
+        const provider = createOcrProvider(import.meta.env.VITE_OCR_PROVIDER || 'tesseract', undefined, {
+          assets: localAssets?.tesseract
+        })
         setOcrProvider(provider)
         console.log('OCR provider initialized successfully')
       } catch (error) {
         console.error('Failed to initialize OCR provider:', error)
-        console.log('Continuing without OCR provider...')
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        setOcrInitError(message)
+        setProcessingState({
+          status: 'error',
+          progress: 0,
+          message: 'OCR provider failed to start',
+          error: message
+        })
       }
     }
     initOcr()
@@ -94,13 +158,13 @@ const MLMPPage: React.FC = () => {
     }
   }
 
-  const handleFileUpload = useCallback(async (file: File) => {
+  const handleFileUpload = useCallback(async (file: File, options: UploadOptions) => {
     if (!ocrProvider) {
       setProcessingState({
         status: 'error',
         progress: 0,
         message: 'OCR provider not initialized',
-        error: 'Please wait for OCR provider to initialize'
+        error: ocrInitError ?? 'Please wait for OCR provider to initialize'
       })
       return
     }
@@ -112,6 +176,19 @@ const MLMPPage: React.FC = () => {
     })
 
     try {
+      // Pick the PDF or TIFF pages to process before anything is uploaded, so a range
+      // that is invalid or over the page limit costs nothing
+      let pageCount = 1
+      let pages = [1]
+      if (isPagedFileType(file.type)) {
+        pageCount = file.type === 'application/pdf' ? await getPdfPageCount(file) : await openTiff(file).then(tiff => tiff.totalPages)
+        const selection = selectPdfPages(options.pageRange, pageCount, getMaxPdfPages(import.meta.env.VITE_MAX_PDF_PAGES))
+        if ('error' in selection) {
+          throw new Error(selection.error)
+        }
+        pages = selection.pages
+      }
+
       // Upload file to Supabase Storage
       const fileExt = file.name.split('.').pop()
       const fileName = `${Date.now()}.${fileExt}`
@@ -126,13 +203,8 @@ const MLMPPage: React.FC = () => {
         throw new Error(`Upload failed: ${uploadError.message}`)
       }
 
-      // Get page count
-      let pageCount = 1
-      if (file.type === 'application/pdf') {
-        const { pdfToImages } = await import('../../lib/pdf/pdfToImages')
-        const result = await pdfToImages(file)
-        pageCount = result.totalPages
-      }
+      // Content hash lets re-uploads of the same file reuse cached OCR results
+      const contentHash = await sha256Hex(await file.arrayBuffer())
 
       // Save menu upload record
       const { data: menuData, error: menuError } = await supabase
@@ -141,6 +213,7 @@ const MLMPPage: React.FC = () => {
           file_name: file.name,
           file_type: file.type,
           page_count: pageCount,
+          content_hash: contentHash,
           user_id: user?.id // FIX: Include user_id for RLS
         })
         .select()
@@ -158,7 +231,7 @@ const MLMPPage: React.FC = () => {
       })
 
       // Process the file
-      await processFile(file, menuData.menu_id)
+      await processFile(file, menuData.menu_id, contentHash, options, pages, pageCount)
 
     } catch (error) {
       console.error('File upload failed:', error)
@@ -169,47 +242,250 @@ const MLMPPage: React.FC = () => {
         error: error instanceof Error ? error.message : 'Unknown error'
       })
     }
-  }, [ocrProvider])
+  }, [ocrProvider, ocrInitError])
+
+  // Record the languages and page rotations a menu was recognized with
+  const recordOcrSettings = async (
+    menuId: string,
+    ocrLanguages: string[],
+    detectedLanguage: string | null,
+    pageRotations: number[]
+  ) => {
+    const { error } = await supabase
+      .from('mlmp_menu_uploads')
+      .update({ ocr_languages: ocrLanguages, detected_language: detectedLanguage, page_rotations: pageRotations })
+      .eq('menu_id', menuId)
+
+    if (error) {
+      console.error('Failed to save OCR settings:', error)
+    }
+
+    setMenuUpload(prev => prev
+      ? { ...prev, ocr_languages: ocrLanguages, detected_language: detectedLanguage, page_rotations: pageRotations }
+      : prev)
+  }
+
+  // Recognize pages as they are prepared, reusing cached results when the same file was
+  // already OCR'd with the same provider and settings. Pages with a PDF text layer are not
+  // OCR'd. Only as many pages as there are workers wait for OCR at once, so a large PDF
+  // never has all its pages in memory.
+  const recognizePages = async (
+    provider: OcrProvider,
+    pageCount: number,
+    preparePageAt: (index: number) => Promise<PreparedOcrPage>,
+    menuId: string,
+    options: UploadOptions,
+    cache: OcrCacheLookup,
+    signal: AbortSignal,
+    onProgress: OcrProgressCallback
+  ): Promise<OcrResult[]> => {
+    if (pageCount === 0) return []
+
+    const cached = cache.cached && cache.cached.results.length === pageCount ? cache.cached : null
+
+    let languages: { ocrLanguages: string[], detectedLanguage: string | null } | null = cached
+    const rotations: PageRotation[] = []
+    const textLayers: OcrResult[] = []
+    const jobs: Promise<OcrResult>[] = []
+    const inFlight: Promise<unknown>[] = []
+    const maxInFlight: number = provider.getWorkerCount?.() ?? 1
+
+    for (let i = 0; i < pageCount; i++) {
+      throwIfAborted(signal)
+      const page = await preparePageAt(i)
+      rotations.push(page.rotation)
+
+      if (cached) {
+        onProgress({ stage: 'recognizing', page: i + 1, percent: 100 })
+        jobs.push(Promise.resolve(cached.results[i]))
+        continue
+      }
+
+      if (page.textLayer) {
+        onProgress({ stage: 'recognizing', page: i + 1, percent: 100 })
+        textLayers.push(page.textLayer)
+        jobs.push(Promise.resolve({ ...page.textLayer, rotation: 0 }))
+        continue
+      }
+
+      // Switch the OCR workers to the upload's languages, detecting them on the first page that needs OCR for 'auto'.
+      // Providers without language support just record the selection.
+      if (!languages) {
+        const detectedLanguage: string | null = await provider.applyLanguageSelection?.(options.languages, page.input, {
+          signal,
+          page: i + 1,
+          onProgress
+        }) ?? null
+        const selected = options.languages === 'auto' ? [] : options.languages
+        languages = { ocrLanguages: provider.getLanguages?.() ?? selected, detectedLanguage }
+      }
+
+      // Wait for a free worker before preparing the next page
+      if (inFlight.length >= maxInFlight) {
+        await inFlight.shift()
+      }
+
+      const job: Promise<OcrResult> = provider.processImage(page.input, { signal, page: i + 1, onProgress })
+        .then((result: OcrResult) => ({ ...result, rotation: page.rotation }))
+      jobs.push(job)
+      inFlight.push(job.catch(() => {})) // Failures surface from Promise.all below
+    }
+
+    const results = await Promise.all(jobs)
+
+    // Without a page to OCR, the embedded text tells the language
+    if (!languages) {
+      const detectedLanguage = options.languages === 'auto'
+        ? detectLanguageFromText(textLayers.map(result => result.lines.map(line => line.text).join('\n')).join('\n'))
+        : null
+      const ocrLanguages = options.languages !== 'auto' ? options.languages : detectedLanguage ? [detectedLanguage] : []
+      languages = { ocrLanguages, detectedLanguage }
+    }
+    await recordOcrSettings(menuId, languages.ocrLanguages, languages.detectedLanguage, rotations)
+
+    if (!cached) {
+      await saveCachedOcr(supabase, cache.contentHash, cache.config, { results, ...languages })
+    }
+    return results
+  }
+
+  // Turn a page upright, then run the selected cleanup steps. OCR and MenuCanvas both use
+  // the resulting image, so candidate bboxes line up with what is displayed.
+  // canvas is null when the page was left as it is.
+  const preparePage = async (
+    provider: OcrProvider,
+    preprocessor: ImagePreprocessor,
+    source: HTMLCanvasElement | HTMLImageElement,
+    pageNumber: number,
+    rotation: PageRotation | 'auto',
+    signal: AbortSignal,
+    onProgress: OcrProgressCallback
+  ): Promise<{ canvas: HTMLCanvasElement | null, rotation: PageRotation, scale: number, transform?: OcrPageTransform }> => {
+    if (rotation === 0 && preprocessor.getSteps().length === 0) {
+      return { canvas: null, rotation, scale: 1 }
+    }
+
+    onProgress({ stage: 'preprocessing', page: pageNumber, percent: 0 })
+    let image: RasterImage = toImageData(source)
+    const transform: OcrPageTransform = { width: image.width, height: image.height, rotation: 0, skew: 0, crop: null, scale: 1 }
+
+    // Providers that can't detect orientation leave pages as they are
+    const appliedRotation = rotation === 'auto'
+      ? (await provider.detectOrientation?.(image, { signal }))?.rotation ?? 0
+      : rotation
+    if (appliedRotation !== 0) {
+      image = rotateQuarterTurns(image, appliedRotation)
+    }
+    transform.rotation = appliedRotation
+
+    if (preprocessor.getSteps().length > 0) {
+      const result = preprocessor.process(image)
+      image = result.image
+      transform.skew = result.skew
+      transform.crop = result.crop
+      transform.scale = result.scale
+    }
+    onProgress({ stage: 'preprocessing', page: pageNumber, percent: 100 })
+
+    const changed = appliedRotation !== 0 || preprocessor.getSteps().length > 0
+    return changed
+      ? { canvas: imageDataToCanvas(image), rotation: appliedRotation, scale: transform.scale, transform }
+      : { canvas: null, rotation: appliedRotation, scale: 1 }
+  }
+
+  // `pages` are the PDF page numbers to process, out of `totalPages`; [1] for images
+  const processFile = async (
+    file: File,
+    menuId: string,
+    contentHash: string,
+    options: UploadOptions,
+    pages: number[],
+    totalPages: number
+  ) => {
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    const { signal } = abortController
 
-  const processFile = async (file: File, menuId: string) => {
     try {
-      // Check if OCR provider is available
-      if (!ocrProvider || !ocrProvider.isAvailable()) {
+      // Check if OCR provider is available (it restarts its workers after a cancel)
+      const provider = ocrProvider
+      if (!provider) {
         throw new Error('OCR provider not available. Please refresh the page and try again.')
       }
+      await provider.ready?.()
 
-      setProcessingState(prev => ({
-        ...prev,
-        progress: 20,
-        message: 'Extracting text...'
-      }))
+      // Page work covers 10-80% of the bar; the ML model and saving predictions take the rest
+      const tracker = new OcrProgressTracker()
+      const reportProgress = (event: OcrProgressEvent) => {
+        tracker.update(event)
+        setProcessingState(prev => ({
+          ...prev,
+          progress: 10 + tracker.getOverallPercent() * 0.7,
+          message: tracker.describe(event),
+          pages: tracker.getPages()
+        }))
+      }
 
-      let ocrResults: OcrResult[] = []
-      let menuImageElement: HTMLImageElement | null = null
+      const useTextLayer = options.useTextLayer && file.type === 'application/pdf'
+      // The preprocessor puts the selected steps in pipeline order, whatever order they were ticked in
+      const preprocessor = new ImagePreprocessor({ steps: options.preprocessSteps })
+      const cacheConfig = getOcrCacheConfig(
+        provider.getName(),
+        options.languages,
+        preprocessor.getSteps(),
+        options.autoRotate,
+        useTextLayer,
+        pages.length < totalPages ? pages : null
+      )
+      const cache: OcrCacheLookup = {
+        contentHash,
+        config: cacheConfig,
+        cached: options.forceReocr ? null : await loadCachedOcr(supabase, contentHash, cacheConfig)
+      }
 
-      if (file.type === 'application/pdf') {
-        // Process PDF
-        const pdfResult = await pdfToImages(file)
-        ocrResults = []
-        
-        for (let i = 0; i < pdfResult.pages.length; i++) {
-          const page = pdfResult.pages[i]
-          setProcessingState(prev => ({
-            ...prev,
-            progress: 20 + (i / pdfResult.pages.length) * 40,
-            message: `Processing page ${i + 1} of ${pdfResult.pages.length}...`
-          }))
-          
-          console.log(`Processing PDF page ${i + 1} with OCR...`)
-          const result = await ocrProvider.processImage(page.imageData)
-          console.log(`PDF page ${i + 1} OCR result:`, result)
-          ocrResults.push(result)
-        }
-        
-        // Use first page for display
-        if (pdfResult.pages.length > 0) {
-          menuImageElement = new Image()
-          menuImageElement.src = pdfResult.pages[0].canvas.toDataURL()
+      // Cached pages record the rotation they were recognized at; otherwise detect it
+      const pageRotation = (pageIndex: number): PageRotation | 'auto' => {
+        const cachedRotation = cache.cached?.results[pageIndex]?.rotation
+        if (isPageRotation(cachedRotation)) return cachedRotation
+        return options.autoRotate ? 'auto' : 0
+      }
+
+      let ocrResults: OcrResult[] = []
+      const pageGeometries: OcrPageGeometry[] = []
+      const pageImages: HTMLImageElement[] = []
+
+      if (isPagedFileType(file.type)) {
+        // Process PDF or TIFF: each page is rendered when OCR is ready for it and kept only as a compressed image
+        reportProgress({ stage: 'rasterizing', percent: 0 })
+        const pdf = file.type === 'application/pdf' ? await openPdf(file) : await openTiff(file)
+        tracker.setPageCount(pages.length)
+
+        try {
+          ocrResults = await recognizePages(provider, pages.length, async i => {
+            const page = await pdf.renderPage(pages[i])
+
+            // Digital pages keep the rendered canvas, which the text layer boxes are measured on
+            const textLayer = useTextLayer ? page.textLayer : null
+            if (textLayer) {
+              pageGeometries.push({ width: page.width, height: page.height, dpi: page.dpi })
+              pageImages.push(await canvasToImage(page.canvas, 'image/jpeg'))
+              return { input: page.canvas, rotation: 0, textLayer }
+            }
+
+            const prepared = await preparePage(provider, preprocessor, page.canvas, i + 1, pageRotation(i), signal, reportProgress)
+            const ocrInput = prepared.canvas ?? page.canvas
+            pageGeometries.push({
+              width: ocrInput.width,
+              height: ocrInput.height,
+              dpi: page.dpi && Math.round(page.dpi * prepared.scale),
+              ...(prepared.transform && { transform: prepared.transform })
+            })
+            // The viewer shows the page as rendered; normalized boxes are mapped back onto it
+            pageImages.push(await canvasToImage(page.canvas, 'image/jpeg'))
+            return { input: ocrInput, rotation: prepared.rotation }
+          }, menuId, options, cache, signal, reportProgress)
+        } finally {
+          await pdf.destroy()
         }
       } else {
         // Process image
@@ -221,49 +497,81 @@ const MLMPPage: React.FC = () => {
           imageElement.onerror = reject
         })
 
-        setProcessingState(prev => ({
-          ...prev,
-          progress: 40,
-          message: 'Running OCR...'
-        }))
-
-        console.log('Processing image with OCR...')
-        const result = await ocrProvider.processImage(imageElement)
-        console.log('OCR result:', result)
-        ocrResults = [result]
-        menuImageElement = imageElement
+        tracker.setPageCount(1)
+        ocrResults = await recognizePages(provider, 1, async () => {
+          const { canvas: preprocessed, rotation, transform } = await preparePage(
+            provider,
+            preprocessor,
+            imageElement,
+            1,
+            pageRotation(0),
+            signal,
+            reportProgress
+          )
+          pageGeometries.push(preprocessed
+            ? { width: preprocessed.width, height: preprocessed.height, ...(transform && { transform }) }
+            : { width: imageElement.naturalWidth, height: imageElement.naturalHeight })
+          pageImages.push(imageElement)
+          return { input: preprocessed ?? imageElement, rotation }
+        }, menuId, options, cache, signal, reportProgress)
       }
 
-      setMenuImage(menuImageElement)
+      // Boxes stay in pixels of the recognized image; the page geometry lets them be normalized
+      ocrResults = ocrResults.map((result, i) => ({ ...result, page: pageGeometries[i] }))
+
+      // Fix near-miss dish words; the cache keeps what OCR read, so a bigger lexicon applies to it next time
+      const lexicon = await loadCulinaryLexicon(supabase)
+      ocrResults = ocrResults.map(result => correctOcrSpelling(result, lexicon).result)
+
+      throwIfAborted(signal)
+      setMenuImages(pageImages)
+      setCurrentPage(pages[0])
+      setOcrPages(ocrResults.map((result, i) => ({
+        pageNumber: pages[i],
+        width: pageGeometries[i].width,
+        height: pageGeometries[i].height,
+        result
+      })))
 
       // Check if OCR produced any results
       if (ocrResults.length === 0 || ocrResults.every(result => result.lines.length === 0)) {
         throw new Error('OCR failed to extract any text from the image. The image may be too blurry, low resolution, or contain text in an unsupported language.')
       }
 
-      setProcessingState(prev => ({
-        ...prev,
-        progress: 60,
-        message: 'Extracting candidates...'
-      }))
-
       // Extract candidates from OCR results
       const allCandidates: CandidateWithStatus[] = []
       const allLines: ExtractedLine[] = []
+      const allTraces: ExtractionTrace[] = []
 
       for (let pageIndex = 0; pageIndex < ocrResults.length; pageIndex++) {
+        throwIfAborted(signal)
         const ocrResult = ocrResults[pageIndex]
-        
+        reportProgress({ stage: 'extracting', page: pageIndex + 1, percent: 0 })
+
         // Save extracted lines to database
         for (const line of ocrResult.lines) {
           const { data: lineData, error: lineError } = await supabase
             .from('mlmp_extracted_lines')
             .insert({
               menu_id: menuId,
-              page: pageIndex + 1,
+              page: pages[pageIndex],
               text: line.text,
               bbox: line.bbox,
-              raw: { confidence: line.confidence, words: line.words }
+              bbox_normalized: normalizeBoundingBox(line.bbox, pageGeometries[pageIndex]),
+              page_width: pageGeometries[pageIndex].width,
+              page_height: pageGeometries[pageIndex].height,
+              page_dpi: pageGeometries[pageIndex].dpi ?? null,
+              page_transform: pageGeometries[pageIndex].transform ?? null,
+              raw: {
+                confidence: line.confidence,
+                words: line.words,
+                baseline: line.baseline,
+                block_index: line.blockIndex,
+                paragraph_index: line.paragraphIndex,
+                original_text: line.originalText,
+                font: line.font,
+                source: ocrResult.source ?? 'ocr'
+              }
             })
             .select()
             .single()
@@ -277,15 +585,19 @@ const MLMPPage: React.FC = () => {
         }
 
         // Extract candidates
-        const pageCandidates = await extractCandidates(ocrResult.lines, pageIndex + 1)
+        const { candidates: pageCandidates, trace } = await extractCandidatesWithTrace(ocrResult.lines, pages[pageIndex], undefined, options.extractionProfile)
+        allTraces.push(trace)
         const candidatesWithStatus: CandidateWithStatus[] = pageCandidates.map(candidate => ({
           ...candidate,
+          bboxNormalized: candidate.bbox && normalizeBoundingBox(candidate.bbox, pageGeometries[pageIndex]),
           status: 'pending' as const
         }))
 
         allCandidates.push(...candidatesWithStatus)
+        reportProgress({ stage: 'extracting', page: pageIndex + 1, percent: 100 })
       }
 
+      throwIfAborted(signal)
       setProcessingState(prev => ({
         ...prev,
         progress: 80,
@@ -327,6 +639,7 @@ const MLMPPage: React.FC = () => {
       }
 
       setCandidates(allCandidates)
+      setExtractionTraces(allTraces)
 
       setProcessingState({
         status: 'completed',
@@ -335,6 +648,16 @@ const MLMPPage: React.FC = () => {
       })
 
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('Processing cancelled by user')
+        setProcessingState({
+          status: 'idle',
+          progress: 0,
+          message: 'Processing cancelled'
+        })
+        return
+      }
+
       console.error('File processing failed:', error)
       setProcessingState({
         status: 'error',
@@ -342,9 +665,18 @@ const MLMPPage: React.FC = () => {
         message: 'Processing failed',
         error: error instanceof Error ? error.message : 'Unknown error'
       })
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+      }
     }
   }
 
+  // Stop the current job; in-flight recognition is terminated by the OCR provider
+  const handleCancelProcessing = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
   const handleCandidateAction = useCallback(async (candidateId: string, action: 'approve' | 'deny' | 'edit', editedText?: string) => {
     // Update UI state
     setCandidates(prev => prev.map(candidate => {
@@ -413,10 +745,29 @@ const MLMPPage: React.FC = () => {
     }
   }, [candidates, menuUpload])
 
+  // Viewer pages follow ocrPages, whose page numbers are the PDF's own (a page range may skip some)
+  const currentPageIndex = Math.max(0, ocrPages.findIndex(page => page.pageNumber === currentPage))
+  const currentOcrPage: OcrExportPage | undefined = ocrPages[currentPageIndex]
+
+  // Select a candidate, turning the viewer to its page
+  const handleCandidateSelect = useCallback((candidateId: string | null) => {
+    setSelectedCandidate(candidateId)
+    const page = candidates.find(c => c.id === candidateId)?.page
+    if (page && ocrPages.some(ocrPage => ocrPage.pageNumber === page)) {
+      setCurrentPage(page)
+    }
+  }, [candidates, ocrPages])
+
   // Handle adding manual candidate
-  const handleAddManualCandidate = useCallback(async (text: string, bbox: { x: number, y: number, w: number, h: number }) => {
+  const handleAddManualCandidate = useCallback(async (text: string, bboxNormalized: OcrBoundingBox) => {
     if (!menuUpload) return
 
+    // The selection is drawn on the page as uploaded; bbox is in pixels of the image OCR saw, like other candidates
+    const transform = currentOcrPage?.result.page?.transform
+    const bbox = transform
+      ? fromSourceBoundingBox(denormalizeBoundingBox(bboxNormalized, transform.width, transform.height), transform)
+      : currentOcrPage && denormalizeBoundingBox(bboxNormalized, currentOcrPage.width, currentOcrPage.height)
+
     // Look up in database for entree match
     const { findEntreeMatch } = await import('../../lib/candidates/entreeLookup')
     const databaseMatch = await findEntreeMatch(text)
@@ -424,9 +775,10 @@ const MLMPPage: React.FC = () => {
     // Create a new candidate with manual selection
     const newCandidate: CandidateWithStatus = {
       id: `manual-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      page: 1, // Assume page 1 for manual selections
+      page: currentPage, // Selections are drawn on the page in view
       text: text,
       bbox: bbox,
+      bboxNormalized,
       features: {
         tokenCount: text.split(' ').length,
         hasDigits: /\d/.test(text) ? 1 : 0,
@@ -466,7 +818,7 @@ const MLMPPage: React.FC = () => {
       console.error('Failed to save manual candidate prediction:', error)
       // Don't fail the UI action if learning data saving fails
     }
-  }, [menuUpload])
+  }, [menuUpload, currentOcrPage, currentPage])
 
   const handleSaveApproved = useCallback(async () => {
     if (!menuUpload) return
@@ -483,6 +835,8 @@ const MLMPPage: React.FC = () => {
       const entreesToSave = approvedCandidates.map(candidate => ({
         menu_id: menuUpload.menu_id,
         text: normalizeCandidateText(candidate.text), // Use the main text field (which now contains edited text if applicable)
+        prices: candidate.prices ?? [],
+        description: candidate.description ?? null,
         source_line_id: null // TODO: Link to actual line_id
       })).filter(entree => validateEntreeName(entree.text))
 
@@ -500,7 +854,10 @@ const MLMPPage: React.FC = () => {
       // Reset state
       setCandidates([])
       setMenuUpload(null)
-      setMenuImage(null)
+      setMenuImages([])
+      setCurrentPage(1)
+      setOcrPages([])
+      setExtractionTraces([])
       setProcessingState({
         status: 'idle',
         progress: 0,
@@ -526,16 +883,35 @@ const MLMPPage: React.FC = () => {
     }
   }, [candidates, menuUpload])
 
+  // Download the OCR output of the current menu as hOCR or ALTO XML
+  const handleDownloadExport = useCallback((format: OcrExportFormat) => {
+    if (ocrPages.length === 0) return
+
+    const fileName = menuUpload?.file_name ?? 'menu'
+    const document = exportOcrPages(format, ocrPages, {
+      title: fileName,
+      languages: menuUpload?.ocr_languages
+    })
+
+    const url = URL.createObjectURL(new Blob([document], { type: OCR_EXPORT_FORMATS[format].mimeType }))
+    const link = window.document.createElement('a')
+    link.href = url
+    link.download = getExportFileName(fileName, format)
+    link.click()
+    URL.revokeObjectURL(url)
+  }, [ocrPages, menuUpload])
+
   const handleEditCandidate = useCallback((candidate: CandidateWithStatus) => {
     setEditingCandidate(candidate)
   }, [])
 
-  const handleSaveEdit = useCallback((candidateId: string, editedText: string) => {
+  const handleSaveEdit = useCallback((candidateId: string, editedText: string, editedDescription: string) => {
     setCandidates(prev => prev.map(candidate => {
       if (candidate.id === candidateId) {
         return {
           ...candidate,
           editedText: editedText,
+          description: editedDescription || undefined,
           status: 'edited'
         }
       }
@@ -667,6 +1043,8 @@ const MLMPPage: React.FC = () => {
             status={processingState.status}
             progress={processingState.progress}
             message={processingState.message}
+            pages={processingState.pages}
+            onCancel={handleCancelProcessing}
           />
         )}
 
@@ -709,7 +1087,7 @@ const MLMPPage: React.FC = () => {
           </div>
         )}
 
-        {processingState.status === 'completed' && menuImage && (
+        {processingState.status === 'completed' && menuImages.length > 0 && (
           <div style={{ 
             display: 'flex', 
             height: 'calc(100vh - 200px)', 
@@ -722,28 +1100,63 @@ const MLMPPage: React.FC = () => {
               border: '1px solid #ddd', 
               borderRadius: '8px',
               overflow: 'hidden',
-              backgroundColor: '#f9f9f9'
+              backgroundColor: '#f9f9f9',
+              display: 'flex',
+              flexDirection: 'column'
             }}>
               <div style={{ 
                 padding: '15px', 
                 borderBottom: '1px solid #ddd',
                 backgroundColor: '#fff',
-                fontWeight: 'bold'
+                fontWeight: 'bold',
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center'
               }}>
-                Menu Image
+                {menuImages.length > 1 ? `Menu Image (page ${currentPage}, ${currentPageIndex + 1} of ${menuImages.length})` : 'Menu Image'}
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  {(Object.keys(OCR_EXPORT_FORMATS) as OcrExportFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleDownloadExport(format)}
+                      disabled={ocrPages.length === 0}
+                      title={`Download the OCR output as ${OCR_EXPORT_FORMATS[format].label}`}
+                      style={{
+                        padding: '4px 10px',
+                        backgroundColor: '#fff',
+                        color: '#3b82f6',
+                        border: '1px solid #3b82f6',
+                        borderRadius: '4px',
+                        fontSize: '0.8rem',
+                        cursor: ocrPages.length > 0 ? 'pointer' : 'not-allowed'
+                      }}
+                    >
+                      {OCR_EXPORT_FORMATS[format].label}
+                    </button>
+                  ))}
+                </div>
               </div>
+              <PageThumbnails
+                pages={menuImages}
+                pageNumbers={ocrPages.map(page => page.pageNumber)}
+                rotations={ocrPages.map(page => page.result.rotation)}
+                candidateCounts={ocrPages.map(page => candidates.filter(c => c.page === page.pageNumber).length)}
+                currentPage={currentPage}
+                onPageSelect={setCurrentPage}
+              />
               <div style={{ 
-                height: 'calc(100% - 50px)', 
+                flex: '1', 
+                minHeight: 0, 
                 display: 'flex', 
                 alignItems: 'center', 
                 justifyContent: 'center',
                 overflow: 'auto'
               }}>
                 <MenuCanvas 
-                  image={menuImage}
-                  candidates={candidates}
+                  image={menuImages[currentPageIndex] ?? menuImages[0]}
+                  candidates={candidates.filter(c => c.page === currentPage)}
                   selectedCandidate={selectedCandidate}
-                  onCandidateSelect={setSelectedCandidate}
+                  onCandidateSelect={handleCandidateSelect}
                   onAddManualCandidate={handleAddManualCandidate}
                 />
               </div>
@@ -763,9 +1176,31 @@ const MLMPPage: React.FC = () => {
                 padding: '15px', 
                 borderBottom: '1px solid #ddd',
                 backgroundColor: '#fff',
-                fontWeight: 'bold'
+                fontWeight: 'bold',
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center'
               }}>
-                Detected Candidates ({candidates.length})
+                {reviewView === 'candidates' ? `Detected Candidates (${candidates.length})` : 'Why each line was kept or rejected'}
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  {(['candidates', 'lines'] as const).map(view => (
+                    <button
+                      key={view}
+                      onClick={() => setReviewView(view)}
+                      style={{
+                        padding: '4px 10px',
+                        backgroundColor: reviewView === view ? '#3b82f6' : '#fff',
+                        color: reviewView === view ? '#fff' : '#3b82f6',
+                        border: '1px solid #3b82f6',
+                        borderRadius: '4px',
+                        fontSize: '0.8rem',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      {view === 'candidates' ? 'Candidates' : 'Lines'}
+                    </button>
+                  ))}
+                </div>
               </div>
               
               <div style={{ 
@@ -773,14 +1208,22 @@ const MLMPPage: React.FC = () => {
                 overflow: 'auto',
                 padding: '15px'
               }}>
-                <CandidatesList
-                  candidates={candidates}
-                  selectedCandidate={selectedCandidate}
-                  onCandidateSelect={setSelectedCandidate}
-                  onCandidateAction={handleCandidateAction}
-                  onEditCandidate={handleEditCandidate}
-                  getConfidenceClass={getConfidenceClass}
-                />
+                {reviewView === 'candidates' ? (
+                  <CandidatesList
+                    candidates={candidates}
+                    selectedCandidate={selectedCandidate}
+                    onCandidateSelect={handleCandidateSelect}
+                    onCandidateAction={handleCandidateAction}
+                    onEditCandidate={handleEditCandidate}
+                    getConfidenceClass={getConfidenceClass}
+                  />
+                ) : (
+                  <ExtractionTraceList
+                    trace={extractionTraces.find(trace => trace.page === currentPage)}
+                    selectedCandidate={selectedCandidate}
+                    onCandidateSelect={handleCandidateSelect}
+                  />
+                )}
               </div>
               
               <div style={{ 
@@ -846,7 +1289,7 @@ const MLMPPage: React.FC = () => {
       {editingCandidate && (
         <EditModal
           candidate={editingCandidate}
-          onSave={(editedText) => handleSaveEdit(editingCandidate.id, editedText)}
+          onSave={(editedText, editedDescription) => handleSaveEdit(editingCandidate.id, editedText, editedDescription)}
           onCancel={() => setEditingCandidate(null)}
         />
       )}
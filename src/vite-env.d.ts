@@ -5,6 +5,8 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_ANON_KEY: string
   readonly SUPABASE_SERVICE_ROLE_KEY: string
   readonly VITE_OCR_PROVIDER: string
+  readonly VITE_OCR_ASSETS_URL?: string
+  readonly VITE_MAX_PDF_PAGES?: string
   readonly VITE_DEV_MODE: string
 }
 
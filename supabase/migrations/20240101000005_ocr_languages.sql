@@ -0,0 +1,7 @@
+-- OCR language selection per upload
+-- ocr_languages: Tesseract languages the upload was processed with
+-- detected_language: language picked by auto-detect (null when languages were chosen manually)
+
+alter table mlmp_menu_uploads
+  add column if not exists ocr_languages text[] not null default array['eng', 'fra'],
+  add column if not exists detected_language text;
@@ -0,0 +1,34 @@
+-- OCR result cache keyed by file content
+-- content_hash: SHA-256 (hex) of the uploaded file bytes
+-- ocr_config: OCR provider, cache version, languages and preprocessing steps the result was produced with
+
+alter table mlmp_menu_uploads
+  add column if not exists content_hash text;
+
+create index if not exists mlmp_menu_uploads_content_hash_idx on mlmp_menu_uploads(content_hash);
+
+-- One OcrResult per page. Shared between users: the same file gives the same OCR output.
+create table if not exists mlmp_ocr_cache (
+  content_hash text not null,
+  ocr_config text not null,
+  page int not null,
+  result jsonb not null,
+  ocr_languages text[] not null,
+  detected_language text,
+  created_at timestamptz not null default now(),
+  primary key (content_hash, ocr_config, page)
+);
+
+alter table mlmp_ocr_cache enable row level security;
+
+create policy "Authenticated users can read the OCR cache" on mlmp_ocr_cache
+  for select using (auth.role() = 'authenticated');
+
+create policy "Authenticated users can add to the OCR cache" on mlmp_ocr_cache
+  for insert with check (auth.role() = 'authenticated');
+
+create policy "Authenticated users can refresh the OCR cache" on mlmp_ocr_cache
+  for update using (auth.role() = 'authenticated');
+
+create policy "Service role can manage the OCR cache" on mlmp_ocr_cache
+  for all using (auth.role() = 'service_role');
@@ -0,0 +1,6 @@
+-- Orientation correction per upload
+-- page_rotations: clockwise rotation (0, 90, 180, 270) applied to each page before OCR, in page order.
+-- Stored line and candidate boxes are in the rotated page's coordinates.
+
+alter table mlmp_menu_uploads
+  add column if not exists page_rotations int[];
@@ -0,0 +1,10 @@
+-- Page geometry of extracted lines
+-- bbox stays in pixels of the recognized page image (after rotation and preprocessing);
+-- bbox_normalized holds the same box as fractions (0-1) of the page as uploaded or rendered
+-- (mapped back through page_transform, see 20240101000011), comparable across menus and renderings
+
+alter table mlmp_extracted_lines
+  add column if not exists bbox_normalized jsonb,
+  add column if not exists page_width int,
+  add column if not exists page_height int,
+  add column if not exists page_dpi real; -- Known for rendered PDF pages, null for photos
@@ -0,0 +1,7 @@
+-- Prices of approved entrees
+-- prices: array of { amount, currency, raw, source, line, bbox } as read from the menu.
+-- amount is null for "market price"; currency is an ISO 4217 code, or null when the menu prints a bare number.
+-- bbox is in pixels of the recognized page image.
+
+alter table mlmp_entrees
+  add column if not exists prices jsonb not null default '[]'::jsonb;
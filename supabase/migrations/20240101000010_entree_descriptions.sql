@@ -0,0 +1,6 @@
+-- Descriptions of approved entrees
+-- description: the text printed under the dish (ingredients, preparation), joined into one paragraph
+-- when it wraps over several lines, as edited by the reviewer. Null when the menu has none.
+
+alter table mlmp_entrees
+  add column if not exists description text;
@@ -0,0 +1,8 @@
+-- How each line's page image was made from the page as uploaded or rendered
+-- page_transform: { width, height, rotation, skew, crop, scale }. The page was turned upright by
+-- `rotation` (clockwise), deskewed by `skew` degrees, cropped to `crop` and scaled by `scale`.
+-- bbox is in pixels of that recognized image; bbox_normalized is mapped back through the transform
+-- and is a fraction of the page as uploaded or rendered. Null when the page was recognized as is.
+
+alter table mlmp_extracted_lines
+  add column if not exists page_transform jsonb;
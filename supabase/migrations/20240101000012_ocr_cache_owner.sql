@@ -0,0 +1,26 @@
+-- Scope browser-written OCR cache rows to the user who wrote them
+-- created_by: the writing user; null for rows written by the process route (service role),
+-- which are shared with everyone. Other users never see a user's own rows, so nobody can
+-- feed fabricated OCR results to the rest of the team.
+
+alter table mlmp_ocr_cache
+  add column if not exists created_by uuid references auth.users(id) on delete cascade default auth.uid();
+
+-- One entry per page and owner; the shared entry is the one with no owner
+alter table mlmp_ocr_cache drop constraint if exists mlmp_ocr_cache_pkey;
+
+create unique index if not exists mlmp_ocr_cache_entry_idx
+  on mlmp_ocr_cache(content_hash, ocr_config, page, created_by) nulls not distinct;
+
+drop policy if exists "Authenticated users can read the OCR cache" on mlmp_ocr_cache;
+drop policy if exists "Authenticated users can add to the OCR cache" on mlmp_ocr_cache;
+drop policy if exists "Authenticated users can refresh the OCR cache" on mlmp_ocr_cache;
+
+create policy "Users can read the shared OCR cache and their own entries" on mlmp_ocr_cache
+  for select using (auth.role() = 'authenticated' and (created_by is null or created_by = auth.uid()));
+
+create policy "Users can add their own OCR cache entries" on mlmp_ocr_cache
+  for insert with check (created_by = auth.uid());
+
+create policy "Users can refresh their own OCR cache entries" on mlmp_ocr_cache
+  for update using (created_by = auth.uid()) with check (created_by = auth.uid());
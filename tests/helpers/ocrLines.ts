@@ -0,0 +1,14 @@
+import type { OcrLine, OcrWord } from '../../src/lib/ocr/OcrProvider'
+
+/**
+ * An OCR line at height y: one word per space-separated token, 10px per letter, 10px apart
+ */
+export const line = (text: string, y: number): OcrLine => {
+  let x = 10
+  const words: OcrWord[] = text.split(' ').filter(Boolean).map(wordText => {
+    const word = { text: wordText, bbox: { x, y, w: wordText.length * 10, h: 20 }, confidence: 0.9 }
+    x += word.bbox.w + 10
+    return word
+  })
+  return { text, bbox: { x: 10, y, w: Math.max(0, x - 20), h: 20 }, words, confidence: 0.9 }
+}
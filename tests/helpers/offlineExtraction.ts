@@ -0,0 +1,6 @@
+import { vi } from 'vitest'
+
+// Candidate extraction looks dishes up in Supabase; import this before the extraction
+// modules to keep a test offline
+vi.mock('../../src/lib/candidates/entreeLookup', () => ({ findEntreeMatch: async () => null }))
+vi.mock('../../src/lib/ml/training', () => ({ loadLatestTrainedModel: async () => null }))
@@ -0,0 +1,23 @@
+import { describe, it, expect, vi } from 'vitest'
+import { abortable, isAbortError } from '../../src/lib/ocr/abort'
+
+describe('OCR cancellation', () => {
+  it('should reject pending work with an AbortError and run the abort hook once', async () => {
+    const controller = new AbortController()
+    const onAbort = vi.fn()
+    const pending = abortable(new Promise(() => {}), controller.signal, onAbort)
+
+    controller.abort()
+
+    await expect(pending).rejects.toSatisfy(isAbortError)
+    expect(onAbort).toHaveBeenCalledTimes(1)
+  })
+
+  it('should pass results through and refuse to start after abort', async () => {
+    const controller = new AbortController()
+    await expect(abortable(Promise.resolve('done'), controller.signal)).resolves.toBe('done')
+
+    controller.abort()
+    await expect(abortable(Promise.resolve('late'), controller.signal)).rejects.toSatisfy(isAbortError)
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { findCandidateDescription } from '../../src/lib/candidates/descriptions'
+
+describe('Candidate descriptions', () => {
+  it('should join a description wrapped over several lines', () => {
+    const lines = [
+      'Coq au Vin $26.00',
+      'Chicken braised in red wine with mush-',
+      'rooms, lardons and pearl onions,',
+      'Served With Mashed Potatoes',
+      'Duck Confit $28.00'
+    ]
+
+    expect(findCandidateDescription(0, lines)).toBe(
+      'Chicken braised in red wine with mushrooms, lardons and pearl onions, Served With Mashed Potatoes'
+    )
+  })
+
+  it('should skip a price line and stop at the next dish or a menu note', () => {
+    const lines = [
+      'LOBSTER THERMIDOR',
+      '$32.00',
+      'fresh lobster, cream and brandy',
+      'Gluten free options available',
+      'Beef Bourguignon $28.00',
+      'Duck Confit $28.00'
+    ]
+
+    expect(findCandidateDescription(0, lines)).toBe('fresh lobster, cream and brandy')
+    expect(findCandidateDescription(4, lines)).toBeUndefined()
+  })
+})
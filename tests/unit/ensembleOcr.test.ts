@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { mergeOcrResults, pickReading } from '../../src/lib/ocr/ensemble'
+import type { OcrLine, OcrResult, OcrWord } from '../../src/lib/ocr/OcrProvider'
+
+function word(text: string, x: number, y: number, confidence: number): OcrWord {
+  return { text, bbox: { x, y, w: 80, h: 20 }, confidence }
+}
+
+function line(words: OcrWord[]): OcrLine {
+  const x = Math.min(...words.map(w => w.bbox.x))
+  const right = Math.max(...words.map(w => w.bbox.x + w.bbox.w))
+  return {
+    text: words.map(w => w.text).join(' '),
+    bbox: { x, y: words[0].bbox.y, w: right - x, h: 20 },
+    words,
+    confidence: words.reduce((sum, w) => sum + w.confidence, 0) / words.length
+  }
+}
+
+function result(lines: OcrLine[], confidence: number): OcrResult {
+  return { lines, words: lines.flatMap(l => l.words), confidence, processingTime: 100 }
+}
+
+describe('pickReading', () => {
+  const readings = [word('Salmon', 0, 0, 0.7), word('Saimon', 0, 0, 0.9), word('Salmon', 0, 0, 0.6)]
+
+  it('should prefer the text most passes agree on', () => {
+    expect(pickReading(readings).text).toBe('Salmon')
+    expect(pickReading(readings).confidence).toBe(0.7)
+  })
+
+  it('should keep the most confident reading with the confidence strategy', () => {
+    expect(pickReading(readings, 'confidence').text).toBe('Saimon')
+  })
+})
+
+describe('mergeOcrResults', () => {
+  it('should align lines split differently between passes and merge word by word', () => {
+    const base = result([
+      line([word('Grilled', 20, 20, 0.9), word('Saimon', 110, 20, 0.5), word('18', 400, 20, 0.9)]),
+      line([word('Caesar', 20, 80, 0.9), word('Salad', 110, 80, 0.9)])
+    ], 0.8)
+    // Sparse text reads the price apart from the item and finds a footnote the base pass missed
+    const sparse = result([
+      line([word('Grilled', 21, 21, 0.8), word('Salmon', 111, 20, 0.85)]),
+      line([word('18', 401, 20, 0.9)]),
+      line([word('Gluten', 20, 300, 0.9), word('free', 110, 300, 0.85)])
+    ], 0.7)
+
+    const { result: merged, report } = mergeOcrResults([sparse, base], { strategy: 'confidence' })
+
+    expect(merged.lines.map(l => l.text)).toEqual(['Grilled Salmon 18', 'Caesar Salad', 'Gluten free'])
+    expect(merged.lines[0].words[0].bbox.x).toBe(20)
+    expect(report).toEqual({ wordsReplaced: 1, wordsAdded: 0, linesAdded: 1 })
+    expect(merged.words).toHaveLength(7)
+    expect(base.lines[0].text).toBe('Grilled Saimon 18')
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import '../helpers/offlineExtraction'
+import { line } from '../helpers/ocrLines'
+
+const { extractCandidatesWithTrace } = await import('../../src/lib/candidates/extractCandidates')
+const {
+  DEFAULT_EXTRACTION_STAGES,
+  registerExtractionStage,
+  registerExtractionProfile,
+  listExtractionProfiles,
+  resolveExtractionStages
+} = await import('../../src/lib/candidates/pipeline')
+
+const menu = [
+  line('Lobster Thermidor $32.00', 10),
+  line('Fresh lobster, cream, brandy and gruyere', 40),
+  line('Kids Chicken Tenders $9.00', 70)
+]
+
+describe('Candidate extraction pipeline', () => {
+  it('should run the built-in stages in order', async () => {
+    expect(DEFAULT_EXTRACTION_STAGES.slice(0, 3)).toEqual(['min-length', 'blacklist', 'section-header'])
+    expect(DEFAULT_EXTRACTION_STAGES.at(-1)).toBe('scoring')
+
+    const { candidates } = await extractCandidatesWithTrace(menu)
+    expect(candidates.map(c => c.text).sort()).toEqual(['Kids Chicken Tenders', 'Lobster Thermidor'])
+  })
+
+  it('should let a profile drop stages and add registered ones', async () => {
+    registerExtractionStage({
+      name: 'no-kids-menu',
+      kind: 'filter',
+      description: "Drops the kids' menu",
+      run: item => {
+        if (/^kids\b/i.test(item.text)) return { outcome: 'rejected', reason: "Kids' menu item" }
+      }
+    })
+    registerExtractionProfile({
+      name: 'adults-only',
+      stages: ['no-kids-menu', ...DEFAULT_EXTRACTION_STAGES.filter(stage => stage !== 'description')]
+    })
+    expect(listExtractionProfiles().map(profile => profile.name)).toEqual(['default', 'adults-only'])
+
+    const { candidates, trace } = await extractCandidatesWithTrace(menu, 1, 100, 'adults-only')
+    expect(candidates.map(c => c.text)).toContain('Lobster Thermidor')
+    expect(candidates.map(c => c.text)).not.toContain('Kids Chicken Tenders')
+    expect(trace.lines[2].steps).toEqual([{ stage: 'no-kids-menu', outcome: 'rejected', reason: "Kids' menu item", text: 'Kids Chicken Tenders $9.00' }])
+    // Without the description stage the ingredient line reaches name validation
+    expect(trace.lines[1].steps.some(step => step.stage === 'description')).toBe(false)
+  })
+
+  it('should give each item split from a line the box of its own words', async () => {
+    const twoDishes = line('Lobster Thermidor $32.00 Beef Bourguignon $28.00', 10)
+    const { candidates } = await extractCandidatesWithTrace([twoDishes])
+    const lobster = candidates.find(c => c.text === 'Lobster Thermidor')!
+    const beef = candidates.find(c => c.text === 'Beef Bourguignon')!
+
+    expect(lobster.wordIndices).toEqual([0, 1])
+    expect(beef.wordIndices).toEqual([3, 4])
+    expect(lobster.bbox).toEqual({ x: 10, y: 10, w: 170, h: 20 })
+    expect(beef.bbox!.x).toBe(twoDishes.words[3].bbox.x)
+    expect(beef.bbox!.x + beef.bbox!.w).toBe(twoDishes.words[4].bbox.x + twoDishes.words[4].bbox.w)
+    expect(lobster.prices).toMatchObject([{ amount: 32, currency: 'USD', source: 'same-line' }])
+    expect(beef.prices).toMatchObject([{ amount: 28, currency: 'USD', source: 'same-line' }])
+  })
+
+  it('should give a rejected emphasized line the checks for a less emphasized one', async () => {
+    registerExtractionStage({
+      name: 'no-emphasis',
+      kind: 'filter',
+      description: 'Rejects lines taken as dishes for their emphasis alone',
+      run: item => {
+        if (item.emphasis) return { outcome: 'rejected', reason: `Emphasis: ${item.emphasis}` }
+      }
+    })
+    registerExtractionProfile({
+      name: 'no-emphasis',
+      stages: DEFAULT_EXTRACTION_STAGES.flatMap(stage => stage === 'emphasis' ? [stage, 'no-emphasis'] : [stage])
+    })
+
+    const { candidates, trace } = await extractCandidatesWithTrace([line('LOBSTER THERMIDOR $32.00', 10)], 1, 100, 'no-emphasis')
+    expect(candidates.map(c => c.text)).toEqual(['LOBSTER THERMIDOR'])
+    // ALL CAPS, then prominent, then a regular line, which gets the price split
+    expect(trace.lines[0].steps.slice(1, 4)).toMatchObject([
+      { stage: 'no-emphasis', outcome: 'rejected', reason: 'Emphasis: all-caps; trying its fallback' },
+      { stage: 'no-emphasis', outcome: 'rejected', reason: 'Emphasis: visual-hierarchy; trying its fallback' },
+      { stage: 'price-split', outcome: 'passed' }
+    ])
+  })
+
+  it('should keep a number ending a dish name that is not printed as a price', async () => {
+    const { candidates } = await extractCandidatesWithTrace([
+      line('Seafood Platter for 2', 10),
+      line('Combo No 5', 40),
+      line('Chicken 65', 70)
+    ])
+    expect(candidates.map(c => c.text).sort()).toEqual(['Chicken 65', 'Combo No 5', 'Seafood Platter for 2'])
+    expect(candidates.every(c => c.prices?.length === 0)).toBe(true)
+  })
+
+  it('should reject unknown stages and profiles', async () => {
+    expect(() => resolveExtractionStages(['blacklist', 'nope'])).toThrow('Unknown extraction stage "nope"')
+    await expect(extractCandidatesWithTrace(menu, 1, 100, 'missing')).rejects.toThrow('Unknown extraction profile "missing"')
+  })
+})
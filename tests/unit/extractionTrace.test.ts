@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import '../helpers/offlineExtraction'
+import { line } from '../helpers/ocrLines'
+
+const { extractCandidatesWithTrace } = await import('../../src/lib/candidates/extractCandidates')
+const { explainLine, findCandidateLine } = await import('../../src/lib/candidates/trace')
+
+describe('Extraction trace', () => {
+  it('should explain why each line was accepted or rejected', async () => {
+    const lines = [
+      line('Entrees', 10),
+      line('Grilled Salmon Fillet $24.00', 40),
+      line('Served with roasted potatoes, lemon and butter sauce', 70),
+      line('Gluten free options available', 100),
+      line('', 130)
+    ]
+
+    const { candidates, trace } = await extractCandidatesWithTrace(lines, 3)
+    expect(trace.page).toBe(3)
+    expect(trace.lines.map(l => l.decision)).toEqual(['rejected', 'accepted', 'rejected', 'rejected', 'rejected'])
+
+    const [header, dish, description, allergen, blank] = trace.lines
+    expect(explainLine(header)).toBe('Section header')
+    expect(description.steps.at(-1)?.stage).toBe('description')
+    expect(allergen.steps.at(-1)).toMatchObject({ stage: 'blacklist', outcome: 'rejected' })
+    expect(explainLine(blank)).toBe('Blank line')
+
+    expect(candidates.map(c => c.text)).toEqual(['Grilled Salmon Fillet'])
+    expect(findCandidateLine(trace, candidates[0].id)).toBe(dish)
+    expect(dish.steps.map(step => step.stage)).toEqual(['price-split', 'prices', 'dish-description', 'scoring'])
+    expect(candidates[0].description).toBe('Served with roasted potatoes, lemon and butter sauce')
+  })
+
+  it('should record candidates cut by the top-N limit', async () => {
+    const { candidates, trace } = await extractCandidatesWithTrace([
+      line('Lobster Thermidor $32.00', 10),
+      line('Beef Bourguignon $28.00', 40)
+    ], 1, 1)
+
+    expect(candidates).toHaveLength(1)
+    const cut = trace.lines.find(l => l.decision === 'rejected')!
+    expect(cut.candidateIds).toEqual([])
+    expect(cut.steps.at(-1)).toMatchObject({ stage: 'top-n', outcome: 'rejected' })
+    expect(explainLine(cut)).toMatch(/only the top 1 candidates are kept/)
+  })
+})
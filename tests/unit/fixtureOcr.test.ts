@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { FixtureOcrProvider } from '../../src/lib/ocr/FixtureOcrProvider'
+import { hashImageContent } from '../../src/lib/ocr/hash'
+import type { OcrProvider, OcrResult } from '../../src/lib/ocr/OcrProvider'
+
+const makeImage = (fill: number, width = 2, height = 2): ImageData => ({
+  data: new Uint8ClampedArray(width * height * 4).fill(fill),
+  width,
+  height,
+  colorSpace: 'srgb'
+}) as ImageData
+
+const sampleResult: OcrResult = {
+  lines: [{
+    text: 'Lobster Newburg $40.00',
+    bbox: { x: 10, y: 20, w: 200, h: 18 },
+    words: [],
+    confidence: 0.91
+  }],
+  words: [],
+  confidence: 0.91,
+  processingTime: 1200
+}
+
+describe('FixtureOcrProvider', () => {
+  it('should hash identical pixels to the same key and different pixels to different keys', async () => {
+    expect(await hashImageContent(makeImage(1))).toBe(await hashImageContent(makeImage(1)))
+    expect(await hashImageContent(makeImage(1))).not.toBe(await hashImageContent(makeImage(2)))
+    expect(await hashImageContent(makeImage(1, 4, 1))).not.toBe(await hashImageContent(makeImage(1, 2, 2)))
+  })
+
+  it('should replay a saved result for a known image', async () => {
+    const key = await hashImageContent(makeImage(7))
+    const provider = new FixtureOcrProvider({ fixtures: { [key]: sampleResult } })
+
+    expect(provider.isAvailable()).toBe(true)
+    await expect(provider.ready()).resolves.toBeUndefined()
+    expect(await provider.processImage(makeImage(7))).toEqual(sampleResult)
+  })
+
+  it('should fail in replay mode for an unknown image', async () => {
+    const provider = new FixtureOcrProvider()
+    await expect(provider.processImage(makeImage(3))).rejects.toThrow('No OCR fixture recorded')
+  })
+
+  it('should record results from the recorder and replay them afterwards', async () => {
+    let calls = 0
+    const recorder: OcrProvider = {
+      getName: () => 'Stub',
+      isAvailable: () => true,
+      processImage: async () => {
+        calls++
+        return sampleResult
+      }
+    }
+    const provider = new FixtureOcrProvider({ mode: 'record', recorder })
+
+    await provider.processImage(makeImage(9))
+    await provider.processImage(makeImage(9))
+    expect(calls).toBe(1)
+
+    const replay = new FixtureOcrProvider({ fixtures: provider.exportFixtures() })
+    expect(await replay.processImage(makeImage(9))).toEqual(sampleResult)
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeBoundingBox, denormalizeBoundingBox, toSourceBoundingBox, fromSourceBoundingBox } from '../../src/lib/ocr/geometry'
+import type { OcrPageTransform } from '../../src/lib/ocr/OcrProvider'
+
+describe('page geometry', () => {
+  it('should map a box between page renderings through normalized coordinates', () => {
+    const normalized = normalizeBoundingBox({ x: 306, y: 396, w: 612, h: 44 }, { width: 1224, height: 1584 })
+
+    expect(normalized).toEqual({ x: 0.25, y: 0.25, w: 0.5, h: 0.027778 })
+    // The same page rendered at half the size
+    const box = denormalizeBoundingBox(normalized, 612, 792)
+    expect(box.x).toBe(153)
+    expect(box.w).toBe(306)
+    expect(box.h).toBeCloseTo(22, 2)
+  })
+
+  it('should normalize against the page as uploaded when it was rotated, cropped and upscaled', () => {
+    // A 200x100 landscape scan turned upright (100x200), cropped at 10,20 and enlarged 2x
+    const transform: OcrPageTransform = { width: 200, height: 100, rotation: 90, skew: 0, crop: { x: 10, y: 20, w: 80, h: 160 }, scale: 2 }
+    const box = { x: 20, y: 40, w: 40, h: 20 }
+
+    expect(toSourceBoundingBox(box, transform)).toEqual({ x: 40, y: 60, w: 10, h: 20 })
+    expect(normalizeBoundingBox(box, { width: 160, height: 320, transform })).toEqual({ x: 0.2, y: 0.6, w: 0.05, h: 0.2 })
+    expect(fromSourceBoundingBox({ x: 40, y: 60, w: 10, h: 20 }, transform)).toEqual(box)
+  })
+
+  it('should undo the deskew rotation around the page centre', () => {
+    const transform: OcrPageTransform = { width: 400, height: 400, rotation: 0, skew: 2, crop: null, scale: 1 }
+    const centred = toSourceBoundingBox({ x: 190, y: 190, w: 20, h: 20 }, transform)
+
+    // A box at the centre stays put and grows a little around its rotated corners
+    expect(centred.x + centred.w / 2).toBeCloseTo(200, 6)
+    expect(centred.w).toBeGreaterThan(20)
+    expect(toSourceBoundingBox({ x: 300, y: 200, w: 0, h: 0 }, transform).y).toBeCloseTo(200 + 100 * Math.sin(2 * Math.PI / 180), 6)
+  })
+})
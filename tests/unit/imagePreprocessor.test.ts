@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { ImagePreprocessor, parsePreprocessSteps } from '../../src/lib/preprocess'
+import type { RasterImage } from '../../src/lib/preprocess'
+
+/**
+ * White page with dark "text lines" (solid bars) falling to the right by `skew` degrees
+ */
+function makePage(width: number, height: number, skew: number, barHeight = 8): RasterImage {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255)
+  const tan = Math.tan(skew * Math.PI / 180)
+
+  for (let lineTop = 80; lineTop < height - 80; lineTop += barHeight * 3) {
+    for (let x = 100; x < width - 100; x++) {
+      const offset = Math.round(x * tan)
+      for (let y = lineTop + offset; y < lineTop + offset + barHeight; y++) {
+        if (y < 0 || y >= height) continue
+        const i = (y * width + x) * 4
+        data[i] = data[i + 1] = data[i + 2] = 20
+      }
+    }
+  }
+
+  return { data, width, height }
+}
+
+describe('ImagePreprocessor', () => {
+  it('should run only the selected steps, in pipeline order, and report them', () => {
+    const preprocessor = new ImagePreprocessor({ steps: ['threshold', 'grayscale'] })
+    const result = preprocessor.process(makePage(200, 200, 0))
+
+    expect(result.steps.map(s => s.step)).toEqual(['grayscale', 'threshold'])
+    expect(result.steps.every(s => s.applied)).toBe(true)
+  })
+
+  it('should deskew, crop margins and upscale small text', () => {
+    const result = new ImagePreprocessor().process(makePage(500, 400, 3))
+    const [, deskew, cropStep, upscale] = result.steps
+
+    expect(deskew.applied).toBe(true)
+    expect(deskew.detail).toMatch(/rotated -(2\.[89]|3(\.[01])?)°/)
+    expect(cropStep.applied).toBe(true)
+    expect(upscale.applied).toBe(true)
+    expect(result.image.width).toBeGreaterThan(300)
+    // Cropping shrinks the page but only upscaling changes its resolution
+    expect(result.scale).toBeCloseTo(Number(upscale.detail!.match(/scaled ([\d.]+)x/)![1]), 1)
+  })
+
+  it('should leave a straight page alone', () => {
+    const result = new ImagePreprocessor({ steps: ['deskew'] }).process(makePage(300, 300, 0))
+    expect(result.steps[0].applied).toBe(false)
+    expect(result.scale).toBe(1)
+  })
+
+  it('should parse step selections', () => {
+    expect(parsePreprocessSteps('deskew, grayscale')).toEqual(['grayscale', 'deskew'])
+    expect(parsePreprocessSteps('none')).toEqual([])
+    expect(parsePreprocessSteps(null)).toEqual(['grayscale', 'deskew', 'crop', 'upscale'])
+    expect(parsePreprocessSteps('sharpen')).toBeNull()
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { segmentPageRegions } from '../../src/lib/layout'
+import type { OcrLine, OcrWord } from '../../src/lib/ocr/OcrProvider'
+
+const word = (text: string, x: number, y: number): OcrWord => ({
+  text,
+  bbox: { x, y, w: text.length * 10, h: 20 },
+  confidence: 0.9
+})
+
+const line = (...words: OcrWord[]): OcrLine => ({
+  text: words.map(w => w.text).join(' '),
+  bbox: {
+    x: words[0].bbox.x,
+    y: words[0].bbox.y,
+    w: words[words.length - 1].bbox.x + words[words.length - 1].bbox.w - words[0].bbox.x,
+    h: 20
+  },
+  words,
+  confidence: 0.9
+})
+
+describe('XY-cut layout segmentation', () => {
+  it('should read a two-column band column by column below a full-width title', () => {
+    const lines = [
+      line(word('Trattoria', 150, 10), word('Roma', 250, 10)),
+      line(word('Antipasti', 10, 100), word('Secondi', 400, 100)),
+      line(word('Bruschetta', 10, 130), word('Saltimbocca', 400, 130)),
+      line(word('Calamari', 10, 160), word('Ossobuco', 400, 160))
+    ]
+
+    const regions = segmentPageRegions(lines)
+
+    expect(regions.map(r => r.lines.map(l => l.text))).toEqual([
+      ['Trattoria Roma'],
+      ['Antipasti', 'Bruschetta', 'Calamari'],
+      ['Secondi', 'Saltimbocca', 'Ossobuco']
+    ])
+    expect(regions.map(r => r.index)).toEqual([0, 1, 2])
+  })
+
+  it('should keep a single column as one region with the original lines', () => {
+    const lines = [
+      line(word('Lobster', 10, 100), word('Newburg', 90, 100)),
+      line(word('Crab', 10, 125), word('Cake', 60, 125))
+    ]
+
+    const regions = segmentPageRegions(lines)
+
+    expect(regions).toHaveLength(1)
+    expect(regions[0].lines[0]).toBe(lines[0])
+    expect(segmentPageRegions([])).toEqual([])
+  })
+})
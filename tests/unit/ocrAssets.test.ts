@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { getLocalOcrAssets, listRequiredOcrAssets, verifyOcrAssets } from '../../src/lib/ocr/assets'
+
+describe('offline OCR assets', () => {
+  it('should use the CDNs unless a local path is configured', () => {
+    expect(getLocalOcrAssets(undefined)).toBeNull()
+    expect(getLocalOcrAssets('/ocr-assets/')).toMatchObject({
+      pdfWorkerSrc: '/ocr-assets/pdfjs/pdf.worker.min.mjs',
+      tesseract: { workerPath: '/ocr-assets/tesseract/worker.min.js', langPath: '/ocr-assets/tessdata' }
+    })
+  })
+
+  it('should name every missing file', async () => {
+    const assets = getLocalOcrAssets('/ocr-assets')!
+    const files = listRequiredOcrAssets(assets.tesseract, assets.pdfWorkerSrc, ['eng', 'fra'])
+    expect(files).toContain('/ocr-assets/tesseract/core/tesseract-core-simd-lstm.wasm.js')
+    expect(files).toContain('/ocr-assets/tessdata/fra.traineddata.gz')
+
+    const served = new Set(files.filter(file => !file.endsWith('fra.traineddata.gz')))
+    await expect(verifyOcrAssets(files, async file => served.has(file)))
+      .rejects.toThrow('Offline OCR assets are missing: /ocr-assets/tessdata/fra.traineddata.gz.')
+    await expect(verifyOcrAssets(files, async () => true)).resolves.toBeUndefined()
+  })
+
+  it('should only require traineddata on the server', () => {
+    expect(listRequiredOcrAssets({ langPath: '/srv/tessdata' }, undefined, ['eng'])).toEqual(['/srv/tessdata/eng.traineddata.gz'])
+    expect(listRequiredOcrAssets({})).toEqual([])
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { getOcrCacheConfig, loadCachedOcr, OCR_CACHE_VERSION } from '../../src/lib/ocr/cache'
+
+/**
+ * Minimal stand-in for the Supabase query builder used by loadCachedOcr
+ */
+function mockClient(rows: Array<{ page: number, created_by?: string, ocr_languages?: string[] }>) {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    order: async () => ({
+      data: rows.map(row => ({ result: { lines: [], words: [], confidence: 1, processingTime: 0 }, ocr_languages: ['eng'], detected_language: null, ...row })),
+      error: null
+    })
+  }
+  return { from: () => query } as any
+}
+
+describe('OCR cache', () => {
+  it('should key results by provider, version, languages, preprocessing and rotation', () => {
+    expect(getOcrCacheConfig('Tesseract.js', ['fra', 'eng'], ['grayscale', 'deskew'], true))
+      .toBe(`Tesseract.js|v${OCR_CACHE_VERSION}|lang=eng+fra|pre=grayscale+deskew|rotate=auto`)
+    expect(getOcrCacheConfig('Tesseract.js', 'auto', [], false))
+      .toBe(`Tesseract.js|v${OCR_CACHE_VERSION}|lang=auto|pre=none|rotate=none`)
+    expect(getOcrCacheConfig('Tesseract.js', 'auto', [], false, true))
+      .toBe(`Tesseract.js|v${OCR_CACHE_VERSION}|lang=auto|pre=none|rotate=none|text=pdf`)
+  })
+
+  it('should only return complete page sets', async () => {
+    const hit = await loadCachedOcr(mockClient([{ page: 1 }, { page: 2 }]), 'hash', 'config')
+    expect(hit?.results).toHaveLength(2)
+    expect(hit?.ocrLanguages).toEqual(['eng'])
+
+    expect(await loadCachedOcr(mockClient([{ page: 1 }, { page: 3 }]), 'hash', 'config')).toBeNull()
+    expect(await loadCachedOcr(mockClient([]), 'hash', 'config')).toBeNull()
+  })
+
+  it("should prefer the user's own entry, and read only shared entries when asked", async () => {
+    const client = mockClient([{ page: 1 }, { page: 1, created_by: 'user', ocr_languages: ['fra'] }])
+
+    expect((await loadCachedOcr(client, 'hash', 'config'))?.ocrLanguages).toEqual(['fra'])
+    expect((await loadCachedOcr(client, 'hash', 'config', true))?.ocrLanguages).toEqual(['eng'])
+  })
+})
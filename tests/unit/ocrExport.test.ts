@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { toHocr, toAlto, pagesFromExtractedLines, type OcrExportPage } from '../../src/lib/export'
+import type { OcrLine } from '../../src/lib/ocr/OcrProvider'
+
+const line: OcrLine = {
+  text: 'Fish & Chips',
+  bbox: { x: 10, y: 20, w: 150, h: 24 },
+  words: [
+    { text: 'Fish', bbox: { x: 10, y: 20, w: 50, h: 24 }, confidence: 0.93 },
+    { text: '&', bbox: { x: 66, y: 20, w: 14, h: 24 }, confidence: 0.88 },
+    { text: 'Chips', bbox: { x: 86, y: 20, w: 74, h: 24 }, confidence: 0.9 }
+  ],
+  confidence: 0.9,
+  baseline: { x0: 10, y0: 40, x1: 160, y1: 40 }
+}
+
+const pages: OcrExportPage[] = [{
+  pageNumber: 1,
+  width: 400,
+  height: 300,
+  result: { lines: [line], words: line.words, confidence: 0.9, processingTime: 0 }
+}]
+
+describe('OCR export', () => {
+  it('should write well-formed hOCR with page, line and word boxes', () => {
+    const hocr = toHocr(pages, { title: 'menu.png', languages: ['eng'] })
+    const doc = new DOMParser().parseFromString(hocr, 'application/xml')
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0)
+    expect(hocr).toContain('class="ocr_page" id="page_1" title="image &quot;menu.png&quot;; bbox 0 0 400 300; ppageno 0"')
+    expect(hocr).toContain('title="bbox 10 20 160 44; baseline 0 -4"')
+    expect(hocr).toContain('title="bbox 66 20 80 44; x_wconf 88">&amp;</span>')
+  })
+
+  it('should write well-formed ALTO with one String per word', () => {
+    const alto = toAlto(pages, { title: 'menu.png' })
+    const doc = new DOMParser().parseFromString(alto, 'application/xml')
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0)
+    const strings = [...doc.getElementsByTagName('String')]
+    expect(strings.map(s => s.getAttribute('CONTENT'))).toEqual(['Fish', '&', 'Chips'])
+    expect(strings[2].getAttribute('HPOS')).toBe('86')
+    expect(doc.getElementsByTagName('Page')[0].getAttribute('WIDTH')).toBe('400')
+  })
+
+  it('should rebuild pages from stored lines', () => {
+    const rows = [2, 1].map(page => ({
+      line_id: `line-${page}`,
+      menu_id: 'menu',
+      page,
+      text: line.text,
+      bbox: line.bbox,
+      raw: { confidence: 0.9, words: line.words, block_index: 0, paragraph_index: 0 },
+      created_at: ''
+    }))
+
+    const rebuilt = pagesFromExtractedLines(rows)
+    expect(rebuilt.map(page => page.pageNumber)).toEqual([1, 2])
+    expect(rebuilt[0]).toMatchObject({ width: 160, height: 44 })
+    expect(rebuilt[0].result.blocks?.[0].paragraphs[0].lines).toHaveLength(1)
+  })
+})
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest'
+import { parseOcrLanguageSelection, detectLanguageFromText } from '../../src/lib/ocr/languages'
+
+describe('OCR language selection', () => {
+  it('should parse language lists, auto and defaults', () => {
+    expect(parseOcrLanguageSelection('spa, eng')).toEqual(['spa', 'eng'])
+    expect(parseOcrLanguageSelection(['DEU', 'deu'])).toEqual(['deu'])
+    expect(parseOcrLanguageSelection('auto')).toBe('auto')
+    expect(parseOcrLanguageSelection(null)).toEqual(['eng', 'fra'])
+    expect(parseOcrLanguageSelection('eng,klingon')).toBeNull()
+  })
+
+  it('should detect the menu language from OCR text', () => {
+    expect(detectLanguageFromText('Pollo a la plancha con salsa de ajo\nPaella del día')).toBe('spa')
+    expect(detectLanguageFromText('Schnitzel vom Schwein mit Kartoffeln und Soße')).toBe('deu')
+    expect(detectLanguageFromText('Bacalhau com batatas e molho de frango')).toBe('por')
+    expect(detectLanguageFromText('Tagliatelle al ragù della nonna con formaggio')).toBe('ita')
+    expect(detectLanguageFromText('12.50')).toBeNull()
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { OcrProgressTracker } from '../../src/lib/ocr/progress'
+
+describe('OcrProgressTracker', () => {
+  it('should track each page and weight stages into an overall percentage', () => {
+    const tracker = new OcrProgressTracker(2)
+    tracker.update({ stage: 'recognizing', page: 1, percent: 50 })
+    tracker.update({ stage: 'extracting', page: 2, percent: 100 })
+
+    expect(tracker.getPages()).toEqual([
+      { page: 1, stage: 'recognizing', percent: 50 },
+      { page: 2, stage: 'extracting', percent: 100 }
+    ])
+    expect(tracker.getOverallPercent()).toBe(77.5)
+  })
+
+  it('should not move a page back to an earlier stage', () => {
+    const tracker = new OcrProgressTracker(1)
+    tracker.update({ stage: 'extracting', page: 1, percent: 0 })
+    tracker.update({ stage: 'recognizing', page: 1, percent: 80 })
+
+    expect(tracker.getPages()[0].stage).toBe('extracting')
+    expect(tracker.describe({ stage: 'rasterizing', percent: 0 })).toBe('Rendering pages...')
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import {
+  estimateLineDirection,
+  rotateBox,
+  rotateQuarterTurns,
+  scoreOrientationText
+} from '../../src/lib/preprocess/orientation'
+import type { RasterImage } from '../../src/lib/preprocess'
+
+/**
+ * White page with horizontal dark bars standing in for text lines
+ */
+function makeLinedPage(width: number, height: number): RasterImage {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255)
+  for (let y = 20; y < height - 20; y++) {
+    if (y % 24 >= 10) continue
+    for (let x = 30; x < width - 30; x++) {
+      const i = (y * width + x) * 4
+      data[i] = data[i + 1] = data[i + 2] = 0
+    }
+  }
+  return { data, width, height }
+}
+
+describe('Page orientation', () => {
+  it('should rotate rasters and boxes by quarter turns and back', () => {
+    const page = makeLinedPage(120, 80)
+    const turned = rotateQuarterTurns(page, 90)
+    expect([turned.width, turned.height]).toEqual([80, 120])
+    expect(rotateQuarterTurns(rotateQuarterTurns(turned, 180), 90).data).toEqual(page.data)
+
+    const box = { x: 10, y: 5, w: 40, h: 12 }
+    const rotated = rotateBox(box, 90, 120, 80)
+    expect(rotated).toEqual({ x: 63, y: 10, w: 12, h: 40 })
+    expect(rotateBox(rotated, 270, 80, 120)).toEqual(box)
+  })
+
+  it('should tell which way text lines run', () => {
+    const page = makeLinedPage(200, 200)
+    expect(estimateLineDirection(page)).toBe('horizontal')
+    expect(estimateLineDirection(rotateQuarterTurns(page, 90))).toBe('vertical')
+  })
+
+  it('should score upright readings above garbled ones', () => {
+    const upright = [{ text: 'Grilled', confidence: 0.9 }, { text: 'Salmon', confidence: 0.85 }]
+    const upsideDown = [{ text: 'uoɯ', confidence: 0.3 }, { text: '.,', confidence: 0.2 }, { text: 'pə', confidence: 0.25 }]
+    expect(scoreOrientationText(upright)).toBeGreaterThan(scoreOrientationText(upsideDown))
+  })
+})
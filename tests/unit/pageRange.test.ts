@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_MAX_PDF_PAGES,
+  isPageRangeSyntax,
+  parsePageRange,
+  formatPageRange,
+  getMaxPdfPages,
+  selectPdfPages
+} from '../../src/lib/pdf/pageRange'
+
+describe('PDF page ranges', () => {
+  it('should select every page when the range is empty or "all"', () => {
+    expect(parsePageRange('', 3)).toEqual([1, 2, 3])
+    expect(parsePageRange(null, 2)).toEqual([1, 2])
+    expect(parsePageRange(' All ', 2)).toEqual([1, 2])
+  })
+
+  it('should parse pages and ranges into sorted page numbers', () => {
+    expect(parsePageRange('8, 1-3, 2', 10)).toEqual([1, 2, 3, 8])
+    expect(parsePageRange('4 - 5', 5)).toEqual([4, 5])
+    expect(formatPageRange([1, 2, 3, 5, 7, 8])).toBe('1-3,5,7-8')
+  })
+
+  it('should reject malformed ranges and pages the document does not have', () => {
+    expect(isPageRangeSyntax('1-3, 5')).toBe(true)
+    expect(isPageRangeSyntax('1-, x')).toBe(false)
+    expect(parsePageRange('3-1', 5)).toBeNull()
+    expect(parsePageRange('0', 5)).toBeNull()
+    expect(parsePageRange('4-6', 5)).toBeNull()
+  })
+
+  it('should enforce the page limit', () => {
+    expect(getMaxPdfPages(undefined)).toBe(DEFAULT_MAX_PDF_PAGES)
+    expect(getMaxPdfPages('12')).toBe(12)
+    expect(getMaxPdfPages('-1')).toBe(DEFAULT_MAX_PDF_PAGES)
+
+    expect(selectPdfPages('', 40, 30)).toEqual({
+      error: '40 pages selected, but at most 30 can be processed at once. Choose a page range.'
+    })
+    expect(selectPdfPages('11-20', 40, 30)).toEqual({ pages: [11, 12, 13, 14, 15, 16, 17, 18, 19, 20] })
+    expect(selectPdfPages('50', 40, 30)).toHaveProperty('error')
+  })
+})
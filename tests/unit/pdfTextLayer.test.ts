@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { buildTextLayerResult, parseFontName, toTextRuns, type PdfTextRun } from '../../src/lib/pdf/textLayer'
+
+const regular = parseFontName('ABCDEF+Helvetica', 28)
+const bold = parseFontName('Helvetica-Bold', 48)
+
+function run(text: string, x: number, baseline: number, fontSize = 28, font = regular): PdfTextRun {
+  return { text, x, baseline, width: text.length * fontSize * 0.5, fontSize, ascent: 0.8, descent: 0.2, font }
+}
+
+describe('parseFontName', () => {
+  it('should strip the subset prefix and read the weight and style', () => {
+    expect(parseFontName('ABCDEF+Garamond-BoldItalic', 24.04)).toEqual({
+      name: 'Garamond-BoldItalic',
+      size: 24,
+      bold: true,
+      italic: true
+    })
+    expect(regular).toMatchObject({ name: 'Helvetica', bold: false, italic: false })
+    expect(parseFontName(undefined, 12)).toBeUndefined()
+  })
+})
+
+describe('toTextRuns', () => {
+  it('should place items in rendered page pixels and drop rotated text', () => {
+    // Scale 2 viewport of a 792pt tall page: y flips, everything doubles
+    const viewportTransform = [2, 0, 0, -2, 0, 1584]
+    const runs = toTextRuns({
+      items: [
+        { str: 'Lobster Newburg', transform: [14, 0, 0, 14, 72, 630], width: 110, fontName: 'g_d0_f1' },
+        { str: 'Chef special', transform: [0, 14, -14, 0, 20, 400], width: 80, fontName: 'g_d0_f1' },
+        { str: '   ', transform: [14, 0, 0, 14, 200, 630], width: 10, fontName: 'g_d0_f1' }
+      ],
+      styles: { g_d0_f1: { ascent: 0.75, descent: -0.25, vertical: false, fontFamily: 'sans-serif' } }
+    }, viewportTransform, new Map([['g_d0_f1', 'Helvetica-Bold']]))
+
+    expect(runs).toHaveLength(1)
+    expect(runs[0]).toMatchObject({ text: 'Lobster Newburg', x: 144, baseline: 324, width: 220, fontSize: 28, ascent: 0.75, descent: 0.25 })
+    expect(runs[0].font).toMatchObject({ name: 'Helvetica-Bold', size: 28, bold: true })
+  })
+})
+
+describe('buildTextLayerResult', () => {
+  it('should build lines with real typography and keep columns apart', () => {
+    const result = buildTextLayerResult([
+      run('ENTREES', 144, 180, 48, bold),
+      run('Grilled Salmon with lemon', 144, 270),
+      run('24.00', 900, 270),
+      run('Lobster ', 144, 330),
+      run('Newburg', 144 + 8 * 14, 331)
+    ])!
+
+    expect(result.source).toBe('pdf-text')
+    expect(result.confidence).toBe(1)
+    expect(result.lines.map(line => line.text)).toEqual([
+      'ENTREES',
+      'Grilled Salmon with lemon',
+      '24.00',
+      'Lobster Newburg'
+    ])
+    expect(result.lines[0].font).toMatchObject({ bold: true, size: 48 })
+    expect(result.lines[0].bbox).toEqual({ x: 144, y: 180 - 0.8 * 48, w: 7 * 24, h: 48 })
+    expect(result.lines[1].words.map(word => word.bbox.x)).toEqual([144, 144 + 8 * 14, 144 + 15 * 14, 144 + 20 * 14])
+    expect(result.words.every(word => word.confidence === 1)).toBe(true)
+  })
+
+  it('should join runs that touch into one word', () => {
+    const result = buildTextLayerResult([run('Crème brûl', 100, 100), run('ée au caramel salé', 100 + 10 * 14, 100)])!
+    expect(result.lines[0].words.map(word => word.text)).toEqual(['Crème', 'brûlée', 'au', 'caramel', 'salé'])
+  })
+
+  it('should leave scanned pages and unmapped fonts to OCR', () => {
+    expect(buildTextLayerResult([run('Page 1', 0, 100)])).toBeNull()
+    expect(buildTextLayerResult([run('Grilled Salmon and Lobster', 0, 100), run('\uE001\uE002\uE003'.repeat(10), 0, 140)])).toBeNull()
+  })
+})
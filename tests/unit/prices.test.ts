@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { parsePrices, findCandidatePrices, removeItemPrices } from '../../src/lib/candidates/prices'
+import { line } from '../helpers/ocrLines'
+
+describe('Candidate prices', () => {
+  it('should parse amounts and currencies', () => {
+    expect(parsePrices('Steak Frites €24,50').map(({ amount, currency, raw }) => ({ amount, currency, raw }))).toEqual([
+      { amount: 24.5, currency: 'EUR', raw: '€24,50' }
+    ])
+    expect(parsePrices('Fish Pie 18 euros')[0]).toMatchObject({ amount: 18, currency: 'EUR' })
+    expect(parsePrices('Sushi ¥1500')[0]).toMatchObject({ amount: 1500, currency: 'JPY' })
+    expect(parsePrices('Confit de Canard 28')).toEqual([])
+    expect(parsePrices('Confit de Canard 28', true)[0]).toMatchObject({ amount: 28, currency: null, raw: '28' })
+    expect(parsePrices('Maine Lobster market price')[0]).toMatchObject({ amount: null, raw: 'market price' })
+    expect(parsePrices('Pizza $12 / $18').map(price => price.amount)).toEqual([12, 18])
+    expect(parsePrices('Caesar Salad')).toEqual([])
+  })
+
+  it('should take the price following each name on the line', () => {
+    const lines = [line('Lobster Thermidor $32.00 Beef Bourguignon $28.00', 10)]
+    const texts = lines.map(l => l.text)
+
+    const beef = findCandidatePrices('Beef Bourguignon', 0, lines, texts, 3)
+    expect(beef).toHaveLength(1)
+    expect(beef[0]).toMatchObject({ amount: 28, currency: 'USD', source: 'same-line', line: texts[0] })
+    expect(beef[0].bbox).toEqual(lines[0].words[5].bbox)
+    expect(findCandidatePrices('Lobster Thermidor', 0, lines, texts)[0].amount).toBe(32)
+  })
+
+  it('should find where the name ends from its words, not its text', () => {
+    // The name was tidied up, so it no longer appears in the line as written
+    const lines = [line('Lobster Thermidor $32.00 Beef  Bourguignon $28.00', 10)]
+    const texts = lines.map(l => l.text)
+
+    expect(findCandidatePrices('Beef Bourguignon', 0, lines, texts, 4)).toMatchObject([{ amount: 28, raw: '$28.00' }])
+  })
+
+  it('should take prices from the lines below, but not from the next dish', () => {
+    const lines = [
+      line('Coq au Vin', 10),
+      line('braised in red wine, mushrooms, lardons', 40),
+      line('$26.00', 70),
+      line('Duck Confit', 100),
+      line('Beef Bourguignon $28.00', 130)
+    ]
+    const texts = lines.map(l => l.text)
+
+    expect(findCandidatePrices('Coq au Vin', 0, lines, texts)).toMatchObject([{ amount: 26, source: 'next-line', line: '$26.00' }])
+    expect(findCandidatePrices('Duck Confit', 3, lines, texts)).toEqual([])
+  })
+
+  it('should read a bare number as a price only when it is printed in a price column', () => {
+    // The last word moved right, away from the name
+    const setApart = (text: string, y: number, x: number) => {
+      const result = line(text, y)
+      result.words[result.words.length - 1].bbox.x = x
+      return result
+    }
+    const lines = [
+      line('Platter for 2', 10),
+      line('Combo No 5', 40),
+      line('Chicken 65', 70),
+      setApart('Confit de Canard 28', 100, 300),
+      line('Tarte Tatin 9', 130)
+    ]
+    // "9" ends where the prices of the column end, right after a long name
+    lines[4].words[1].bbox.x = 250
+    lines[4].words[2].bbox.x = 310
+    const texts = lines.map(l => l.text)
+
+    for (const index of [0, 1, 2]) {
+      expect(findCandidatePrices(texts[index], index, lines, texts)).toEqual([])
+      expect(removeItemPrices(texts[index], lines, index)).toBe(texts[index])
+    }
+    expect(findCandidatePrices('Confit de Canard', 3, lines, texts)).toMatchObject([{ amount: 28, currency: null, raw: '28' }])
+    expect(removeItemPrices(texts[3], lines, 3)).toBe('Confit de Canard')
+    expect(removeItemPrices(texts[4], lines, 4)).toBe('Tarte Tatin')
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest'
+import { reocrLowConfidenceLines } from '../../src/lib/ocr/reocr'
+import type { OcrLine, OcrResult } from '../../src/lib/ocr/OcrProvider'
+import type { RasterImage } from '../../src/lib/preprocess'
+
+function makeLine(text: string, y: number, confidence: number): OcrLine {
+  return {
+    text,
+    bbox: { x: 20, y, w: 200, h: 20 },
+    words: [{ text, bbox: { x: 20, y, w: 200, h: 20 }, confidence }],
+    confidence
+  }
+}
+
+const page: RasterImage = { data: new Uint8ClampedArray(300 * 200 * 4).fill(255), width: 300, height: 200 }
+
+describe('reocrLowConfidenceLines', () => {
+  it('should re-read only low-confidence lines and keep the better reading in page coordinates', async () => {
+    const good = makeLine('Grilled Salmon', 20, 0.95)
+    const garbled = makeLine('R dB SEE Salad', 80, 0.4)
+    const paragraph = { text: '', bbox: good.bbox, lines: [good, garbled], confidence: 0.7, blockIndex: 0 }
+    const result: OcrResult = { lines: [good, garbled], words: [], paragraphs: [paragraph], confidence: 0.7, processingTime: 0 }
+
+    const recognizeLine = vi.fn(async (region: RasterImage) => ({
+      text: 'Caesar Salad',
+      bbox: { x: 0, y: 0, w: region.width, h: region.height },
+      words: [{ text: 'Caesar Salad', bbox: { x: 24, y: 24, w: 480, h: 48 }, confidence: 0.9 }],
+      confidence: 0.9
+    }))
+
+    const { result: refined, report } = await reocrLowConfidenceLines(result, page, recognizeLine)
+
+    expect(recognizeLine).toHaveBeenCalledTimes(1)
+    // 20px line + 5px padding each side, upscaled 2.4x to the 48px target
+    expect(recognizeLine.mock.calls[0][0].height).toBe(72)
+    expect(report).toEqual({ attempted: 1, improved: 1 })
+    expect(refined.lines.map(line => line.text)).toEqual(['Grilled Salmon', 'Caesar Salad'])
+    expect(refined.lines[1].words[0].bbox).toEqual({ x: 25, y: 85, w: 200, h: 20 })
+    expect(refined.paragraphs?.[0].text).toBe('Grilled Salmon\nCaesar Salad')
+    expect(result.lines[1].text).toBe('R dB SEE Salad')
+  })
+
+  it('should keep the original when the second reading is no better', async () => {
+    const garbled = makeLine('le Fried Chick', 40, 0.5)
+    const result: OcrResult = { lines: [garbled], words: garbled.words, confidence: 0.5, processingTime: 0 }
+
+    const { result: refined, report } = await reocrLowConfidenceLines(result, page, async () => ({
+      ...garbled,
+      words: [{ ...garbled.words[0], confidence: 0.3 }]
+    }))
+
+    expect(report).toEqual({ attempted: 1, improved: 0 })
+    expect(refined).toBe(result)
+  })
+})
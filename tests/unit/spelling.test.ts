@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { buildCulinaryLexicon, correctOcrSpelling, editDistance, findCorrection, loadCulinaryLexicon } from '../../src/lib/ocr/spelling'
+import type { OcrLine, OcrResult } from '../../src/lib/ocr/OcrProvider'
+
+const lexicon = buildCulinaryLexicon(['Lobster Newburg', 'Steak Persillade', 'Roast Chicken', 'Chicken Parmesan'])
+
+function makeLine(words: Array<[string, number]>, y: number): OcrLine {
+  return {
+    text: words.map(([text]) => text).join(' '),
+    bbox: { x: 0, y, w: 300, h: 20 },
+    words: words.map(([text, confidence], i) => ({ text, bbox: { x: i * 100, y, w: 90, h: 20 }, confidence })),
+    confidence: 0.8
+  }
+}
+
+describe('spelling correction', () => {
+  it('should count a swap of adjacent letters as one edit', () => {
+    expect(editDistance('newbrug', 'newburg')).toBe(1)
+    expect(editDistance('chick', 'chicken')).toBe(2)
+  })
+
+  it('should allow more edits the less confident the OCR reading is', () => {
+    expect(findCorrection('Chick', 0.5, lexicon)).toEqual({ word: 'chicken', distance: 2 })
+    expect(findCorrection('Chick', 0.9, lexicon)).toBeNull()
+    expect(findCorrection('Persilade', 0.8, lexicon)).toEqual({ word: 'persillade', distance: 1 })
+    expect(findCorrection('Lobster', 0.3, lexicon)).toBeNull()
+  })
+
+  it('should correct words in place and keep what OCR read', () => {
+    const result: OcrResult = {
+      lines: [makeLine([['LOBSTER', 0.9], ['NEWBRUG,', 0.7]], 10), makeLine([['Roast', 0.9], ['Chicken', 0.96]], 40)],
+      words: [],
+      confidence: 0.8,
+      processingTime: 0
+    }
+
+    const { result: corrected, corrections } = correctOcrSpelling(result, lexicon)
+
+    expect(corrected.lines[0].text).toBe('LOBSTER NEWBURG,')
+    expect(corrected.lines[0].originalText).toBe('LOBSTER NEWBRUG,')
+    expect(corrected.lines[0].words[1]).toMatchObject({ text: 'NEWBURG,', originalText: 'NEWBRUG,' })
+    expect(corrected.lines[1]).toBe(result.lines[1])
+    expect(corrections).toEqual([{ original: 'NEWBRUG,', corrected: 'NEWBURG,', confidence: 0.7, distance: 1 }])
+    expect(result.lines[0].text).toBe('LOBSTER NEWBRUG,')
+  })
+
+  it('should page through the entree tables and cache the lexicon', async () => {
+    // 1001 approved entrees: a full page of filler, then one more on the second page
+    const approved = [...Array.from({ length: 1000 }, () => ({ text: 'Soup' })), { text: 'Bouillabaisse' }]
+    const requests: string[] = []
+    const client = {
+      from: (table: string) => {
+        const query = {
+          select: () => query,
+          order: () => query,
+          range: async (from: number, to: number) => {
+            requests.push(`${table} ${from}-${to}`)
+            return { data: table === 'mlmp_entrees' ? approved.slice(from, to + 1) : [], error: null }
+          }
+        }
+        return query
+      }
+    } as any
+
+    const loaded = await loadCulinaryLexicon(client)
+    expect(loaded.words.has('bouillabaisse')).toBe(true)
+    expect(requests).toEqual(['common_entrees 0-999', 'mlmp_entrees 0-999', 'mlmp_entrees 1000-1999'])
+
+    expect(await loadCulinaryLexicon(client)).toBe(loaded)
+    expect(requests).toHaveLength(3)
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { buildOcrLayout, groupWordsIntoLines } from '../../src/lib/ocr/tesseractLayout'
+
+type TesseractPage = Parameters<typeof buildOcrLayout>[0]
+
+const bbox = (x0: number, y0: number, x1: number, y1: number) => ({ x0, y0, x1, y1 })
+
+const word = (text: string, x0: number, y0: number, confidence = 90) => ({
+  text,
+  confidence,
+  bbox: bbox(x0, y0, x0 + text.length * 10, y0 + 20)
+})
+
+const line = (words: ReturnType<typeof word>[], y0: number) => ({
+  text: words.map(w => w.text).join(' ') + '\n',
+  confidence: 88,
+  bbox: bbox(words[0].bbox.x0, y0, words[words.length - 1].bbox.x1, y0 + 20),
+  baseline: { x0: words[0].bbox.x0, y0: y0 + 18, x1: words[words.length - 1].bbox.x1, y1: y0 + 21, has_baseline: true },
+  words
+})
+
+const block = (lines: ReturnType<typeof line>[]) => ({
+  text: '',
+  confidence: 85,
+  blocktype: 'FLOWING_TEXT',
+  bbox: bbox(lines[0].bbox.x0, lines[0].bbox.y0, lines[0].bbox.x1, lines[lines.length - 1].bbox.y1),
+  paragraphs: [{
+    text: '',
+    confidence: 86,
+    bbox: bbox(lines[0].bbox.x0, lines[0].bbox.y0, lines[0].bbox.x1, lines[lines.length - 1].bbox.y1),
+    lines
+  }]
+})
+
+describe('Tesseract layout conversion', () => {
+  // Two menu columns whose lines sit at exactly the same y positions
+  const leftColumn = block([
+    line([word('Lobster', 10, 100), word('Newburg', 90, 100)], 100),
+    line([word('Crab', 10, 140), word('Cake', 60, 140)], 140)
+  ])
+  const rightColumn = block([
+    line([word('Potato', 400, 100), word('Skins', 470, 100)], 100),
+    line([word('Beef', 400, 140), word('Ribs', 450, 140)], 140)
+  ])
+  const page = {
+    blocks: [leftColumn, rightColumn],
+    words: [...leftColumn.paragraphs[0].lines, ...rightColumn.paragraphs[0].lines].flatMap(l => l.words)
+  } as unknown as TesseractPage
+
+  it('should keep columns as separate lines in reading order', () => {
+    const layout = buildOcrLayout(page)
+
+    expect(layout.lines.map(l => l.text)).toEqual([
+      'Lobster Newburg',
+      'Crab Cake',
+      'Potato Skins',
+      'Beef Ribs'
+    ])
+    expect(layout.blocks).toHaveLength(2)
+    expect(layout.paragraphs).toHaveLength(2)
+    expect(layout.lines[2].blockIndex).toBe(1)
+    expect(layout.lines[2].paragraphIndex).toBe(1)
+    expect(layout.blocks[1].paragraphs[0].lines[0]).toBe(layout.lines[2])
+  })
+
+  it('should carry baselines and convert confidences to a 0-1 scale', () => {
+    const [first] = buildOcrLayout(page).lines
+
+    expect(first.baseline).toEqual({ x0: 10, y0: 118, x1: 160, y1: 121 })
+    expect(first.confidence).toBeCloseTo(0.88)
+    expect(first.words[0].confidence).toBeCloseTo(0.9)
+  })
+
+  it('should drop empty or zero-confidence words', () => {
+    const noisy = block([line([word('Steak', 10, 100), word(' ', 70, 100), word('~', 90, 100, 0)], 100)])
+    const layout = buildOcrLayout({ blocks: [noisy], words: [] } as unknown as TesseractPage)
+
+    expect(layout.lines[0].text).toBe('Steak')
+    expect(layout.words).toHaveLength(1)
+  })
+
+  it('should fall back to y-grouping when no blocks are reported', () => {
+    const layout = buildOcrLayout({ ...page, blocks: null } as unknown as TesseractPage)
+
+    expect(layout.blocks).toEqual([])
+    expect(layout.lines[0].text).toBe('Lobster Newburg Potato Skins')
+    expect(groupWordsIntoLines([])).toEqual([])
+  })
+})
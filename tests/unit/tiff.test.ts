@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { readTiffPages, decodeTiffPage, decodeLzw, decodePackBits, isTiff } from '../../src/lib/image/tiff'
+
+interface TestPage {
+  width: number
+  height: number
+  bitsPerSample: number
+  photometric: number
+  compression: number
+  data: number[]
+  resolution?: [number, number] // x and y DPI
+}
+
+// Little-endian TIFF with one strip per page
+function buildTiff(pages: TestPage[]): Uint8Array {
+  const bytes: number[] = [0x49, 0x49, 42, 0, 0, 0, 0, 0]
+  const u16 = (at: number, value: number) => { bytes[at] = value & 0xff; bytes[at + 1] = value >> 8 }
+  const u32 = (at: number, value: number) => { u16(at, value & 0xffff); u16(at + 2, value >>> 16) }
+  let pointer = 4
+
+  for (const page of pages) {
+    const dataOffset = bytes.length
+    bytes.push(...page.data)
+    const resolutionOffset = bytes.length
+    if (page.resolution) bytes.push(...new Array(16).fill(0))
+    if (bytes.length % 2) bytes.push(0)
+
+    const entries: Array<[number, number, number]> = [
+      [256, 4, page.width], [257, 4, page.height], [258, 3, page.bitsPerSample], [259, 3, page.compression],
+      [262, 3, page.photometric], [273, 4, dataOffset], [277, 3, 1], [278, 4, page.height], [279, 4, page.data.length]
+    ]
+    if (page.resolution) {
+      u32(resolutionOffset, page.resolution[0]); u32(resolutionOffset + 4, 1)
+      u32(resolutionOffset + 8, page.resolution[1]); u32(resolutionOffset + 12, 1)
+      entries.push([282, 5, resolutionOffset], [283, 5, resolutionOffset + 8], [296, 3, 2])
+    }
+    entries.sort((a, b) => a[0] - b[0])
+
+    const ifd = bytes.length
+    u32(pointer, ifd)
+    u16(ifd, entries.length)
+    entries.forEach(([tag, type, value], i) => {
+      const entry = ifd + 2 + i * 12
+      u16(entry, tag); u16(entry + 2, type); u32(entry + 4, 1)
+      if (type === 3) { u16(entry + 8, value); u16(entry + 10, 0) } else u32(entry + 8, value)
+    })
+    pointer = ifd + 2 + entries.length * 12
+    u32(pointer, 0)
+  }
+
+  return Uint8Array.from(bytes, value => value ?? 0)
+}
+
+const grayAt = (raster: { data: Uint8ClampedArray, width: number }, x: number, y: number) => raster.data[(y * raster.width + x) * 4]
+
+describe('TIFF decoding', () => {
+  it('should list every page of a multi-page file', async () => {
+    const tiff = buildTiff([
+      { width: 2, height: 1, bitsPerSample: 8, photometric: 1, compression: 1, data: [0, 255], resolution: [300, 300] },
+      { width: 2, height: 2, bitsPerSample: 8, photometric: 0, compression: 1, data: [0, 255, 255, 0] }
+    ])
+    expect(isTiff(tiff)).toBe(true)
+
+    const pages = readTiffPages(tiff)
+    expect(pages.map(page => [page.width, page.height, page.dpi])).toEqual([[2, 1, 300], [2, 2, undefined]])
+
+    // WhiteIsZero: 0 is white
+    const second = await decodeTiffPage(tiff, pages[1])
+    expect([grayAt(second, 0, 0), grayAt(second, 1, 0), grayAt(second, 0, 1)]).toEqual([255, 0, 0])
+  })
+
+  it('should decode CCITT fax pages', async () => {
+    // Two 8-pixel rows of white 2, black 3, white 3: byte-aligned Modified Huffman runs,
+    // then Group 4 (a horizontal mode, a V0, then three V0s against the first row)
+    const expected = [255, 255, 0, 0, 0, 255, 255, 255]
+    for (const [compression, data] of [[2, [0x7a, 0x00, 0x7a, 0x00]], [4, [0x2f, 0x78]]]) {
+      const tiff = buildTiff([{ width: 8, height: 2, bitsPerSample: 1, photometric: 0, compression, data }])
+      const raster = await decodeTiffPage(tiff, readTiffPages(tiff)[0])
+      for (const y of [0, 1]) {
+        expect(expected.map((_, x) => grayAt(raster, x, y))).toEqual(expected)
+      }
+    }
+  })
+
+  it('should stretch standard-resolution fax pages to square pixels', async () => {
+    const tiff = buildTiff([{ width: 8, height: 2, bitsPerSample: 1, photometric: 0, compression: 2, data: [0x7a, 0x00, 0x7a, 0x00], resolution: [204, 98] }])
+    const raster = await decodeTiffPage(tiff, readTiffPages(tiff)[0])
+    expect(raster.height).toBe(4)
+    expect(raster.dpi).toBe(204)
+  })
+
+  it('should decompress LZW and PackBits strips', () => {
+    // CLEAR, A, B, <AB>, <ABA> (a code used in the step that defines it), END as 9-bit codes
+    const codes = [256, 65, 66, 258, 260, 257]
+    const bits = codes.map(code => code.toString(2).padStart(9, '0')).join('').padEnd(56, '0')
+    const lzw = Uint8Array.from(bits.match(/.{8}/g)!, byte => parseInt(byte, 2))
+    expect(new TextDecoder().decode(decodeLzw(lzw, 7))).toBe('ABABABA')
+
+    expect([...decodePackBits(Uint8Array.from([0xfe, 0xaa, 0x02, 1, 2, 3]), 6)]).toEqual([0xaa, 0xaa, 0xaa, 1, 2, 3])
+  })
+})
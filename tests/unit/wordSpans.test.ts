@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { findTextSpan, findWordSpans, splitAtWordGaps } from '../../src/lib/candidates/wordSpans'
+import type { OcrWord } from '../../src/lib/ocr/OcrProvider'
+
+const words = (text: string): OcrWord[] =>
+  text.split(' ').map((wordText, i) => ({ text: wordText, bbox: { x: i * 100, y: 10, w: 90, h: 20 }, confidence: 0.9 }))
+
+describe('Word spans', () => {
+  it('should only match whole words', () => {
+    const line = words('Graham Crackers Honey Ham $9')
+
+    expect(findTextSpan(line, 'Ham')?.wordIndices).toEqual([3])
+    expect(findTextSpan(line, 'Crackers Honey')?.wordIndices).toEqual([1, 2])
+    expect(findTextSpan(line, 'rack')).toBeUndefined()
+  })
+
+  it('should find each part after the one before it', () => {
+    const line = words('Tomato Soup $6 Tomato Salad $8')
+
+    expect(findWordSpans(line, ['Tomato Soup $6', 'Tomato Salad $8']).map(span => span?.wordIndices)).toEqual([[0, 1], [3, 4]])
+  })
+
+  it('should cut a line at wide gaps before a word, but not before a price', () => {
+    const line = words('Chicken Fajita Greek Steak $12')
+    line[2].bbox.x += 100
+    line[3].bbox.x += 100
+    line[4].bbox.x += 300
+
+    expect(splitAtWordGaps(line, [0, 1, 2, 3, 4], 50).map(({ text, wordIndices }) => ({ text, wordIndices }))).toEqual([
+      { text: 'Chicken Fajita', wordIndices: [0, 1] },
+      { text: 'Greek Steak $12', wordIndices: [2, 3, 4] }
+    ])
+    expect(splitAtWordGaps(line, [0, 1], 50)).toHaveLength(1)
+  })
+})